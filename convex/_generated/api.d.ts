@@ -18,16 +18,50 @@ import type * as aiTools from "../aiTools.js";
 import type * as analytics from "../analytics.js";
 import type * as auth from "../auth.js";
 import type * as cache from "../cache.js";
+import type * as categories from "../categories.js";
+import type * as crons from "../crons.js";
+import type * as exports from "../exports.js";
 import type * as favourites from "../favourites.js";
 import type * as http from "../http.js";
+import type * as labelSuggestions from "../labelSuggestions.js";
 import type * as lib_cache from "../lib/cache.js";
+import type * as lib_categories from "../lib/categories.js";
 import type * as lib_constants from "../lib/constants.js";
 import type * as lib_embeddingHelpers from "../lib/embeddingHelpers.js";
 import type * as lib_gemini from "../lib/gemini.js";
+import type * as lib_labelVoting from "../lib/labelVoting.js";
+import type * as lib_lifecycle from "../lib/lifecycle.js";
+import type * as lib_linkHealth from "../lib/linkHealth.js";
+import type * as lib_logos from "../lib/logos.js";
+import type * as lib_machineTranslation from "../lib/machineTranslation.js";
+import type * as lib_pageMetadata from "../lib/pageMetadata.js";
 import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_revisions from "../lib/revisions.js";
+import type * as lib_roles from "../lib/roles.js";
+import type * as lib_slugs from "../lib/slugs.js";
+import type * as lib_tags from "../lib/tags.js";
+import type * as lib_toolDrafts from "../lib/toolDrafts.js";
+import type * as lib_toolExport from "../lib/toolExport.js";
+import type * as lib_toolHelpers from "../lib/toolHelpers.js";
+import type * as lib_toolImport from "../lib/toolImport.js";
+import type * as lib_toolMedia from "../lib/toolMedia.js";
+import type * as lib_toolRelations from "../lib/toolRelations.js";
+import type * as linkHealth from "../linkHealth.js";
+import type * as logos from "../logos.js";
+import type * as moderation from "../moderation.js";
+import type * as pageMetadata from "../pageMetadata.js";
 import type * as reviews from "../reviews.js";
+import type * as revisions from "../revisions.js";
 import type * as router from "../router.js";
 import type * as seo from "../seo.js";
+import type * as tags from "../tags.js";
+import type * as toolDrafts from "../toolDrafts.js";
+import type * as toolEdits from "../toolEdits.js";
+import type * as toolImport from "../toolImport.js";
+import type * as toolMedia from "../toolMedia.js";
+import type * as toolMerges from "../toolMerges.js";
+import type * as toolRelations from "../toolRelations.js";
+import type * as translations from "../translations.js";
 import type * as users from "../users.js";
 
 /**
@@ -44,16 +78,50 @@ declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
   auth: typeof auth;
   cache: typeof cache;
+  categories: typeof categories;
+  crons: typeof crons;
+  exports: typeof exports;
   favourites: typeof favourites;
   http: typeof http;
+  labelSuggestions: typeof labelSuggestions;
   "lib/cache": typeof lib_cache;
+  "lib/categories": typeof lib_categories;
   "lib/constants": typeof lib_constants;
   "lib/embeddingHelpers": typeof lib_embeddingHelpers;
   "lib/gemini": typeof lib_gemini;
+  "lib/labelVoting": typeof lib_labelVoting;
+  "lib/lifecycle": typeof lib_lifecycle;
+  "lib/linkHealth": typeof lib_linkHealth;
+  "lib/logos": typeof lib_logos;
+  "lib/machineTranslation": typeof lib_machineTranslation;
+  "lib/pageMetadata": typeof lib_pageMetadata;
   "lib/rateLimit": typeof lib_rateLimit;
+  "lib/revisions": typeof lib_revisions;
+  "lib/roles": typeof lib_roles;
+  "lib/slugs": typeof lib_slugs;
+  "lib/tags": typeof lib_tags;
+  "lib/toolDrafts": typeof lib_toolDrafts;
+  "lib/toolExport": typeof lib_toolExport;
+  "lib/toolHelpers": typeof lib_toolHelpers;
+  "lib/toolImport": typeof lib_toolImport;
+  "lib/toolMedia": typeof lib_toolMedia;
+  "lib/toolRelations": typeof lib_toolRelations;
+  linkHealth: typeof linkHealth;
+  logos: typeof logos;
+  moderation: typeof moderation;
+  pageMetadata: typeof pageMetadata;
   reviews: typeof reviews;
+  revisions: typeof revisions;
   router: typeof router;
   seo: typeof seo;
+  tags: typeof tags;
+  toolDrafts: typeof toolDrafts;
+  toolEdits: typeof toolEdits;
+  toolImport: typeof toolImport;
+  toolMedia: typeof toolMedia;
+  toolMerges: typeof toolMerges;
+  toolRelations: typeof toolRelations;
+  translations: typeof translations;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
@@ -3,7 +3,7 @@
  * Actions can call external APIs and perform side effects
  */
 
-import { action } from "./_generated/server";
+import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import { generateEmbedding } from "./lib/gemini";
@@ -15,6 +15,66 @@ import {
   GEMINI_EMBEDDING_DIMENSIONS,
   GEMINI_EMBEDDING_MODEL,
 } from "./lib/constants";
+import { getToolCategories } from "./lib/categories";
+
+/**
+ * English labels of every category of a tool, joined for the embedding text
+ */
+const getCategoryLabels = (
+  categories: Array<{ slug: string; labels: { en: string } }>,
+  tool: { category: string; categories?: string[] }
+) =>
+  getToolCategories(tool)
+    .map((slug) => categories.find((category) => category.slug === slug)?.labels.en ?? slug)
+    .join(", ");
+
+/**
+ * Embed the primary content of a tool and each of its translations
+ * Category, tags and pricing are shared by every language variant
+ *
+ * @throws Error if Gemini returns an embedding of the wrong size
+ */
+const embedToolVariants = async (
+  tool: {
+    name: string;
+    description: string;
+    detail?: string;
+    category: string;
+    categories?: string[];
+    tags: string[];
+    pricing: "free" | "freemium" | "paid";
+    translations?: Array<{ language: "en" | "vi"; name: string; description: string; detail?: string }>;
+  },
+  categories: Array<{ slug: string; labels: { en: string } }>
+) => {
+  const embedContent = async (content: { name: string; description: string; detail?: string }) => {
+    const embeddingText = createEmbeddingText({
+      name: content.name,
+      description: content.description,
+      detail: content.detail,
+      category: getCategoryLabels(categories, tool),
+      tags: tool.tags,
+      pricing: tool.pricing,
+    });
+    const embedding = await generateEmbedding(embeddingText);
+    if (!embedding || embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
+      throw new Error(
+        `Invalid embedding generated: expected ${GEMINI_EMBEDDING_DIMENSIONS} dimensions, got ${embedding?.length || 0}`
+      );
+    }
+    return embedding;
+  };
+
+  const embedding = await embedContent(tool);
+  const translationEmbeddings = [];
+  for (const translation of tool.translations ?? []) {
+    translationEmbeddings.push({
+      language: translation.language,
+      embedding: await embedContent(translation),
+    });
+  }
+  return { embedding, translationEmbeddings };
+};
 
 /**
  * Verify Gemini API configuration
@@ -22,7 +82,9 @@ import {
  */
 export const verifyGeminiConfig = action({
   args: {},
-  handler: async () => {
+  handler: async (ctx) => {
+    await ctx.runQuery(internal.users.assertPermission, { permission: "system:admin" });
+
     try {
       // Test with a simple embedding generation (will throw if API key is missing)
       const testEmbedding = await generateEmbedding("test");
@@ -50,10 +112,12 @@ export const verifyGeminiConfig = action({
  * and stores it in the database
  * 
  * @param toolId - ID of the tool to generate embedding for
+ * Internal so it can only be scheduled by mutations (e.g. on approval)
+ * 
  * @returns Success status and embedding info
  * @throws Error if tool not found or embedding generation fails
  */
-export const generateToolEmbedding = action({
+export const generateToolEmbedding = internalAction({
   args: {
     toolId: v.id("aiTools"),
   },
@@ -76,34 +140,21 @@ export const generateToolEmbedding = action({
         throw new Error(`Tool with ID ${args.toolId} not found or not approved`);
       }
 
-      // Construct embedding text from tool fields
-      const embeddingText = createEmbeddingText({
-        name: tool.name,
-        description: tool.description,
-        detail: tool.detail,
-        category: tool.category,
-        tags: tool.tags,
-        pricing: tool.pricing,
-      });
+      // Embed the English category labels rather than the stored slugs
+      const categories = await ctx.runQuery(api.categories.listCategories, {});
 
       console.log(`Generating embedding for tool: ${tool.name}`);
-      console.log(`Embedding text length: ${embeddingText.length} characters`);
 
-      // Generate embedding via Gemini API
-      const embedding = await generateEmbedding(embeddingText);
-
-      // Validate embedding
-      if (!embedding || embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
-        throw new Error(
-          `Invalid embedding generated: expected ${GEMINI_EMBEDDING_DIMENSIONS} dimensions, got ${embedding?.length || 0}`
-        );
-      }
+      // Generate one embedding per language variant via Gemini API
+      const { embedding, translationEmbeddings } = await embedToolVariants(tool, categories);
 
       // Store embedding in database via mutation
+      // (tool._id differs from args.toolId when the tool was merged away)
       await ctx.runMutation(internal.aiTools.updateToolEmbedding, {
-        toolId: args.toolId,
+        toolId: tool._id,
         embedding,
         embeddingVersion: GEMINI_EMBEDDING_MODEL,
+        translationEmbeddings,
       });
 
       console.log(`Successfully generated embedding for tool: ${tool.name}`);
@@ -133,6 +184,7 @@ export const generateToolEmbedding = action({
  * Generate embeddings for all tools in batch
  * Processes all tools without embeddings, respecting rate limits
  * Continues processing even if individual tools fail
+ * Requires the system:admin permission
  * 
  * @returns Statistics on success/failure counts and processing details
  */
@@ -150,6 +202,9 @@ export const generateAllEmbeddings = action({
     endTime: string;
     durationSeconds: number;
   }> => {
+    // Admin-only: this burns through the Gemini quota for the whole catalog
+    await ctx.runQuery(internal.users.assertPermission, { permission: "system:admin" });
+
     const startTime = new Date();
     console.log(`Starting batch embedding generation at ${startTime.toISOString()}`);
 
@@ -180,6 +235,8 @@ export const generateAllEmbeddings = action({
     let skippedCount = 0;
     const failures: Array<{ toolId: string; toolName: string; error: string }> = [];
 
+    const categories = await ctx.runQuery(api.categories.listCategories, {});
+
     // Process each tool sequentially with rate limiting
     for (let i = 0; i < toolsWithoutEmbeddings.length; i++) {
       const tool = toolsWithoutEmbeddings[i];
@@ -189,31 +246,15 @@ export const generateAllEmbeddings = action({
           `Processing tool ${i + 1}/${toolsWithoutEmbeddings.length}: ${tool.name}`
         );
 
-        // Construct embedding text from tool fields
-        const embeddingText = createEmbeddingText({
-          name: tool.name,
-          description: tool.description,
-          detail: tool.detail,
-          category: tool.category,
-          tags: tool.tags,
-          pricing: tool.pricing,
-        });
-
-        // Generate embedding via Gemini API
-        const embedding = await generateEmbedding(embeddingText);
-
-        // Validate embedding
-        if (!embedding || embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
-          throw new Error(
-            `Invalid embedding: expected ${GEMINI_EMBEDDING_DIMENSIONS} dimensions, got ${embedding?.length || 0}`
-          );
-        }
+        // Generate one embedding per language variant via Gemini API
+        const { embedding, translationEmbeddings } = await embedToolVariants(tool, categories);
 
         // Store embedding in database
         await ctx.runMutation(internal.aiTools.updateToolEmbedding, {
           toolId: tool._id,
           embedding,
           embeddingVersion: GEMINI_EMBEDDING_MODEL,
+          translationEmbeddings,
         });
 
         successCount++;
@@ -276,9 +317,11 @@ export const generateAllEmbeddings = action({
  * 
  * @param query - Natural language search query
  * @param limit - Maximum number of results (default: 20)
- * @param language - Optional language filter (en/vi)
+ * @param language - Optional content language (en/vi); tools fall back to their primary content
  * @param category - Optional category filter
+ * @param tags - Optional tags; results must carry every tag
  * @param pricing - Optional pricing filter (free/freemium/paid)
+ * @param includeDiscontinued - Also return discontinued tools (hidden by default)
  * @returns Array of tools with similarity scores, sorted by relevance
  */
 export const semanticSearch = action({
@@ -287,7 +330,9 @@ export const semanticSearch = action({
     limit: v.optional(v.number()),
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
   },
   handler: async (ctx, args): Promise<any[]> => {
     const limit = args.limit || 10;
@@ -322,14 +367,16 @@ export const semanticSearch = action({
       query: trimmedQuery,
       language: args.language,
       category: args.category,
+      tags: args.tags ? [...args.tags].sort() : undefined,
       pricing: args.pricing,
+      includeDiscontinued: args.includeDiscontinued,
     });
     const queryHash = hashQuery(cacheKey);
 
     try {
       // Check cache first
       console.log(`Checking cache for query hash: ${queryHash}`);
-      const cachedSearch = await ctx.runQuery(api.cache.getCachedSearch, {
+      const cachedSearch = await ctx.runQuery(internal.cache.getCachedSearch, {
         queryHash,
       });
 
@@ -337,7 +384,7 @@ export const semanticSearch = action({
         console.log(`Cache hit! Using cached results (hit count: ${cachedSearch.hitCount})`);
         
         // Increment cache hit count
-        await ctx.runMutation(api.cache.incrementCacheHit, {
+        await ctx.runMutation(internal.cache.incrementCacheHit, {
           cacheId: cachedSearch._id,
         });
 
@@ -348,7 +395,9 @@ export const semanticSearch = action({
           limit,
           language: args.language,
           category: args.category,
+          tags: args.tags,
           pricing: args.pricing,
+          includeDiscontinued: args.includeDiscontinued,
         });
 
         console.log(`Returned ${results.length} cached results`);
@@ -383,7 +432,9 @@ export const semanticSearch = action({
         limit,
         language: args.language,
         category: args.category,
+        tags: args.tags,
         pricing: args.pricing,
+        includeDiscontinued: args.includeDiscontinued,
       });
 
       console.log(`Vector search returned ${results.length} results`);
@@ -393,7 +444,7 @@ export const semanticSearch = action({
         const resultIds = results.map((tool) => tool._id);
         const expiresAt = getCacheExpiry();
 
-        await ctx.runMutation(api.cache.storeSearchCache, {
+        await ctx.runMutation(internal.cache.storeSearchCache, {
           query: trimmedQuery,
           queryHash,
           results: resultIds,
@@ -427,7 +478,9 @@ export const semanticSearch = action({
           searchTerm: trimmedQuery,
           language: args.language,
           category: args.category,
+          tags: args.tags,
           pricing: args.pricing,
+          includeDiscontinued: args.includeDiscontinued,
         });
 
         console.log(`Keyword search fallback returned ${fallbackResults.length} results`);
@@ -464,9 +517,11 @@ export const semanticSearch = action({
  * 
  * @param query - Search query (natural language or keywords)
  * @param limit - Maximum number of results (default: 20)
- * @param language - Optional language filter (en/vi)
+ * @param language - Optional content language (en/vi); tools fall back to their primary content
  * @param category - Optional category filter
+ * @param tags - Optional tags; results must carry every tag
  * @param pricing - Optional pricing filter (free/freemium/paid)
+ * @param includeDiscontinued - Also return discontinued tools (hidden by default)
  * @returns Array of tools with scores, semantic results prioritized
  */
 export const hybridSearch = action({
@@ -475,7 +530,9 @@ export const hybridSearch = action({
     limit: v.optional(v.number()),
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
   },
   handler: async (ctx, args): Promise<any[]> => {
     const limit = args.limit || 10;
@@ -514,14 +571,18 @@ export const hybridSearch = action({
           limit: limit, // Get more results to have better selection after merging
           language: args.language,
           category: args.category,
+          tags: args.tags,
           pricing: args.pricing,
+          includeDiscontinued: args.includeDiscontinued,
         }),
         // Keyword search
         ctx.runQuery(api.aiTools.searchTools, {
           searchTerm: trimmedQuery,
           language: args.language,
           category: args.category,
+          tags: args.tags,
           pricing: args.pricing,
+          includeDiscontinued: args.includeDiscontinued,
         }),
       ]);
 
@@ -590,7 +651,9 @@ export const hybridSearch = action({
           searchTerm: trimmedQuery,
           language: args.language,
           category: args.category,
+          tags: args.tags,
           pricing: args.pricing,
+          includeDiscontinued: args.includeDiscontinued,
         });
 
         console.log(`Keyword search fallback returned ${fallbackResults.length} results`);
@@ -1,100 +1,165 @@
-import { query, mutation, internalMutation } from "./_generated/server";
+import { query, mutation, internalMutation, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { api } from "./_generated/api";
+import { internal } from "./_generated/api";
+import { getUser, isOwnerOrHasPermission, requirePermission } from "./users";
 import {
   GEMINI_EMBEDDING_DIMENSIONS,
   GEMINI_EMBEDDING_MODEL,
+  DELETED_TOOL_PURGE_BATCH_SIZE,
+  DELETED_TOOL_RETENTION_MS,
+  NORMALIZED_FIELDS_BACKFILL_BATCH_SIZE,
 } from "./lib/constants";
+import {
+  assertNoDuplicateTool,
+  cleanTags,
+  normalizeName,
+  normalizeUrl,
+  prepareToolSubmission,
+  tagsEqual,
+  toolSubmissionValidator,
+} from "./lib/toolHelpers";
+import { insertToolWithRevision, patchToolWithRevision } from "./lib/revisions";
+import { getRedirectTarget } from "./toolMerges";
+import { generateUniqueSlug } from "./lib/slugs";
+import { assertValidSuccessor, isDiscontinued, lifecycleStatusValidator } from "./lib/lifecycle";
+import { resolveToolCategories } from "./categories";
+import { getToolCategories, toolHasCategory } from "./lib/categories";
+import { canonicalizeTags, isCountedTool, syncToolTags } from "./lib/tags";
+import { cleanPricingPlans, derivePricing, pricingPlanValidator } from "./lib/pricing";
+import {
+  cleanTranslations,
+  getVariantEmbedding,
+  Language,
+  localizeTool,
+  toolSearchText,
+  toolTranslationValidator,
+} from "./lib/localization";
+import { cosineSimilarity } from "./lib/embeddingHelpers";
+import { acceptLogoUpload } from "./lib/logos";
+
+interface ToolFilters {
+  language?: Language; // Content language; every tool matches and falls back to its primary content
+  category?: string;
+  tags?: string[]; // Tools must carry every tag
+  pricing?: Doc<"aiTools">["pricing"];
+  includeDiscontinued?: boolean; // Discontinued tools are hidden unless this is set
+}
 
-const normalizeName = (value: string) =>
-  value
-    .toLowerCase()
-    .normalize("NFKD")
-    .replace(/[^a-z0-9]+/g, "")
-    .trim();
-
-const normalizeUrl = (url: string): string => {
-  try {
-    const urlObj = new URL(url);
-    // Remove trailing slash, normalize to lowercase
-    let normalized = `${urlObj.protocol}//${urlObj.hostname}${urlObj.pathname}${urlObj.search}${urlObj.hash}`;
-    // Remove trailing slash from path
-    normalized = normalized.replace(/\/$/, '');
-    return normalized.toLowerCase();
-  } catch {
-    // If URL is invalid, return trimmed lowercase version
-    return url.trim().toLowerCase().replace(/\/$/, '');
-  }
+/**
+ * Map filter tags onto canonical tags, dropping an empty tag list
+ */
+const resolveFilters = async (ctx: QueryCtx, args: ToolFilters): Promise<ToolFilters> => {
+  const tags = args.tags ? await canonicalizeTags(ctx, args.tags) : [];
+  return { ...args, tags: tags.length > 0 ? tags : undefined };
 };
 
 /**
- * Calculate cosine similarity between two vectors
- * Returns a value between -1 and 1, where 1 means identical direction
- * 
- * @param vectorA - First embedding vector
- * @param vectorB - Second embedding vector
- * @returns Cosine similarity score between -1 and 1
+ * Categories and tags live in arrays, which the aiTools indexes cannot match,
+ * so these filters read through the toolCategories and toolTags join tables
  */
-const cosineSimilarity = (vectorA: number[], vectorB: number[]): number => {
-  // Handle edge case: different lengths
-  if (vectorA.length !== vectorB.length) {
-    console.warn(
-      `Vector length mismatch: ${vectorA.length} vs ${vectorB.length}. Returning 0.`
-    );
-    return 0;
-  }
+const hasMembershipFilter = (filters: ToolFilters) =>
+  filters.category !== undefined || filters.tags !== undefined;
 
-  // Handle edge case: empty vectors
-  if (vectorA.length === 0) {
-    console.warn("Empty vectors provided. Returning 0.");
-    return 0;
+/**
+ * Join table rows for the category filter, or the first tag, newest first
+ * Pass `before` to start after the row created at that time
+ */
+const queryMemberships = (ctx: QueryCtx, filters: ToolFilters, before?: number) => {
+  const category = filters.category;
+  if (category) {
+    return ctx.db
+      .query("toolCategories")
+      .withIndex("by_category", (q) => {
+        const range = q.eq("category", category);
+        return before === undefined ? range : range.lt("_creationTime", before);
+      })
+      .order("desc");
   }
+  const tag = filters.tags![0];
+  return ctx.db
+    .query("toolTags")
+    .withIndex("by_tag", (q) => {
+      const range = q.eq("tag", tag);
+      return before === undefined ? range : range.lt("_creationTime", before);
+    })
+    .order("desc");
+};
 
-  // Calculate dot product and magnitudes
-  let dotProduct = 0;
-  let magnitudeA = 0;
-  let magnitudeB = 0;
+const matchesFilters = (tool: Doc<"aiTools">, filters: ToolFilters) =>
+  (filters.includeDiscontinued || !isDiscontinued(tool)) &&
+  (!filters.category || toolHasCategory(tool, filters.category)) &&
+  (!filters.tags || filters.tags.every((tag) => tool.tags.includes(tag))) &&
+  (!filters.pricing || tool.pricing === filters.pricing);
 
-  for (let i = 0; i < vectorA.length; i++) {
-    dotProduct += vectorA[i] * vectorB[i];
-    magnitudeA += vectorA[i] * vectorA[i];
-    magnitudeB += vectorB[i] * vectorB[i];
-  }
+/**
+ * Load the tools behind join table rows, keeping approved tools that match the filters
+ */
+const loadMatchingTools = async (
+  ctx: QueryCtx,
+  rows: Array<{ toolId: Id<"aiTools"> }>,
+  filters: ToolFilters
+) => {
+  const tools = await Promise.all(rows.map((row) => ctx.db.get(row.toolId)));
+  return tools.filter(
+    (tool): tool is Doc<"aiTools"> =>
+      tool !== null && tool.isApproved && matchesFilters(tool, filters)
+  );
+};
 
-  // Handle edge case: zero vectors (magnitude is 0)
-  if (magnitudeA === 0 || magnitudeB === 0) {
-    console.warn("Zero vector detected. Returning 0.");
-    return 0;
+/**
+ * Page through the join table until `numItems` matching tools are found
+ * The cursor is the creation time of the last join table row read
+ */
+const paginateMatchingTools = async (
+  ctx: QueryCtx,
+  filters: ToolFilters,
+  paginationOpts: { numItems: number; cursor: string | null }
+) => {
+  const page: Doc<"aiTools">[] = [];
+  let nextCursor = paginationOpts.cursor ?? "";
+  const before = paginationOpts.cursor ? Number(paginationOpts.cursor) : undefined;
+  for await (const row of queryMemberships(ctx, filters, before)) {
+    nextCursor = String(row._creationTime);
+    page.push(...(await loadMatchingTools(ctx, [row], filters)));
+    if (page.length >= paginationOpts.numItems) {
+      return { page, nextCursor, isDone: false };
+    }
   }
-
-  // Calculate cosine similarity
-  const similarity = dotProduct / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
-
-  // Clamp to [-1, 1] to handle floating point precision issues
-  return Math.max(-1, Math.min(1, similarity));
+  return { page, nextCursor, isDone: true };
 };
 
 export const listTools = query({
   args: {
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const filters = await resolveFilters(ctx, args);
+    if (hasMembershipFilter(filters)) {
+      const rows = await queryMemberships(ctx, filters).collect();
+      const tools = await loadMatchingTools(ctx, rows, filters);
+      return tools
+        .sort((a, b) => b._creationTime - a._creationTime)
+        .slice(0, 100)
+        .map((tool) => localizeTool(tool, args.language));
+    }
+
     let query = ctx.db.query("aiTools").filter((q) => q.eq(q.field("isApproved"), true));
 
-    if (args.language) {
-      query = query.filter((q) => q.eq(q.field("language"), args.language));
-    }
-    if (args.category) {
-      query = query.filter((q) => q.eq(q.field("category"), args.category));
-    }
     if (args.pricing) {
       query = query.filter((q) => q.eq(q.field("pricing"), args.pricing));
     }
+    if (!args.includeDiscontinued) {
+      query = query.filter((q) => q.neq(q.field("lifecycleStatus"), "discontinued"));
+    }
 
-    return await query.order("desc").take(100);
+    const tools = await query.order("desc").take(100);
+    return tools.map((tool) => localizeTool(tool, args.language));
   },
 });
 
@@ -103,20 +168,16 @@ export const searchTools = query({
     searchTerm: v.string(),
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const searchQuery = ctx.db
       .query("aiTools")
       .withSearchIndex("search_tools", (q) => {
-        let query = q.search("name", args.searchTerm).eq("isApproved", true);
+        let query = q.search("searchText", args.searchTerm).eq("isApproved", true);
 
-        if (args.language) {
-          query = query.eq("language", args.language);
-        }
-        if (args.category) {
-          query = query.eq("category", args.category);
-        }
         if (args.pricing) {
           query = query.eq("pricing", args.pricing);
         }
@@ -124,7 +185,18 @@ export const searchTools = query({
         return query;
       });
 
-    return await searchQuery.take(50);
+    const filters = await resolveFilters(ctx, args);
+    if (hasMembershipFilter(filters)) {
+      const results = await searchQuery.collect();
+      return results
+        .filter((tool) => matchesFilters(tool, filters))
+        .slice(0, 50)
+        .map((tool) => localizeTool(tool, args.language));
+    }
+    const results = await searchQuery.take(50);
+    return results
+      .filter((tool) => matchesFilters(tool, filters))
+      .map((tool) => localizeTool(tool, args.language));
   },
 });
 
@@ -136,30 +208,38 @@ export const listToolsPaginated = query({
   args: {
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
     paginationOpts: v.object({
       numItems: v.number(),
       cursor: v.union(v.string(), v.null()),
     }),
   },
   handler: async (ctx, args) => {
+    const filters = await resolveFilters(ctx, args);
+    if (hasMembershipFilter(filters)) {
+      const result = await paginateMatchingTools(ctx, filters, args.paginationOpts);
+      return {
+        ...result,
+        page: result.page.map((tool) => localizeTool(tool, args.language)),
+      };
+    }
+
     let query = ctx.db.query("aiTools").filter((q) => q.eq(q.field("isApproved"), true));
 
-    if (args.language) {
-      query = query.filter((q) => q.eq(q.field("language"), args.language));
-    }
-    if (args.category) {
-      query = query.filter((q) => q.eq(q.field("category"), args.category));
-    }
     if (args.pricing) {
       query = query.filter((q) => q.eq(q.field("pricing"), args.pricing));
     }
+    if (!args.includeDiscontinued) {
+      query = query.filter((q) => q.neq(q.field("lifecycleStatus"), "discontinued"));
+    }
 
     // Use cursor-based pagination for better performance
     const result = await query.order("desc").paginate(args.paginationOpts);
 
     return {
-      page: result.page,
+      page: result.page.map((tool) => localizeTool(tool, args.language)),
       nextCursor: result.continueCursor,
       isDone: result.isDone,
     };
@@ -174,29 +254,33 @@ export const listToolsWithOffset = query({
   args: {
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
     offset: v.number(),
     limit: v.number(),
   },
   handler: async (ctx, args) => {
     let query = ctx.db.query("aiTools").filter((q) => q.eq(q.field("isApproved"), true));
 
-    if (args.language) {
-      query = query.filter((q) => q.eq(q.field("language"), args.language));
-    }
-    if (args.category) {
-      query = query.filter((q) => q.eq(q.field("category"), args.category));
-    }
     if (args.pricing) {
       query = query.filter((q) => q.eq(q.field("pricing"), args.pricing));
     }
+    if (!args.includeDiscontinued) {
+      query = query.filter((q) => q.neq(q.field("lifecycleStatus"), "discontinued"));
+    }
 
     // Get total count for pagination info
-    const allTools = await query.collect();
+    const filters = await resolveFilters(ctx, args);
+    const allTools = hasMembershipFilter(filters)
+      ? await loadMatchingTools(ctx, await queryMemberships(ctx, filters).collect(), filters)
+      : await query.collect();
     const totalCount = allTools.length;
 
-    // Sort by name in ascending order
-    const sortedTools = allTools.sort((a, b) => a.name.localeCompare(b.name));
+    // Sort by the localized name in ascending order
+    const sortedTools = allTools
+      .map((tool) => localizeTool(tool, args.language))
+      .sort((a, b) => a.name.localeCompare(b.name));
 
     // Apply offset and limit
     const tools = sortedTools.slice(args.offset, args.offset + args.limit);
@@ -218,7 +302,9 @@ export const searchToolsWithOffset = query({
     searchTerm: v.string(),
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
     offset: v.number(),
     limit: v.number(),
   },
@@ -226,14 +312,8 @@ export const searchToolsWithOffset = query({
     const searchQuery = ctx.db
       .query("aiTools")
       .withSearchIndex("search_tools", (q) => {
-        let query = q.search("name", args.searchTerm).eq("isApproved", true);
+        let query = q.search("searchText", args.searchTerm).eq("isApproved", true);
 
-        if (args.language) {
-          query = query.eq("language", args.language);
-        }
-        if (args.category) {
-          query = query.eq("category", args.category);
-        }
         if (args.pricing) {
           query = query.eq("pricing", args.pricing);
         }
@@ -242,11 +322,16 @@ export const searchToolsWithOffset = query({
       });
 
     // Get all search results first (search results are usually limited anyway)
-    const allResults = await searchQuery.collect();
+    const filters = await resolveFilters(ctx, args);
+    const allResults = (await searchQuery.collect()).filter((tool) =>
+      matchesFilters(tool, filters)
+    );
     const totalCount = allResults.length;
 
-    // Sort by name for consistent ordering
-    const sortedResults = allResults.sort((a, b) => a.name.localeCompare(b.name));
+    // Sort by the localized name for consistent ordering
+    const sortedResults = allResults
+      .map((tool) => localizeTool(tool, args.language))
+      .sort((a, b) => a.name.localeCompare(b.name));
 
     // Apply offset and limit
     const tools = sortedResults.slice(args.offset, args.offset + args.limit);
@@ -268,7 +353,9 @@ export const searchToolsPaginated = query({
     searchTerm: v.string(),
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
     paginationOpts: v.object({
       numItems: v.number(),
       cursor: v.union(v.string(), v.null()),
@@ -278,14 +365,8 @@ export const searchToolsPaginated = query({
     const searchQuery = ctx.db
       .query("aiTools")
       .withSearchIndex("search_tools", (q) => {
-        let query = q.search("name", args.searchTerm).eq("isApproved", true);
+        let query = q.search("searchText", args.searchTerm).eq("isApproved", true);
 
-        if (args.language) {
-          query = query.eq("language", args.language);
-        }
-        if (args.category) {
-          query = query.eq("category", args.category);
-        }
         if (args.pricing) {
           query = query.eq("pricing", args.pricing);
         }
@@ -293,13 +374,29 @@ export const searchToolsPaginated = query({
         return query;
       });
 
-    // Use cursor-based pagination for search results
-    const result = await searchQuery.paginate(args.paginationOpts);
+    // Categories and tags are not in the search index, so keep reading results
+    // until the page is full; the cursor counts the search results already read
+    const filters = await resolveFilters(ctx, args);
+    const skip = args.paginationOpts.cursor ? Number(args.paginationOpts.cursor) : 0;
+    const page: Doc<"aiTools">[] = [];
+    let read = 0;
+    let isDone = true;
+    for await (const tool of searchQuery) {
+      read++;
+      if (read <= skip || !matchesFilters(tool, filters)) {
+        continue;
+      }
+      page.push(tool);
+      if (page.length >= args.paginationOpts.numItems) {
+        isDone = false;
+        break;
+      }
+    }
 
     return {
-      page: result.page,
-      nextCursor: result.continueCursor,
-      isDone: result.isDone,
+      page: page.map((tool) => localizeTool(tool, args.language)),
+      nextCursor: String(read),
+      isDone,
     };
   },
 });
@@ -332,26 +429,17 @@ export const checkDuplicate = query({
     const normalizedName = trimmedName ? normalizeName(trimmedName) : undefined;
     const normalizedUrl = trimmedUrl ? normalizeUrl(trimmedUrl) : undefined;
 
-    // Check URL duplicate - This works well with direct index lookup
+    // Check URL duplicate - exact match first, then the canonical form
     if (trimmedUrl && normalizedUrl) {
-      // First check exact match
-      let existingByUrl = await ctx.db
-        .query("aiTools")
-        .withIndex("by_url", (q) => q.eq("url", trimmedUrl))
-        .first();
-
-      // If no exact match, check normalized URL against all tools
-      if (!existingByUrl) {
-        const allTools = await ctx.db
+      const existingByUrl =
+        (await ctx.db
           .query("aiTools")
-          .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
-          .collect();
-
-        existingByUrl = allTools.find((tool) => {
-          const toolNormalizedUrl = normalizeUrl(tool.url);
-          return toolNormalizedUrl === normalizedUrl;
-        }) ?? null;
-      }
+          .withIndex("by_url", (q) => q.eq("url", trimmedUrl))
+          .first()) ??
+        (await ctx.db
+          .query("aiTools")
+          .withIndex("by_normalizedUrl", (q) => q.eq("normalizedUrl", normalizedUrl))
+          .first());
 
       if (existingByUrl && existingByUrl._id !== args.excludeToolId) {
         response.isDuplicate = true;
@@ -366,35 +454,13 @@ export const checkDuplicate = query({
       }
     }
 
-    // Check name duplicate - Improved with better search strategy
+    // Check name duplicate - the normalized name also covers case-insensitive matches
     if (trimmedName && normalizedName && trimmedName.length >= 2) {
-      // Strategy 1: Check exact normalized name match (fastest, most reliable)
-      let existingByName = await ctx.db
+      const existingByName = await ctx.db
         .query("aiTools")
         .withIndex("by_normalizedName", (q) => q.eq("normalizedName", normalizedName))
         .first();
 
-      // Only if no exact normalized match, check exact case-insensitive match
-      if (!existingByName) {
-        const allTools = await ctx.db
-          .query("aiTools")
-          .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
-          .collect();
-
-        // Check for exact case-insensitive match
-        existingByName = allTools.find((tool) =>
-          tool.name.toLowerCase() === trimmedName.toLowerCase()
-        ) ?? null;
-
-        // If still no match and name is long enough, check for normalized matches
-        if (!existingByName && trimmedName.length >= 3) {
-          existingByName = allTools.find((tool) => {
-            const toolNormalized = tool.normalizedName ?? normalizeName(tool.name);
-            return toolNormalized === normalizedName;
-          }) ?? null;
-        }
-      }
-
       if (existingByName && existingByName._id !== args.excludeToolId) {
         response.isDuplicate = true;
         response.nameDuplicate = true;
@@ -418,53 +484,26 @@ export const checkDuplicate = query({
 
 export const addTool = mutation({
   args: {
-    name: v.string(),
-    description: v.string(),
-    detail: v.optional(v.string()),
-    url: v.string(),
-    category: v.string(),
-    tags: v.array(v.string()),
-    pricing: v.union(v.literal("free"), v.literal("freemium"), v.literal("paid")),
-    language: v.union(v.literal("en"), v.literal("vi")),
-    logoUrl: v.optional(v.string()),
+    // Logos are stored files, never hotlinked URLs
+    ...toolSubmissionValidator.omit("logoUrl").fields,
+    logoStorageId: v.optional(v.id("_storage")), // From generateLogoUploadUrl or copyLogoFromUrl
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    const trimmedName = args.name.trim();
-    const normalizedName = normalizeName(trimmedName);
-
-    // Validate required fields
-    if (!trimmedName) {
-      throw new Error("Tool name is required");
-    }
-    if (!args.description.trim()) {
-      throw new Error("Tool description is required");
-    }
-    if (!args.url.trim()) {
-      throw new Error("Tool URL is required");
-    }
-    if (!args.category.trim()) {
-      throw new Error("Tool category is required");
-    }
-
-    // Validate URL format
-    try {
-      const url = new URL(args.url);
-      if (!url.protocol.match(/^https?:$/)) {
-        throw new Error("URL must use http:// or https:// protocol");
-      }
-    } catch (error) {
-      if (error instanceof Error && error.message.includes("protocol")) {
-        throw error;
-      }
-      throw new Error("Please provide a valid URL starting with http:// or https://");
-    }
+    const user = await requirePermission(ctx, "tools:submit");
+    const { logoStorageId, ...fields } = args;
+    const submission = prepareToolSubmission(fields);
+    const { normalizedName, normalizedUrl } = submission;
 
     // Check for duplicates with detailed error messages
-    const duplicateCheck = await ctx.db
-      .query("aiTools")
-      .withIndex("by_url", (q) => q.eq("url", args.url.trim()))
-      .first();
+    const duplicateCheck =
+      (await ctx.db
+        .query("aiTools")
+        .withIndex("by_url", (q) => q.eq("url", submission.url))
+        .first()) ??
+      (await ctx.db
+        .query("aiTools")
+        .withIndex("by_normalizedUrl", (q) => q.eq("normalizedUrl", normalizedUrl))
+        .first());
 
     if (duplicateCheck) {
       throw new Error(`This URL is already registered in our database by the tool "${duplicateCheck.name}". Each tool must have a unique URL.`);
@@ -479,48 +518,28 @@ export const addTool = mutation({
       throw new Error(`A tool named "${normalizedNameCheck.name}" already exists`);
     }
 
-    const nameCheck = await ctx.db
-      .query("aiTools")
-      .filter((q) => q.eq(q.field("name"), trimmedName))
-      .first();
-
-    if (nameCheck) {
-      throw new Error(`A tool named "${nameCheck.name}" already exists`);
-    }
-
-    // Clean and validate tags
-    const cleanTags = args.tags
-      .filter(tag => tag.trim().length > 0)
-      .map(tag => tag.trim().toLowerCase())
-      .slice(0, 10); // Limit to 10 tags
+    const logo = logoStorageId
+      ? { logoUrl: await acceptLogoUpload(ctx, logoStorageId), logoStorageId }
+      : {};
 
     // Insert the new tool
-    const toolId = await ctx.db.insert("aiTools", {
-      name: trimmedName,
-      description: args.description.trim(),
-      detail: args.detail?.trim() || undefined,
-      url: args.url.trim(),
-      category: args.category.trim(),
-      tags: cleanTags,
-      pricing: args.pricing,
-      language: args.language,
-      logoUrl: args.logoUrl?.trim() || undefined,
-      submittedBy: userId || undefined,
-      isApproved: true, // Auto-approve for now
-      normalizedName,
-    });
-
-    // Schedule embedding generation asynchronously
-    // This runs in the background without blocking the tool creation
-    await ctx.scheduler.runAfter(0, api.actions.generateToolEmbedding, {
-      toolId,
-    });
+    const toolId = await insertToolWithRevision(ctx, {
+      ...submission,
+      ...logo,
+      tags: await canonicalizeTags(ctx, submission.tags),
+      ...(await resolveToolCategories(ctx, submission.category, submission.categories)),
+      submittedBy: user._id,
+      // New submissions wait in the moderation queue; the embedding is
+      // generated once a moderator approves the tool
+      isApproved: false,
+      moderationStatus: "pending",
+    }, user._id, "create");
 
     // Return success with the created tool ID
     return {
       success: true,
       toolId,
-      message: "Tool successfully added to the database"
+      message: "Tool submitted and is awaiting moderator review"
     };
   },
 });
@@ -533,24 +552,24 @@ export const updateTool = mutation({
     detail: v.optional(v.string()),
     url: v.string(),
     category: v.string(),
+    categories: v.optional(v.array(v.string())), // Omit to keep the current secondary categories
     tags: v.array(v.string()),
     pricing: v.union(v.literal("free"), v.literal("freemium"), v.literal("paid")),
-    logoUrl: v.optional(v.string()),
+    plans: v.optional(v.array(pricingPlanValidator)), // Omit to keep the current plans; [] clears them
+    translations: v.optional(v.array(toolTranslationValidator)), // Omit to keep the current translations
+    // The logo is changed through setToolLogo
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Authentication required");
-    }
+    const user = await getUser(ctx);
 
     // Get the existing tool
     const existingTool = await ctx.db.get(args.toolId);
-    if (!existingTool) {
+    if (!existingTool || existingTool.deletedAt !== undefined) {
       throw new Error("Tool not found");
     }
 
-    // Check if user has permission to update (tool owner or admin)
-    if (existingTool.submittedBy !== userId) {
+    // Check if user has permission to update (tool owner or moderator)
+    if (!isOwnerOrHasPermission(user, existingTool.submittedBy, "tools:editAny")) {
       throw new Error("You don't have permission to update this tool");
     }
 
@@ -569,74 +588,70 @@ export const updateTool = mutation({
     }
 
     // Check for duplicates (excluding current tool)
-    if (args.url !== existingTool.url) {
-      const urlDuplicate = await ctx.db
-        .query("aiTools")
-        .withIndex("by_url", (q) => q.eq("url", args.url))
-        .first();
-
-      if (urlDuplicate && urlDuplicate._id !== args.toolId) {
-        throw new Error(`This URL is already used by "${urlDuplicate.name}"`);
-      }
-    }
-
-    if (trimmedName !== existingTool.name) {
-      const normalizedDuplicate = await ctx.db
-        .query("aiTools")
-        .withIndex("by_normalizedName", (q) => q.eq("normalizedName", normalizedName))
-        .first();
-
-      if (normalizedDuplicate && normalizedDuplicate._id !== args.toolId) {
-        throw new Error(`A tool named "${normalizedDuplicate.name}" already exists`);
-      }
-
-      const nameDuplicate = await ctx.db
-        .query("aiTools")
-        .filter((q) => q.eq(q.field("name"), trimmedName))
-        .first();
+    await assertNoDuplicateTool(ctx, {
+      url: args.url !== existingTool.url ? args.url : undefined,
+      name: trimmedName !== existingTool.name ? trimmedName : undefined,
+      excludeToolId: args.toolId,
+    });
 
-      if (nameDuplicate && nameDuplicate._id !== args.toolId) {
-        throw new Error(`A tool named "${nameDuplicate.name}" already exists`);
-      }
-    }
+    // Clean tags and map synonyms onto canonical tags
+    const tags = await canonicalizeTags(ctx, cleanTags(args.tags));
+    const { category, categories } = await resolveToolCategories(
+      ctx,
+      args.category,
+      args.categories ??
+        getToolCategories(existingTool).filter((slug) => slug !== existingTool.category)
+    );
 
-    // Clean tags
-    const cleanTags = args.tags
-      .filter(tag => tag.trim().length > 0)
-      .map(tag => tag.trim().toLowerCase())
-      .slice(0, 10);
+    // Pricing follows the plans whenever the tool has any
+    const plans = args.plans !== undefined ? cleanPricingPlans(args.plans) : existingTool.plans;
+    const pricing = derivePricing(plans) ?? args.pricing;
 
     // Detect if relevant fields changed (fields that affect embeddings)
     const nameChanged = trimmedName !== existingTool.name;
     const descriptionChanged = args.description.trim() !== existingTool.description;
-    const categoryChanged = args.category.trim() !== existingTool.category;
+    const categoryChanged =
+      category !== existingTool.category ||
+      !tagsEqual(categories, getToolCategories(existingTool));
 
     // Compare tags arrays (order-independent comparison)
-    const existingTagsSet = new Set(existingTool.tags);
-    const newTagsSet = new Set(cleanTags);
-    const tagsChanged =
-      existingTagsSet.size !== newTagsSet.size ||
-      ![...existingTagsSet].every(tag => newTagsSet.has(tag));
+    const tagsChanged = !tagsEqual(existingTool.tags, tags);
+
+    // Each translation has its own embedding
+    const translations =
+      args.translations !== undefined
+        ? cleanTranslations(args.translations, existingTool.language, existingTool.translations)
+        : existingTool.translations;
+    const translationsChanged =
+      JSON.stringify(translations ?? []) !== JSON.stringify(existingTool.translations ?? []);
 
     const shouldRegenerateEmbedding =
-      nameChanged || descriptionChanged || categoryChanged || tagsChanged;
+      nameChanged || descriptionChanged || categoryChanged || tagsChanged || translationsChanged;
 
     // Update the tool
-    await ctx.db.patch(args.toolId, {
+    await patchToolWithRevision(ctx, existingTool, {
       name: trimmedName,
       description: args.description.trim(),
       detail: args.detail?.trim() || undefined,
       url: args.url.trim(),
-      category: args.category.trim(),
-      tags: cleanTags,
-      pricing: args.pricing,
-      logoUrl: args.logoUrl?.trim() || undefined,
+      category,
+      categories,
+      tags,
+      pricing,
+      plans,
+      translations,
       normalizedName,
-    });
+      normalizedUrl: normalizeUrl(args.url),
+      // Editing a rejected tool resubmits it to the moderation queue
+      ...(existingTool.moderationStatus === "rejected"
+        ? { moderationStatus: "pending" as const, rejectionReason: undefined }
+        : {}),
+    }, user._id, "update");
 
     // Schedule embedding regeneration if relevant fields changed
-    if (shouldRegenerateEmbedding) {
-      await ctx.scheduler.runAfter(0, api.actions.generateToolEmbedding, {
+    // (unapproved tools get their embedding when they are approved)
+    if (shouldRegenerateEmbedding && existingTool.isApproved) {
+      await ctx.scheduler.runAfter(0, internal.actions.generateToolEmbedding, {
         toolId: args.toolId,
       });
     }
@@ -648,15 +663,54 @@ export const updateTool = mutation({
   },
 });
 
-export const deleteTool = mutation({
+/**
+ * Set the lifecycle status of a tool (tool owner or moderator)
+ * Records the date of the change; a successor is only kept for discontinued
+ * and acquired tools
+ *
+ * @param successorToolId - Replacement or acquirer; omit to keep the current one
+ */
+export const setToolLifecycle = mutation({
   args: {
     toolId: v.id("aiTools"),
+    status: lifecycleStatusValidator,
+    successorToolId: v.optional(v.id("aiTools")),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Authentication required");
+    const user = await getUser(ctx);
+
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || tool.deletedAt !== undefined) {
+      throw new Error("Tool not found");
     }
+    if (!isOwnerOrHasPermission(user, tool.submittedBy, "tools:editAny")) {
+      throw new Error("You don't have permission to update this tool");
+    }
+    if (args.successorToolId) {
+      await assertValidSuccessor(ctx, tool._id, args.status, args.successorToolId);
+    }
+
+    await patchToolWithRevision(
+      ctx,
+      tool,
+      { lifecycleStatus: args.status, successorToolId: args.successorToolId },
+      user._id,
+      "update"
+    );
+
+    return {
+      success: true,
+      message: `Tool marked as ${args.status}`,
+    };
+  },
+});
+
+export const deleteTool = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getUser(ctx);
 
     // Get the existing tool
     const existingTool = await ctx.db.get(args.toolId);
@@ -664,13 +718,27 @@ export const deleteTool = mutation({
       throw new Error("Tool not found");
     }
 
-    // Check if user has permission to delete
-    if (existingTool.submittedBy !== userId) {
+    // Check if user has permission to delete (tool owner or admin)
+    if (!isOwnerOrHasPermission(user, existingTool.submittedBy, "tools:deleteAny")) {
       throw new Error("You don't have permission to delete this tool");
     }
+    if (existingTool.deletedAt !== undefined) {
+      throw new Error("Tool is already deleted");
+    }
 
-    // Delete the tool
-    await ctx.db.delete(args.toolId);
+    // Soft delete: unapproving hides the tool from every listing, search and
+    // vector index query; dependent rows are purged after the retention period
+    await patchToolWithRevision(
+      ctx,
+      existingTool,
+      {
+        isApproved: false,
+        deletedAt: Date.now(),
+        deletedBy: user._id,
+      },
+      user._id,
+      "delete"
+    );
 
     return {
       success: true,
@@ -679,16 +747,134 @@ export const deleteTool = mutation({
   },
 });
 
+export const restoreTool = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getUser(ctx);
+
+    const existingTool = await ctx.db.get(args.toolId);
+    if (!existingTool || existingTool.deletedAt === undefined) {
+      throw new Error("Deleted tool not found");
+    }
+
+    if (!isOwnerOrHasPermission(user, existingTool.submittedBy, "tools:deleteAny")) {
+      throw new Error("You don't have permission to restore this tool");
+    }
+
+    if (await getRedirectTarget(ctx, args.toolId)) {
+      throw new Error("This tool was merged into another tool and cannot be restored");
+    }
+
+    // Only tools that had passed moderation become visible again
+    const wasApproved =
+      existingTool.moderationStatus === undefined ||
+      existingTool.moderationStatus === "approved";
+
+    await patchToolWithRevision(
+      ctx,
+      existingTool,
+      {
+        isApproved: wasApproved,
+        deletedAt: undefined,
+        deletedBy: undefined,
+      },
+      user._id,
+      "restore"
+    );
+
+    return {
+      success: true,
+      message: "Tool successfully restored"
+    };
+  },
+});
+
+/**
+ * List soft-deleted tools that can still be restored
+ * Admins see every tombstone; other users only their own
+ */
+export const listDeletedTools = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getUser(ctx);
+
+    const deletedTools = await ctx.db
+      .query("aiTools")
+      .withIndex("by_deletedAt", (q) => q.gt("deletedAt", 0))
+      .order("desc")
+      .collect();
+
+    // Merged duplicates are tombstoned too, but cannot be restored
+    const restorableTools = [];
+    for (const tool of deletedTools) {
+      if (
+        isOwnerOrHasPermission(user, tool.submittedBy, "tools:deleteAny") &&
+        !(await getRedirectTarget(ctx, tool._id))
+      ) {
+        restorableTools.push(tool);
+      }
+    }
+
+    return restorableTools.map((tool) => ({
+      _id: tool._id,
+      name: tool.name,
+      url: tool.url,
+      deletedAt: tool.deletedAt!,
+      purgeAt: tool.deletedAt! + DELETED_TOOL_RETENTION_MS,
+    }));
+  },
+});
+
+/**
+ * Get an approved tool by id
+ * Ids of tools merged into another tool resolve to the surviving tool
+ */
 export const getToolById = query({
   args: {
     toolId: v.id("aiTools"),
+    language: v.optional(v.union(v.literal("en"), v.literal("vi"))), // Omit for the primary content
   },
   handler: async (ctx, args) => {
-    const tool = await ctx.db.get(args.toolId);
+    let tool = await ctx.db.get(args.toolId);
+    if (!tool || !tool.isApproved) {
+      const targetId = await getRedirectTarget(ctx, args.toolId);
+      tool = targetId ? await ctx.db.get(targetId) : null;
+    }
+    if (!tool || !tool.isApproved) {
+      return null;
+    }
+    return localizeTool(tool, args.language);
+  },
+});
+
+/**
+ * Get an approved tool by its URL slug
+ * Old slugs of renamed or merged tools resolve to the current tool; compare
+ * the returned tool's slug with the requested one to redirect
+ */
+export const getToolBySlug = query({
+  args: {
+    slug: v.string(),
+    language: v.optional(v.union(v.literal("en"), v.literal("vi"))), // Omit for the primary content
+  },
+  handler: async (ctx, args) => {
+    let tool = await ctx.db
+      .query("aiTools")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+    if (!tool) {
+      const previous = await ctx.db
+        .query("toolSlugHistory")
+        .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+        .first();
+      tool = previous ? await ctx.db.get(previous.toolId) : null;
+    }
     if (!tool || !tool.isApproved) {
       return null;
     }
-    return tool;
+    return localizeTool(tool, args.language);
   },
 });
 
@@ -700,33 +886,13 @@ export const getUserTools = query({
       return [];
     }
 
-    return await ctx.db
+    const tools = await ctx.db
       .query("aiTools")
       .withIndex("by_submittedBy", (q) => q.eq("submittedBy", userId))
       .order("desc")
       .collect();
-  },
-});
 
-export const getCategories = query({
-  args: {
-    language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
-  },
-  handler: async (ctx, args) => {
-    const baseQuery = args.language
-      ? ctx.db
-        .query("aiTools")
-        .withIndex("by_language_and_isApproved", (q) =>
-          q.eq("language", args.language!).eq("isApproved", true)
-        )
-      : ctx.db
-        .query("aiTools")
-        .withIndex("by_isApproved", (q) => q.eq("isApproved", true));
-
-    const tools = await baseQuery.collect();
-
-    const categories = [...new Set(tools.map(tool => tool.category))];
-    return categories.sort();
+    return tools.filter((tool) => tool.deletedAt === undefined);
   },
 });
 
@@ -738,10 +904,12 @@ export const getToolStats = query({
       .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
       .collect();
 
-    // Count tools by category
+    // Count tools by category, including secondary categories
     const categoryCount: Record<string, number> = {};
     approvedTools.forEach(tool => {
-      categoryCount[tool.category] = (categoryCount[tool.category] || 0) + 1;
+      getToolCategories(tool).forEach(category => {
+        categoryCount[category] = (categoryCount[category] || 0) + 1;
+      });
     });
 
     // Convert to array format to avoid non-ASCII field name issues
@@ -761,7 +929,7 @@ export const getToolStats = query({
         en: approvedTools.filter(t => t.language === "en").length,
         vi: approvedTools.filter(t => t.language === "vi").length,
       },
-      categories: [...new Set(approvedTools.map(t => t.category))].length,
+      categories: categoryArray.length,
       byCategory: categoryArray,
     };
 
@@ -781,9 +949,15 @@ export const getToolsWithoutEmbeddings = query({
       .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
       .collect();
 
-    // Filter tools that don't have embeddings or have wrong version
+    // Filter tools that don't have embeddings, have wrong version or miss a translation's embedding
     return allTools.filter(
-      (tool) => !tool.embedding || tool.embeddingVersion !== GEMINI_EMBEDDING_MODEL
+      (tool) =>
+        !tool.embedding ||
+        tool.embeddingVersion !== GEMINI_EMBEDDING_MODEL ||
+        (tool.translations ?? []).some(
+          (translation) =>
+            !tool.translationEmbeddings?.some((variant) => variant.language === translation.language)
+        )
     );
   },
 });
@@ -824,9 +998,11 @@ export const getEmbeddingStats = query({
  * 
  * @param vector - The query embedding vector (matches Gemini embedding dimensions)
  * @param limit - Maximum number of results to return
- * @param language - Optional language filter
+ * @param language - Optional content language; matches that language's embedding where one exists
  * @param category - Optional category filter
+ * @param tags - Optional tags the tools must all carry
  * @param pricing - Optional pricing filter
+ * @param includeDiscontinued - Also return discontinued tools
  * @returns Array of tools with similarity scores, sorted by score descending
  */
 export const vectorSearch = query({
@@ -835,7 +1011,9 @@ export const vectorSearch = query({
     limit: v.number(),
     language: v.optional(v.union(v.literal("en"), v.literal("vi"))),
     category: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
     pricing: v.optional(v.union(v.literal("free"), v.literal("freemium"), v.literal("paid"))),
+    includeDiscontinued: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Validate vector dimensions
@@ -851,21 +1029,28 @@ export const vectorSearch = query({
       .query("aiTools")
       .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
       .collect();
+    const { tags } = await resolveFilters(ctx, args);
 
     // Filter tools that have embeddings and match optional filters
     const filteredTools = allTools.filter((tool) => {
-      // Must have valid embedding
-      if (!tool.embedding || tool.embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
+      // Must have valid embedding for the requested language (or the primary fallback)
+      const embedding = getVariantEmbedding(tool, args.language);
+      if (!embedding || embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
         return false;
       }
 
-      // Apply language filter
-      if (args.language && tool.language !== args.language) {
+      // Hide discontinued tools unless asked for
+      if (!args.includeDiscontinued && isDiscontinued(tool)) {
         return false;
       }
 
       // Apply category filter
-      if (args.category && tool.category !== args.category) {
+      if (args.category && !toolHasCategory(tool, args.category)) {
+        return false;
+      }
+
+      // Apply tag filter
+      if (tags && !tags.every((tag) => tool.tags.includes(tag))) {
         return false;
       }
 
@@ -879,9 +1064,9 @@ export const vectorSearch = query({
 
     // Calculate similarity scores for each tool
     const resultsWithScores = filteredTools.map((tool) => {
-      const score = cosineSimilarity(args.vector, tool.embedding!);
+      const score = cosineSimilarity(args.vector, getVariantEmbedding(tool, args.language)!);
       return {
-        ...tool,
+        ...localizeTool(tool, args.language),
         _score: score,
       };
     });
@@ -942,6 +1127,11 @@ export const getSimilarTools = query({
         return false;
       }
 
+      // Discontinued tools are no useful alternative
+      if (isDiscontinued(tool)) {
+        return false;
+      }
+
       return true;
     });
 
@@ -967,6 +1157,7 @@ export const getSimilarTools = query({
 /**
  * Internal mutation to update tool embedding
  * Called by generateToolEmbedding action after generating embedding via Gemini API
+ * Replaces the translation embeddings as a whole, so removed translations drop theirs
  * 
  * @internal - Only callable from other Convex functions
  */
@@ -975,21 +1166,300 @@ export const updateToolEmbedding = internalMutation({
     toolId: v.id("aiTools"),
     embedding: v.array(v.number()),
     embeddingVersion: v.string(),
+    translationEmbeddings: v.optional(
+      v.array(
+        v.object({
+          language: v.union(v.literal("en"), v.literal("vi")),
+          embedding: v.array(v.number()),
+        })
+      )
+    ),
   },
   handler: async (ctx, args) => {
     // Validate embedding dimensions
-    if (args.embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
-      throw new Error(
-        `Invalid embedding dimensions: expected ${GEMINI_EMBEDDING_DIMENSIONS}, got ${args.embedding.length}`
-      );
+    const embeddings = [
+      args.embedding,
+      ...(args.translationEmbeddings ?? []).map((variant) => variant.embedding),
+    ];
+    for (const embedding of embeddings) {
+      if (embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
+        throw new Error(
+          `Invalid embedding dimensions: expected ${GEMINI_EMBEDDING_DIMENSIONS}, got ${embedding.length}`
+        );
+      }
     }
 
     // Update the tool with embedding data
     await ctx.db.patch(args.toolId, {
       embedding: args.embedding,
       embeddingVersion: args.embeddingVersion,
+      translationEmbeddings: args.translationEmbeddings?.length
+        ? args.translationEmbeddings
+        : undefined,
     });
 
     console.log(`Updated embedding for tool ${args.toolId} with version ${args.embeddingVersion}`);
   },
 });
+
+/**
+ * Permanently remove soft-deleted tools whose retention period has passed
+ * Deletes dependent favourites, reviews, review votes, edit suggestions and
+ * revisions, and strips the tool from search cache and analytics records.
+ * Processes a bounded batch and reschedules itself while work remains.
+ *
+ * @internal - Run daily from crons.ts
+ */
+export const purgeDeletedTools = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - DELETED_TOOL_RETENTION_MS;
+
+    const expiredTools = await ctx.db
+      .query("aiTools")
+      .withIndex("by_deletedAt", (q) => q.gt("deletedAt", 0).lte("deletedAt", cutoff))
+      .take(DELETED_TOOL_PURGE_BATCH_SIZE);
+
+    if (expiredTools.length === 0) {
+      return { purgedCount: 0 };
+    }
+
+    const purgedIds = new Set<string>(expiredTools.map((tool) => tool._id));
+
+    for (const tool of expiredTools) {
+      const favourites = await ctx.db
+        .query("favourites")
+        .withIndex("by_tool", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const favourite of favourites) {
+        await ctx.db.delete(favourite._id);
+      }
+
+      const reviews = await ctx.db
+        .query("reviews")
+        .withIndex("by_tool", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const review of reviews) {
+        const votes = await ctx.db
+          .query("reviewVotes")
+          .withIndex("by_review", (q) => q.eq("reviewId", review._id))
+          .collect();
+        for (const vote of votes) {
+          await ctx.db.delete(vote._id);
+        }
+        await ctx.db.delete(review._id);
+      }
+
+      const edits = await ctx.db
+        .query("toolEdits")
+        .withIndex("by_tool_and_status", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const edit of edits) {
+        await ctx.db.delete(edit._id);
+      }
+
+      const revisions = await ctx.db
+        .query("toolRevisions")
+        .withIndex("by_tool_and_created", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const revision of revisions) {
+        await ctx.db.delete(revision._id);
+      }
+
+      const categoryRows = await ctx.db
+        .query("toolCategories")
+        .withIndex("by_tool", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const row of categoryRows) {
+        await ctx.db.delete(row._id);
+      }
+      await syncToolTags(ctx, tool._id, [], { before: isCountedTool(tool), after: false });
+
+      if (tool.logoStorageId) {
+        await ctx.storage.delete(tool.logoStorageId);
+      }
+
+      const mediaItems = await ctx.db
+        .query("toolMedia")
+        .withIndex("by_tool_and_order", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const media of mediaItems) {
+        if (media.storageId) {
+          await ctx.storage.delete(media.storageId);
+        }
+        await ctx.db.delete(media._id);
+      }
+
+      const linkChecks = await ctx.db
+        .query("linkHealth")
+        .withIndex("by_tool_and_field", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const check of linkChecks) {
+        await ctx.db.delete(check._id);
+      }
+
+      const outgoingRelations = await ctx.db
+        .query("toolRelations")
+        .withIndex("by_from_and_type", (q) => q.eq("fromToolId", tool._id))
+        .collect();
+      const incomingRelations = await ctx.db
+        .query("toolRelations")
+        .withIndex("by_to_and_type", (q) => q.eq("toToolId", tool._id))
+        .collect();
+      for (const relation of [...outgoingRelations, ...incomingRelations]) {
+        await ctx.db.delete(relation._id);
+      }
+
+      // Free the tool's old slugs for reuse
+      const slugRows = await ctx.db
+        .query("toolSlugHistory")
+        .withIndex("by_tool", (q) => q.eq("toolId", tool._id))
+        .collect();
+      for (const row of slugRows) {
+        await ctx.db.delete(row._id);
+      }
+
+      // Keep the analytics rows but drop the dangling click reference
+      const clicks = await ctx.db
+        .query("searchAnalytics")
+        .withIndex("by_clickedToolId", (q) => q.eq("clickedToolId", tool._id))
+        .collect();
+      for (const click of clicks) {
+        await ctx.db.patch(click._id, {
+          clickedToolId: undefined,
+          clickedPosition: undefined,
+        });
+      }
+
+      await ctx.db.delete(tool._id);
+    }
+
+    // Cache entries expire hourly, so the table stays small enough to scan
+    const cacheEntries = await ctx.db.query("searchCache").collect();
+    for (const entry of cacheEntries) {
+      const results = entry.results.filter((id) => !purgedIds.has(id));
+      if (results.length !== entry.results.length) {
+        await ctx.db.patch(entry._id, { results });
+      }
+    }
+
+    if (expiredTools.length === DELETED_TOOL_PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.aiTools.purgeDeletedTools, {});
+    }
+
+    console.log(`Purged ${expiredTools.length} deleted tools`);
+
+    return { purgedCount: expiredTools.length };
+  },
+});
+
+/**
+ * Backfill normalizedUrl and normalizedName on existing tools
+ * Also rewrites stale values when normalizeUrl changes. Processes one page
+ * and reschedules itself with the next cursor until the table is done.
+ *
+ * @internal - Run once after deploying: npx convex run aiTools:backfillNormalizedFields
+ */
+export const backfillNormalizedFields = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("aiTools")
+      .paginate({ numItems: NORMALIZED_FIELDS_BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let updatedCount = 0;
+    for (const tool of result.page) {
+      const normalizedUrl = normalizeUrl(tool.url);
+      const normalizedName = normalizeName(tool.name);
+      if (tool.normalizedUrl !== normalizedUrl || tool.normalizedName !== normalizedName) {
+        await ctx.db.patch(tool._id, { normalizedUrl, normalizedName });
+        updatedCount++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.aiTools.backfillNormalizedFields, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    console.log(`Backfilled normalized fields on ${updatedCount} of ${result.page.length} tools`);
+
+    return { updatedCount, isDone: result.isDone };
+  },
+});
+
+/**
+ * Fill searchText on existing tools so translated names become searchable
+ * Processes one page and reschedules itself with the next cursor until the
+ * table is done.
+ *
+ * @internal - Run once after deploying: npx convex run aiTools:backfillSearchText
+ */
+export const backfillSearchText = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("aiTools")
+      .paginate({ numItems: NORMALIZED_FIELDS_BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let updatedCount = 0;
+    for (const tool of result.page) {
+      const searchText = toolSearchText(tool);
+      if (tool.searchText !== searchText) {
+        await ctx.db.patch(tool._id, { searchText });
+        updatedCount++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.aiTools.backfillSearchText, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    console.log(`Backfilled search text on ${updatedCount} of ${result.page.length} tools`);
+
+    return { updatedCount, isDone: result.isDone };
+  },
+});
+
+/**
+ * Give every tool without a slug one derived from its name
+ * Processes one page and reschedules itself with the next cursor until the
+ * table is done.
+ *
+ * @internal - Run once after deploying: npx convex run aiTools:backfillToolSlugs
+ */
+export const backfillToolSlugs = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("aiTools")
+      .paginate({ numItems: NORMALIZED_FIELDS_BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let updatedCount = 0;
+    for (const tool of result.page) {
+      if (!tool.slug) {
+        await ctx.db.patch(tool._id, { slug: await generateUniqueSlug(ctx, tool.name, tool._id) });
+        updatedCount++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.aiTools.backfillToolSlugs, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    console.log(`Backfilled slugs on ${updatedCount} of ${result.page.length} tools`);
+
+    return { updatedCount, isDone: result.isDone };
+  },
+});
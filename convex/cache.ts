@@ -1,10 +1,12 @@
 /**
  * Search cache queries and mutations
  * Implements caching layer for semantic search to reduce API calls and improve performance
+ * Cache reads and writes are internal to the search actions; only admins can purge the cache
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation } from "./_generated/server";
+import { requirePermission } from "./users";
 
 /**
  * Get cached search results by query hash
@@ -13,7 +15,7 @@ import { mutation, query } from "./_generated/server";
  * @param queryHash - Hash of the search query
  * @returns Cached search entry or null if not found/expired
  */
-export const getCachedSearch = query({
+export const getCachedSearch = internalQuery({
   args: { 
     queryHash: v.string() 
   },
@@ -53,7 +55,7 @@ export const getCachedSearch = query({
  * @param embedding - Query embedding vector (matches Gemini embedding dimensions)
  * @param expiresAt - Timestamp when cache entry expires
  */
-export const storeSearchCache = mutation({
+export const storeSearchCache = internalMutation({
   args: {
     query: v.string(),
     queryHash: v.string(),
@@ -104,7 +106,7 @@ export const storeSearchCache = mutation({
  * 
  * @param cacheId - ID of the cache entry to increment
  */
-export const incrementCacheHit = mutation({
+export const incrementCacheHit = internalMutation({
   args: { 
     cacheId: v.id("searchCache") 
   },
@@ -135,6 +137,8 @@ export const incrementCacheHit = mutation({
 export const cleanupExpiredCache = mutation({
   args: {},
   handler: async (ctx) => {
+    await requirePermission(ctx, "system:admin");
+
     const now = Date.now();
     
     // Find all expired cache entries
@@ -0,0 +1,339 @@
+/**
+ * Managed category taxonomy
+ * Categories carry a stable slug, bilingual labels, an icon, an optional
+ * parent and a sort order. Tools reference categories by slug.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { requirePermission } from "./users";
+import {
+  DEFAULT_CATEGORIES,
+  FALLBACK_CATEGORY_SLUG,
+  findCategory,
+  getToolCategories,
+  orderCategories,
+  slugify,
+  syncToolCategories,
+} from "./lib/categories";
+import { MAX_TOOL_CATEGORIES } from "./lib/constants";
+
+const labelsValidator = v.object({ en: v.string(), vi: v.string() });
+
+const descriptionValidator = v.object({
+  en: v.optional(v.string()),
+  vi: v.optional(v.string()),
+});
+
+/**
+ * Map a slug, label or legacy alias to a category slug
+ *
+ * @throws Error if no category matches
+ */
+export const resolveCategorySlug = async (ctx: QueryCtx, value: string) => {
+  const trimmed = value.trim();
+  const bySlug = await ctx.db
+    .query("categories")
+    .withIndex("by_slug", (q) => q.eq("slug", trimmed))
+    .first();
+  if (bySlug) {
+    return bySlug.slug;
+  }
+
+  // The taxonomy is small, so scanning it for labels and aliases is cheap
+  const categories = await ctx.db.query("categories").collect();
+  const match = findCategory(trimmed, categories);
+  if (!match) {
+    throw new Error(`Unknown category "${trimmed}"`);
+  }
+  return match.slug;
+};
+
+/**
+ * Resolve the primary category and the full category list of a tool
+ * The primary comes first in the list and duplicates are dropped
+ *
+ * @throws Error if a category is unknown or there are too many
+ */
+export const resolveToolCategories = async (
+  ctx: QueryCtx,
+  category: string,
+  categories: string[] = []
+) => {
+  const primary = await resolveCategorySlug(ctx, category);
+  const slugs = await Promise.all(categories.map((value) => resolveCategorySlug(ctx, value)));
+  const ordered = orderCategories(primary, slugs);
+  if (ordered.length > MAX_TOOL_CATEGORIES) {
+    throw new Error(`A tool can belong to at most ${MAX_TOOL_CATEGORIES} categories`);
+  }
+  return { category: primary, categories: ordered };
+};
+
+/**
+ * Reject a parent that does not exist or would create a cycle
+ */
+const assertValidParent = async (
+  ctx: QueryCtx,
+  parentId: Id<"categories">,
+  categoryId?: Id<"categories">
+) => {
+  let current = await ctx.db.get(parentId);
+  if (!current) {
+    throw new Error("Parent category not found");
+  }
+  while (current) {
+    if (current._id === categoryId) {
+      throw new Error("A category cannot be nested under itself");
+    }
+    current = current.parentId ? await ctx.db.get(current.parentId) : null;
+  }
+};
+
+/**
+ * Insert the default categories that are missing, matched by slug
+ */
+const seedDefaultCategories = async (ctx: MutationCtx) => {
+  let insertedCount = 0;
+  for (const [index, category] of DEFAULT_CATEGORIES.entries()) {
+    const existing = await ctx.db
+      .query("categories")
+      .withIndex("by_slug", (q) => q.eq("slug", category.slug))
+      .first();
+    if (!existing) {
+      await ctx.db.insert("categories", { ...category, sortOrder: (index + 1) * 10 });
+      insertedCount++;
+    }
+  }
+  return insertedCount;
+};
+
+/**
+ * List every category in display order
+ */
+export const listCategories = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("categories").withIndex("by_sortOrder").collect();
+  },
+});
+
+/**
+ * Create a category (admin only)
+ * The slug defaults to the English label and cannot be changed later,
+ * because tools store it
+ */
+export const createCategory = mutation({
+  args: {
+    slug: v.optional(v.string()),
+    labels: labelsValidator,
+    description: v.optional(descriptionValidator),
+    icon: v.optional(v.string()),
+    parentId: v.optional(v.id("categories")),
+    sortOrder: v.optional(v.number()),
+    aliases: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "system:admin");
+
+    const labels = { en: args.labels.en.trim(), vi: args.labels.vi.trim() };
+    if (!labels.en || !labels.vi) {
+      throw new Error("Both English and Vietnamese labels are required");
+    }
+
+    const slug = slugify(args.slug ?? labels.en);
+    if (!slug) {
+      throw new Error("Category slug is required");
+    }
+    const existing = await ctx.db
+      .query("categories")
+      .withIndex("by_slug", (q) => q.eq("slug", slug))
+      .first();
+    if (existing) {
+      throw new Error(`A category with the slug "${slug}" already exists`);
+    }
+
+    if (args.parentId) {
+      await assertValidParent(ctx, args.parentId);
+    }
+
+    // New categories go to the end unless a position is given
+    const last = await ctx.db.query("categories").withIndex("by_sortOrder").order("desc").first();
+
+    const categoryId = await ctx.db.insert("categories", {
+      slug,
+      labels,
+      description: args.description,
+      icon: args.icon?.trim() || undefined,
+      parentId: args.parentId,
+      sortOrder: args.sortOrder ?? (last?.sortOrder ?? 0) + 10,
+      aliases: args.aliases?.map((alias) => alias.trim()).filter(Boolean) ?? [],
+    });
+
+    return { success: true, categoryId, slug };
+  },
+});
+
+/**
+ * Update a category's labels, description, icon, parent, order or aliases (admin only)
+ */
+export const updateCategory = mutation({
+  args: {
+    categoryId: v.id("categories"),
+    labels: v.optional(labelsValidator),
+    description: v.optional(descriptionValidator),
+    icon: v.optional(v.string()),
+    parentId: v.optional(v.union(v.id("categories"), v.null())),
+    sortOrder: v.optional(v.number()),
+    aliases: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "system:admin");
+
+    const category = await ctx.db.get(args.categoryId);
+    if (!category) {
+      throw new Error("Category not found");
+    }
+
+    if (args.labels && (!args.labels.en.trim() || !args.labels.vi.trim())) {
+      throw new Error("Both English and Vietnamese labels are required");
+    }
+    if (args.parentId) {
+      await assertValidParent(ctx, args.parentId, category._id);
+    }
+
+    await ctx.db.patch(category._id, {
+      ...(args.labels
+        ? { labels: { en: args.labels.en.trim(), vi: args.labels.vi.trim() } }
+        : {}),
+      ...(args.description !== undefined ? { description: args.description } : {}),
+      ...(args.icon !== undefined ? { icon: args.icon.trim() || undefined } : {}),
+      // null moves the category back to the top level
+      ...(args.parentId !== undefined ? { parentId: args.parentId ?? undefined } : {}),
+      ...(args.sortOrder !== undefined ? { sortOrder: args.sortOrder } : {}),
+      ...(args.aliases !== undefined
+        ? { aliases: args.aliases.map((alias) => alias.trim()).filter(Boolean) }
+        : {}),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a category that no tool and no subcategory uses (admin only)
+ */
+export const deleteCategory = mutation({
+  args: {
+    categoryId: v.id("categories"),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "system:admin");
+
+    const category = await ctx.db.get(args.categoryId);
+    if (!category) {
+      throw new Error("Category not found");
+    }
+
+    const usage = await ctx.db
+      .query("toolCategories")
+      .withIndex("by_category", (q) => q.eq("category", category.slug))
+      .first();
+    if (usage) {
+      const tool = await ctx.db.get(usage.toolId);
+      throw new Error(`Category is still used by "${tool?.name ?? usage.toolId}"`);
+    }
+
+    const child = await ctx.db
+      .query("categories")
+      .withIndex("by_parentId", (q) => q.eq("parentId", category._id))
+      .first();
+    if (child) {
+      throw new Error(`Category still has the subcategory "${child.labels.en}"`);
+    }
+
+    await ctx.db.delete(category._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Map free-text tool categories onto the taxonomy
+ * Seeds the default categories on the first run, then processes one page of
+ * tools per run and reschedules itself. Values that match no category's slug,
+ * label or alias go to "other"; the original text is kept in legacyCategories
+ * and logged with the tool so aliases can be added and the tool recategorised.
+ * Also fills each tool's category list and its toolCategories rows.
+ *
+ * @internal - Run once after deploying: npx convex run categories:migrateToolCategories
+ */
+export const migrateToolCategories = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    if (args.cursor === undefined) {
+      const seeded = await seedDefaultCategories(ctx);
+      console.log(`Seeded ${seeded} default categories`);
+    }
+
+    const categories = await ctx.db.query("categories").collect();
+    const slugs = new Set(categories.map((category) => category.slug));
+
+    const result = await ctx.db
+      .query("aiTools")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+
+    let migratedCount = 0;
+    const unmatched = new Set<string>();
+    const unmatchedTools: string[] = [];
+    for (const tool of result.page) {
+      const toolUnmatched = new Set<string>();
+      const toSlug = (value: string) => {
+        if (slugs.has(value)) {
+          return value;
+        }
+        const match = findCategory(value, categories);
+        if (!match) {
+          unmatched.add(value);
+          toolUnmatched.add(value);
+        }
+        return match?.slug ?? FALLBACK_CATEGORY_SLUG;
+      };
+
+      const category = toSlug(tool.category);
+      const toolCategories = orderCategories(category, getToolCategories(tool).map(toSlug));
+      const isMigrated =
+        category === tool.category &&
+        toolCategories.join() === tool.categories?.join();
+      if (!isMigrated) {
+        const legacyCategories =
+          toolUnmatched.size > 0
+            ? [...new Set([...(tool.legacyCategories ?? []), ...toolUnmatched])]
+            : tool.legacyCategories;
+        await ctx.db.patch(tool._id, { category, categories: toolCategories, legacyCategories });
+        migratedCount++;
+      }
+      if (toolUnmatched.size > 0) {
+        unmatchedTools.push(`${tool.name} (${[...toolUnmatched].join(", ")})`);
+      }
+      await syncToolCategories(ctx, tool._id, toolCategories);
+    }
+
+    if (unmatched.size > 0) {
+      console.warn(
+        `Moved unrecognised categories to "${FALLBACK_CATEGORY_SLUG}" and kept them in legacyCategories: ${unmatchedTools.join("; ")}`
+      );
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.categories.migrateToolCategories, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { migratedCount, unmatched: [...unmatched], isDone: result.isDone };
+  },
+});
@@ -0,0 +1,22 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Permanently remove soft-deleted tools once their retention period has passed
+crons.daily(
+  "purge deleted tools",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.aiTools.purgeDeletedTools,
+  {}
+);
+
+// Check tool URLs and logos, least recently checked first
+crons.daily(
+  "check tool links",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.linkHealth.checkToolLinks,
+  {}
+);
+
+export default crons;
@@ -0,0 +1,162 @@
+/**
+ * Catalog export
+ * Streams the approved catalog as JSON, JSONL or CSV for offline analysis and backups
+ *
+ * GET /export/tools?format=csv&language=en&category=writing-content&pricing=free
+ *   &aggregates=true&embeddings=false
+ */
+
+import { v } from "convex/values";
+import { httpAction, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { languageValidator, pricingValidator } from "./lib/toolHelpers";
+import { toolHasCategory } from "./lib/categories";
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportFormat,
+  ExportRecord,
+  formatExportEnd,
+  formatExportRecords,
+  formatExportStart,
+  toExportRecord,
+} from "./lib/toolExport";
+import { TOOL_EXPORT_PAGE_SIZE } from "./lib/constants";
+
+/**
+ * One page of approved tools in export shape
+ */
+export const getExportPage = internalQuery({
+  args: {
+    language: v.optional(languageValidator),
+    category: v.optional(v.string()),
+    pricing: v.optional(pricingValidator),
+    includeAggregates: v.boolean(),
+    includeEmbeddings: v.boolean(),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const language = args.language;
+    let query = language
+      ? ctx.db
+          .query("aiTools")
+          .withIndex("by_language_and_isApproved", (q) =>
+            q.eq("language", language).eq("isApproved", true)
+          )
+      : ctx.db
+          .query("aiTools")
+          .withIndex("by_isApproved", (q) => q.eq("isApproved", true));
+
+    if (args.pricing) {
+      query = query.filter((q) => q.eq(q.field("pricing"), args.pricing));
+    }
+
+    const result = await query.paginate({
+      numItems: TOOL_EXPORT_PAGE_SIZE,
+      cursor: args.cursor,
+    });
+
+    // Secondary categories live in an array, which filter expressions cannot search
+    const category = args.category;
+    const tools = category
+      ? result.page.filter((tool) => toolHasCategory(tool, category))
+      : result.page;
+
+    return {
+      records: tools.map((tool) => toExportRecord(tool, args)),
+      nextCursor: result.continueCursor,
+      isDone: result.isDone,
+    };
+  },
+});
+
+const isExportFormat = (value: string): value is ExportFormat =>
+  Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, value);
+
+const parseFlag = (value: string | null) => value === "true" || value === "1";
+
+/**
+ * Download the catalog, filtered by language, category and pricing
+ * Aggregates (ratings, favourites) and embeddings are opt-in and need a
+ * moderator's auth token. The file is streamed one page at a time, so its size
+ * is not bound by the action response limit.
+ */
+export const exportTools = httpAction(async (ctx, request) => {
+  const params = new URL(request.url).searchParams;
+
+  const format = params.get("format") ?? "json";
+  if (!isExportFormat(format)) {
+    return new Response(`Unsupported format "${format}". Use json, jsonl or csv.`, {
+      status: 400,
+    });
+  }
+
+  const language = params.get("language") ?? undefined;
+  if (language !== undefined && language !== "en" && language !== "vi") {
+    return new Response(`Unsupported language "${language}". Use en or vi.`, { status: 400 });
+  }
+
+  const pricing = params.get("pricing") ?? undefined;
+  if (
+    pricing !== undefined &&
+    pricing !== "free" &&
+    pricing !== "freemium" &&
+    pricing !== "paid"
+  ) {
+    return new Response(`Unsupported pricing "${pricing}". Use free, freemium or paid.`, {
+      status: 400,
+    });
+  }
+
+  const options = {
+    includeAggregates: parseFlag(params.get("aggregates")),
+    includeEmbeddings: parseFlag(params.get("embeddings")),
+  };
+
+  if (options.includeAggregates || options.includeEmbeddings) {
+    try {
+      await ctx.runQuery(internal.users.assertPermission, { permission: "tools:moderate" });
+    } catch (error) {
+      return new Response(`Aggregates and embeddings are for moderators: ${(error as Error).message}`, {
+        status: 403,
+      });
+    }
+  }
+
+  const category = params.get("category") || undefined;
+  const encoder = new TextEncoder();
+  let cursor: string | null = null;
+  let written = 0;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(formatExportStart(format, options)));
+    },
+    async pull(controller) {
+      const page: { records: ExportRecord[]; nextCursor: string; isDone: boolean } =
+        await ctx.runQuery(internal.exports.getExportPage, {
+          language,
+          category,
+          pricing,
+          ...options,
+          cursor,
+        });
+      controller.enqueue(encoder.encode(formatExportRecords(page.records, format, options, written)));
+      written += page.records.length;
+      cursor = page.nextCursor;
+
+      if (page.isDone) {
+        controller.enqueue(encoder.encode(formatExportEnd(format, written)));
+        controller.close();
+      }
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="ai-tools-${date}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+});
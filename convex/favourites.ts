@@ -18,7 +18,7 @@ export const toggleFavourite = mutation({
       .first();
 
     const tool = await ctx.db.get(args.toolId);
-    if (!tool) {
+    if (!tool || tool.deletedAt !== undefined) {
       throw new Error("Tool not found");
     }
 
@@ -77,7 +77,9 @@ export const getUserFavourites = query({
       const tools = await Promise.all(
         toolIds.map((toolId) => ctx.db.get(toolId))
       );
-      return tools.filter((tool): tool is Doc<"aiTools"> => tool !== null);
+      return tools.filter(
+        (tool): tool is Doc<"aiTools"> => tool !== null && tool.deletedAt === undefined
+      );
     } catch (error) {
       return [];
     }
@@ -0,0 +1,106 @@
+/**
+ * Category and tag suggestions for draft submissions
+ * Embeds the draft, finds the nearest approved tools through the by_embedding
+ * vector index and lets their categories and tags vote. No generative model is
+ * involved, so suggestions only ever name labels the catalogue already uses.
+ */
+
+import { v } from "convex/values";
+import { action, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { generateEmbedding } from "./lib/gemini";
+import { checkRateLimit } from "./lib/rateLimit";
+import { getToolCategories } from "./lib/categories";
+import { LabelledNeighbour, LabelSuggestion, voteOnLabels } from "./lib/labelVoting";
+import {
+  GEMINI_EMBEDDING_DIMENSIONS,
+  LABEL_SUGGESTION_MIN_CONFIDENCE,
+  LABEL_SUGGESTION_NEIGHBOURS,
+  MAX_TOOL_CATEGORIES,
+} from "./lib/constants";
+
+// Tags offered per draft
+const MAX_SUGGESTED_TAGS = 8;
+
+/**
+ * Categories and tags of the tools the vector index returned
+ */
+export const getNeighbourLabels = internalQuery({
+  args: {
+    toolIds: v.array(v.id("aiTools")),
+  },
+  handler: async (ctx, args) => {
+    const tools = await Promise.all(args.toolIds.map((toolId) => ctx.db.get(toolId)));
+    return tools.map((tool) =>
+      tool ? { categories: getToolCategories(tool), tags: tool.tags } : null
+    );
+  },
+});
+
+/**
+ * Suggest categories and tags for a draft from its nearest approved tools
+ *
+ * @param name - Draft name (optional)
+ * @param description - Draft description
+ * @param detail - Draft long description (optional)
+ * @returns Categories and tags with confidence scores, most confident first
+ */
+export const suggestLabels = action({
+  args: {
+    name: v.optional(v.string()),
+    description: v.string(),
+    detail: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ categories: LabelSuggestion[]; tags: LabelSuggestion[] }> => {
+    const userId = await ctx.runQuery(internal.users.assertPermission, { permission: "tools:submit" });
+
+    const description = args.description.trim();
+    if (!description) {
+      return { categories: [], tags: [] };
+    }
+
+    const rateLimitCheck = checkRateLimit(userId, "label suggestion");
+    if (!rateLimitCheck.allowed) {
+      throw new Error(rateLimitCheck.message || "Rate limit exceeded. Please try again later.");
+    }
+
+    // Same layout as createEmbeddingText, minus the fields the draft lacks
+    const embeddingText = [
+      args.name?.trim() && `Tool Name: ${args.name.trim()}`,
+      `Description: ${description}`,
+      args.detail?.trim() && `Details: ${args.detail.trim()}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const embedding = await generateEmbedding(embeddingText);
+    if (!embedding || embedding.length !== GEMINI_EMBEDDING_DIMENSIONS) {
+      throw new Error(
+        `Invalid embedding generated: expected ${GEMINI_EMBEDDING_DIMENSIONS} dimensions, got ${embedding?.length || 0}`
+      );
+    }
+
+    const matches = await ctx.vectorSearch("aiTools", "by_embedding", {
+      vector: embedding,
+      limit: LABEL_SUGGESTION_NEIGHBOURS,
+      filter: (q) => q.eq("isApproved", true),
+    });
+    const labels = await ctx.runQuery(internal.labelSuggestions.getNeighbourLabels, {
+      toolIds: matches.map((match) => match._id),
+    });
+
+    const neighbours: LabelledNeighbour[] = matches.flatMap((match, index) => {
+      const label = labels[index];
+      return label ? [{ score: match._score, ...label }] : [];
+    });
+
+    return voteOnLabels(neighbours, {
+      minConfidence: LABEL_SUGGESTION_MIN_CONFIDENCE,
+      maxCategories: MAX_TOOL_CATEGORIES,
+      maxTags: MAX_SUGGESTED_TAGS,
+    });
+  },
+});
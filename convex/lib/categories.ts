@@ -0,0 +1,208 @@
+/**
+ * Category taxonomy helpers
+ * Tools store the slug of a row in the categories table; legacy free-text
+ * values are mapped onto those slugs through labels and aliases
+ */
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { normalizeName } from "./toolHelpers";
+
+export const FALLBACK_CATEGORY_SLUG = "other";
+
+export interface CategorySeed {
+  slug: string;
+  labels: { en: string; vi: string };
+  icon: string;
+  aliases: string[];
+}
+
+// Canonical categories, covering every category used in sample.jsonl and detail.jsonl
+export const DEFAULT_CATEGORIES: CategorySeed[] = [
+  {
+    slug: "writing-content",
+    labels: { en: "Writing & Content", vi: "Viết & Nội dung" },
+    icon: "✍️",
+    aliases: ["writing", "content", "copywriting", "viết lách", "nội dung"],
+  },
+  {
+    slug: "image-generation",
+    labels: { en: "Image Generation", vi: "Tạo hình ảnh" },
+    icon: "🖼️",
+    aliases: ["image", "images", "image & video generation", "hình ảnh"],
+  },
+  {
+    slug: "video-generation",
+    labels: { en: "Video Generation", vi: "Tạo video" },
+    icon: "🎬",
+    aliases: ["video"],
+  },
+  {
+    slug: "video-audio",
+    labels: { en: "Video & Audio", vi: "Video & Âm thanh" },
+    icon: "🎧",
+    aliases: ["audio", "music", "voice", "âm thanh", "âm nhạc"],
+  },
+  {
+    slug: "code-development",
+    labels: { en: "Code & Development", vi: "Lập trình & Phát triển" },
+    icon: "💻",
+    aliases: ["code", "coding", "development", "programming", "lập trình"],
+  },
+  {
+    slug: "data-analytics",
+    labels: { en: "Data & Analytics", vi: "Dữ liệu & Phân tích" },
+    icon: "📊",
+    aliases: ["data", "analytics", "dữ liệu", "phân tích"],
+  },
+  {
+    slug: "marketing-sales",
+    labels: { en: "Marketing & Sales", vi: "Marketing & Bán hàng" },
+    icon: "📈",
+    aliases: ["marketing", "sales", "seo", "bán hàng"],
+  },
+  {
+    slug: "business-productivity",
+    labels: { en: "Business & Productivity", vi: "Kinh doanh & Năng suất" },
+    icon: "💼",
+    aliases: ["business", "productivity", "kinh doanh", "năng suất"],
+  },
+  {
+    slug: "customer-service",
+    labels: { en: "Customer Service", vi: "Chăm sóc khách hàng" },
+    icon: "💬",
+    aliases: ["customer support", "support", "chatbot", "hỗ trợ khách hàng"],
+  },
+  {
+    slug: "design-creative",
+    labels: { en: "Design & Creative", vi: "Thiết kế & Sáng tạo" },
+    icon: "🎨",
+    aliases: ["design", "creative", "thiết kế", "sáng tạo"],
+  },
+  {
+    slug: "education-learning",
+    labels: { en: "Education & Learning", vi: "Giáo dục & Học tập" },
+    icon: "🎓",
+    aliases: ["education", "learning", "giáo dục", "học tập"],
+  },
+  {
+    slug: "finance-accounting",
+    labels: { en: "Finance & Accounting", vi: "Tài chính & Kế toán" },
+    icon: "💰",
+    aliases: ["finance", "accounting", "tài chính", "kế toán"],
+  },
+  {
+    slug: "healthcare-wellness",
+    labels: { en: "Healthcare & Wellness", vi: "Y tế & Sức khỏe" },
+    icon: "🩺",
+    aliases: ["healthcare", "health", "wellness", "y tế", "sức khỏe"],
+  },
+  {
+    slug: FALLBACK_CATEGORY_SLUG,
+    labels: { en: "Other", vi: "Khác" },
+    icon: "🔧",
+    aliases: ["misc", "miscellaneous"],
+  },
+];
+
+/**
+ * Build a URL-safe slug from a label
+ * Strips Vietnamese diacritics so "Tạo hình ảnh" becomes "tao-hinh-anh"
+ */
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Find the category a free-text value refers to
+ * Matches the slug, either label or an alias, ignoring case and punctuation
+ *
+ * @returns The matching category, or undefined if nothing matches
+ */
+export const findCategory = (
+  value: string,
+  categories: Pick<Doc<"categories">, "slug" | "labels" | "aliases">[]
+) => {
+  const key = normalizeName(value);
+  if (!key) {
+    return undefined;
+  }
+  return categories.find(
+    (category) =>
+      normalizeName(category.slug) === key ||
+      normalizeName(category.labels.en) === key ||
+      normalizeName(category.labels.vi) === key ||
+      category.aliases.some((alias) => normalizeName(alias) === key)
+  );
+};
+
+type ToolCategoryFields = Pick<Doc<"aiTools">, "category" | "categories">;
+
+/**
+ * Every category of a tool, primary first
+ * Legacy rows without a list belong to their primary category only
+ */
+export const getToolCategories = (tool: ToolCategoryFields) =>
+  tool.categories ?? [tool.category];
+
+export const toolHasCategory = (tool: ToolCategoryFields, slug: string) =>
+  getToolCategories(tool).includes(slug);
+
+/**
+ * Put the primary category first and drop duplicates
+ */
+export const orderCategories = (primary: string, categories: string[]) => [
+  primary,
+  ...new Set(categories.filter((category) => category !== primary)),
+];
+
+/**
+ * Keep `categories` consistent with `category` in a tool patch
+ * When only the primary changes, it replaces the old primary in the list
+ *
+ * @returns The patch with a complete categories list, or the patch unchanged
+ * when it touches neither field
+ */
+export const withCategoryList = <Patch extends Partial<ToolCategoryFields>>(
+  tool: ToolCategoryFields,
+  patch: Patch
+): Patch => {
+  if (patch.category === undefined && patch.categories === undefined) {
+    return patch;
+  }
+  const primary = patch.category ?? tool.category;
+  const others =
+    patch.categories ??
+    getToolCategories(tool).filter((category) => category !== tool.category);
+  return { ...patch, categories: orderCategories(primary, others) };
+};
+
+/**
+ * Make the toolCategories rows of a tool match its category list
+ */
+export const syncToolCategories = async (
+  ctx: MutationCtx,
+  toolId: Id<"aiTools">,
+  categories: string[]
+) => {
+  const rows = await ctx.db
+    .query("toolCategories")
+    .withIndex("by_tool", (q) => q.eq("toolId", toolId))
+    .collect();
+
+  for (const row of rows) {
+    if (!categories.includes(row.category)) {
+      await ctx.db.delete(row._id);
+    }
+  }
+  for (const category of categories) {
+    if (!rows.some((row) => row.category === category)) {
+      await ctx.db.insert("toolCategories", { toolId, category });
+    }
+  }
+};
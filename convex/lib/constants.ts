@@ -1,3 +1,67 @@
 export const GEMINI_EMBEDDING_DIMENSIONS = 768;
 
 export const GEMINI_EMBEDDING_MODEL = "gemini-embedding-001";
+
+// How long soft-deleted tools can be restored before they are purged
+export const DELETED_TOOL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Tools purged per scheduled run, to stay within mutation limits
+export const DELETED_TOOL_PURGE_BATCH_SIZE = 10;
+
+// Records inserted per mutation during a bulk import
+export const TOOL_IMPORT_BATCH_SIZE = 50;
+
+// Spacing between scheduled embedding jobs for imported tools (15 requests/minute free tier)
+export const TOOL_IMPORT_EMBEDDING_INTERVAL_MS = 4000;
+
+// Tools read per query while building a catalog export
+export const TOOL_EXPORT_PAGE_SIZE = 100;
+
+// Tools updated per scheduled run of the normalized URL/name backfill
+export const NORMALIZED_FIELDS_BACKFILL_BATCH_SIZE = 100;
+
+// Categories a single tool can belong to, including its primary category
+export const MAX_TOOL_CATEGORIES = 3;
+
+export const GEMINI_TRANSLATION_MODEL = "gemini-2.5-flash";
+
+// Spacing between scheduled machine-translation jobs (15 requests/minute free tier)
+export const TRANSLATION_INTERVAL_MS = 4000;
+
+// Tools queued per run of the missing-translation batch
+export const TRANSLATION_BATCH_SIZE = 50;
+
+// Link-health checks: per-request timeout, parallel requests and redirects followed
+export const LINK_CHECK_TIMEOUT_MS = 10000;
+export const LINK_CHECK_CONCURRENCY = 5;
+export const LINK_CHECK_MAX_REDIRECTS = 5;
+
+// Tools checked per scheduled run, least recently checked first
+export const LINK_CHECK_BATCH_SIZE = 100;
+
+// Consecutive failed checks before a tool is flagged as possibly dead
+export const LINK_CHECK_FAILURE_THRESHOLD = 3;
+
+// Page metadata lookups for the submission form: request timeout and bytes of HTML read
+export const PAGE_METADATA_TIMEOUT_MS = 8000;
+export const PAGE_METADATA_MAX_BYTES = 512 * 1024;
+
+// Category and tag suggestions: nearest approved tools consulted, and the share
+// of their similarity-weighted votes a label needs before it is suggested
+export const LABEL_SUGGESTION_NEIGHBOURS = 10;
+export const LABEL_SUGGESTION_MIN_CONFIDENCE = 0.2;
+
+// Page text sent to the model when drafting a listing from a URL
+export const TOOL_DRAFT_MAX_PAGE_TEXT = 6000;
+
+// Uploaded and migrated logos: largest file accepted
+export const LOGO_MAX_BYTES = 1024 * 1024;
+
+// Logo migration: tools handled per run and timeout per download
+export const LOGO_MIGRATION_BATCH_SIZE = 20;
+export const LOGO_FETCH_TIMEOUT_MS = 10000;
+
+// Tool galleries: largest screenshot accepted, items per tool and caption length
+export const MEDIA_MAX_BYTES = 5 * 1024 * 1024;
+export const MAX_TOOL_MEDIA = 12;
+export const MEDIA_CAPTION_MAX_LENGTH = 200;
@@ -92,3 +92,50 @@ export function createEmbeddingTextShort(tool: Tool): string {
 
   return parts.join(". ");
 }
+
+/**
+ * Calculate cosine similarity between two vectors
+ * Returns a value between -1 and 1, where 1 means identical direction
+ * 
+ * @param vectorA - First embedding vector
+ * @param vectorB - Second embedding vector
+ * @returns Cosine similarity score between -1 and 1
+ */
+export const cosineSimilarity = (vectorA: number[], vectorB: number[]): number => {
+  // Handle edge case: different lengths
+  if (vectorA.length !== vectorB.length) {
+    console.warn(
+      `Vector length mismatch: ${vectorA.length} vs ${vectorB.length}. Returning 0.`
+    );
+    return 0;
+  }
+
+  // Handle edge case: empty vectors
+  if (vectorA.length === 0) {
+    console.warn("Empty vectors provided. Returning 0.");
+    return 0;
+  }
+
+  // Calculate dot product and magnitudes
+  let dotProduct = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+
+  for (let i = 0; i < vectorA.length; i++) {
+    dotProduct += vectorA[i] * vectorB[i];
+    magnitudeA += vectorA[i] * vectorA[i];
+    magnitudeB += vectorB[i] * vectorB[i];
+  }
+
+  // Handle edge case: zero vectors (magnitude is 0)
+  if (magnitudeA === 0 || magnitudeB === 0) {
+    console.warn("Zero vector detected. Returning 0.");
+    return 0;
+  }
+
+  // Calculate cosine similarity
+  const similarity = dotProduct / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+
+  // Clamp to [-1, 1] to handle floating point precision issues
+  return Math.max(-1, Math.min(1, similarity));
+};
@@ -1,6 +1,6 @@
 /**
  * Gemini API Integration
- * Handles embedding generation using Google's Generative AI API
+ * Handles embedding and text generation using Google's Generative AI API
  */
 
 import {
@@ -11,6 +11,7 @@ import {
 import {
     GEMINI_EMBEDDING_DIMENSIONS,
     GEMINI_EMBEDDING_MODEL,
+    GEMINI_TRANSLATION_MODEL,
 } from "./constants";
 
 /**
@@ -200,3 +201,57 @@ export async function generateEmbeddingsBatch(
 
     return embeddings;
 }
+
+/**
+ * Generate text for a prompt using the Gemini translation model
+ * Retries on rate limiting like generateEmbedding
+ * @param prompt - Full prompt, including any instructions
+ * @param retryCount - Current retry attempt (internal use)
+ * @returns The generated text, trimmed
+ * @throws Error if the prompt is empty, the response is empty or the API fails after retries
+ */
+export async function generateText(
+    prompt: string,
+    retryCount = 0
+): Promise<string> {
+    if (!prompt || prompt.trim().length === 0) {
+        throw new Error("Cannot generate text for an empty prompt");
+    }
+
+    const client = getGeminiClient();
+    const model = client.getGenerativeModel({ model: GEMINI_TRANSLATION_MODEL });
+
+    try {
+        const result = await model.generateContent(prompt);
+        const text = result.response.text().trim();
+        if (!text) {
+            throw new Error("Gemini returned an empty response");
+        }
+        return text;
+    } catch (error: any) {
+        if (error.message?.includes("RESOURCE_EXHAUSTED") || error.status === 429) {
+            if (retryCount < 3) {
+                const waitTime = Math.pow(2, retryCount) * 15000; // 15s, 30s, 60s
+                console.warn(
+                    `Rate limit hit, retrying in ${waitTime / 1000}s (attempt ${retryCount + 1}/3)`
+                );
+                await new Promise((resolve) => setTimeout(resolve, waitTime));
+                return generateText(prompt, retryCount + 1);
+            }
+            throw new Error(
+                "Gemini API rate limit exceeded. Please wait a moment and try again."
+            );
+        }
+
+        if (error.status === 401 || error.message?.includes("API key")) {
+            throw new Error(
+                "Invalid GEMINI_API_KEY. Please check your API key configuration."
+            );
+        }
+
+        console.error("Gemini API error:", error);
+        throw new Error(
+            `Failed to generate text: ${error.message || "Unknown error"}`
+        );
+    }
+}
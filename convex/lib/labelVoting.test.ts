@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { cosineSimilarity } from "./embeddingHelpers";
+import { voteOnLabels } from "./labelVoting";
+
+const draft = [1, 0, 0];
+const options = { minConfidence: 0.3, maxCategories: 3, maxTags: 5 };
+
+// Scored 1, 0.6, 0 and -1 against the draft
+const neighbours = [
+  { vector: [1, 0, 0], categories: ["writing", "marketing"], tags: ["email", "seo", "seo"] },
+  { vector: [0.6, 0.8, 0], categories: ["marketing"], tags: ["seo"] },
+  { vector: [0, 0, 1], categories: ["video"], tags: ["video"] },
+  { vector: [-1, 0, 0], categories: ["audio"], tags: ["music"] },
+].map(({ vector, ...labels }) => ({ score: cosineSimilarity(draft, vector), ...labels }));
+
+const suggestion = (value: string, confidence: number) => ({ value, confidence: expect.closeTo(confidence, 6) });
+
+describe("voteOnLabels", () => {
+  it("weights votes by similarity and counts secondary categories for half", () => {
+    // Total weight 1.6: marketing gets 0.5 + 0.6, writing 1; seo 1 + 0.6, email 1
+    expect(voteOnLabels(neighbours, options)).toEqual({
+      categories: [suggestion("marketing", 1.1 / 1.6), suggestion("writing", 1 / 1.6)],
+      tags: [suggestion("seo", 1), suggestion("email", 1 / 1.6)],
+    });
+  });
+
+  it("drops suggestions below the confidence floor and past the limits", () => {
+    const result = voteOnLabels(neighbours, { minConfidence: 0.65, maxCategories: 1, maxTags: 5 });
+    expect(result.categories.map((category) => category.value)).toEqual(["marketing"]);
+    expect(result.tags.map((tag) => tag.value)).toEqual(["seo"]);
+  });
+
+  it("breaks ties by name", () => {
+    const result = voteOnLabels([{ score: 0.5, categories: ["b", "a"], tags: ["z", "y"] }], options);
+    expect(result.tags.map((tag) => tag.value)).toEqual(["y", "z"]);
+  });
+
+  it("suggests nothing when no neighbour is similar", () => {
+    expect(voteOnLabels(neighbours.slice(2), options)).toEqual({ categories: [], tags: [] });
+  });
+});
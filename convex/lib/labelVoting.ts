@@ -0,0 +1,64 @@
+/**
+ * Category and tag suggestions by nearest-neighbour voting
+ * Each neighbouring tool votes for its own categories and tags, weighted by how
+ * similar it is to the draft. Pure functions, so the voting can be checked with
+ * fixed vectors scored by cosineSimilarity from embeddingHelpers.
+ */
+
+export interface LabelledNeighbour {
+  score: number; // Similarity to the draft; higher is closer
+  categories: string[]; // Primary first
+  tags: string[];
+}
+
+export interface LabelSuggestion {
+  value: string;
+  confidence: number; // Share of the total vote weight, 0 to 1
+}
+
+export interface LabelVoteOptions {
+  minConfidence: number;
+  maxCategories: number;
+  maxTags: number;
+}
+
+// A neighbour's secondary categories count for less than its primary one
+const SECONDARY_CATEGORY_WEIGHT = 0.5;
+
+const rankVotes = (votes: Map<string, number>, totalWeight: number, options: LabelVoteOptions, limit: number) =>
+  [...votes.entries()]
+    .map(([value, weight]) => ({ value, confidence: weight / totalWeight }))
+    .filter((suggestion) => suggestion.confidence >= options.minConfidence)
+    .sort((a, b) => b.confidence - a.confidence || a.value.localeCompare(b.value))
+    .slice(0, limit);
+
+/**
+ * Tally the categories and tags of the nearest tools
+ * Neighbours with a non-positive score do not vote. Confidence is the label's
+ * vote weight over the summed weight of all voting neighbours, so a label every
+ * neighbour carries scores 1.
+ */
+export const voteOnLabels = (neighbours: LabelledNeighbour[], options: LabelVoteOptions) => {
+  const voters = neighbours.filter((neighbour) => neighbour.score > 0);
+  const totalWeight = voters.reduce((sum, neighbour) => sum + neighbour.score, 0);
+  if (totalWeight === 0) {
+    return { categories: [] as LabelSuggestion[], tags: [] as LabelSuggestion[] };
+  }
+
+  const categoryVotes = new Map<string, number>();
+  const tagVotes = new Map<string, number>();
+  for (const neighbour of voters) {
+    new Set(neighbour.categories).forEach((category) => {
+      const weight = category === neighbour.categories[0] ? 1 : SECONDARY_CATEGORY_WEIGHT;
+      categoryVotes.set(category, (categoryVotes.get(category) ?? 0) + neighbour.score * weight);
+    });
+    new Set(neighbour.tags).forEach((tag) => {
+      tagVotes.set(tag, (tagVotes.get(tag) ?? 0) + neighbour.score);
+    });
+  }
+
+  return {
+    categories: rankVotes(categoryVotes, totalWeight, options, options.maxCategories),
+    tags: rankVotes(tagVotes, totalWeight, options, options.maxTags),
+  };
+};
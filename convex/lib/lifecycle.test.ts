@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Doc, Id } from "../_generated/dataModel";
+import { withLifecycleChange } from "./lifecycle";
+
+const successorId = "successor" as Id<"aiTools">;
+const tool = {
+  lifecycleStatus: "acquired",
+  lifecycleChangedAt: 1000,
+  successorToolId: successorId,
+} as Doc<"aiTools">;
+
+describe("withLifecycleChange", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stamps the date when the status changes", () => {
+    vi.useFakeTimers({ now: 5000 });
+    expect(withLifecycleChange(tool, { lifecycleStatus: "discontinued" })).toEqual({
+      lifecycleStatus: "discontinued",
+      lifecycleChangedAt: 5000,
+      successorToolId: successorId,
+    });
+  });
+
+  it("leaves the date out of the patch when the status stays the same", () => {
+    const otherId = "other" as Id<"aiTools">;
+    const patch = withLifecycleChange(tool, { lifecycleStatus: "acquired", successorToolId: otherId });
+    expect(patch).toEqual({ lifecycleStatus: "acquired", successorToolId: otherId });
+    expect("lifecycleChangedAt" in patch).toBe(false);
+  });
+
+  it("drops the successor when the new status cannot have one", () => {
+    vi.useFakeTimers({ now: 5000 });
+    expect(withLifecycleChange(tool, { lifecycleStatus: "active" })).toEqual({
+      lifecycleStatus: "active",
+      lifecycleChangedAt: 5000,
+      successorToolId: undefined,
+    });
+  });
+
+  it("passes patches without a status through", () => {
+    expect(withLifecycleChange(tool, { successorToolId: undefined })).toEqual({ successorToolId: undefined });
+  });
+});
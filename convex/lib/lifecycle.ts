@@ -0,0 +1,77 @@
+/**
+ * Tool lifecycle status
+ * Tools are active unless marked otherwise. Discontinued and acquired tools can
+ * point at a successor or acquirer; discontinued tools are hidden from browse
+ * and search unless a caller opts in.
+ */
+
+import { v } from "convex/values";
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+export const lifecycleStatusValidator = v.union(
+  v.literal("active"),
+  v.literal("beta"),
+  v.literal("discontinued"),
+  v.literal("acquired")
+);
+
+export type LifecycleStatus = typeof lifecycleStatusValidator.type;
+
+// Statuses that may name a successor or acquirer tool
+const SUCCESSOR_STATUSES: readonly LifecycleStatus[] = ["discontinued", "acquired"];
+
+export const getLifecycleStatus = (tool: { lifecycleStatus?: LifecycleStatus }) =>
+  tool.lifecycleStatus ?? "active";
+
+export const isDiscontinued = (tool: { lifecycleStatus?: LifecycleStatus }) =>
+  getLifecycleStatus(tool) === "discontinued";
+
+/**
+ * Check that a successor can replace a tool
+ *
+ * @throws Error if the successor is the tool itself, is not listed, or the
+ * status cannot have a successor
+ */
+export const assertValidSuccessor = async (
+  ctx: QueryCtx,
+  toolId: Id<"aiTools">,
+  status: LifecycleStatus,
+  successorToolId: Id<"aiTools">
+) => {
+  if (!SUCCESSOR_STATUSES.includes(status)) {
+    throw new Error("Only discontinued or acquired tools can point at another tool");
+  }
+  if (successorToolId === toolId) {
+    throw new Error("A tool cannot replace itself");
+  }
+  const successor = await ctx.db.get(successorToolId);
+  if (!successor || !successor.isApproved) {
+    throw new Error("Successor tool not found");
+  }
+};
+
+type LifecyclePatch = Partial<
+  Pick<Doc<"aiTools">, "lifecycleStatus" | "successorToolId" | "lifecycleChangedAt">
+>;
+
+/**
+ * Stamp the status-changed date when a patch changes the status, and drop the
+ * successor when the new status cannot have one
+ * An unchanged status leaves the date out of the patch, since patching a field
+ * to undefined would remove it.
+ */
+export const withLifecycleChange = <T extends LifecyclePatch>(tool: Doc<"aiTools">, patch: T): T => {
+  if (patch.lifecycleStatus === undefined) {
+    return patch;
+  }
+  const { lifecycleChangedAt, ...rest } = patch;
+  const changed = patch.lifecycleStatus !== getLifecycleStatus(tool);
+  const keepsSuccessor = SUCCESSOR_STATUSES.includes(patch.lifecycleStatus);
+  const changedAt = changed ? Date.now() : lifecycleChangedAt;
+  return {
+    ...rest,
+    ...(changedAt !== undefined ? { lifecycleChangedAt: changedAt } : {}),
+    successorToolId: keepsSuccessor ? patch.successorToolId ?? tool.successorToolId : undefined,
+  } as T;
+};
@@ -0,0 +1,148 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { checkLink, isLinkFailure, LinkFetcher, mapWithConcurrency } from "./linkHealth";
+import { runLinkChecks } from "../linkHealth";
+
+// Local HTTP stand-in for the sites being checked
+const routes: Record<string, (request: IncomingMessage, response: ServerResponse) => void> = {
+  "/ok": (_request, response) => response.writeHead(200).end(),
+  "/moved": (_request, response) => response.writeHead(301, { location: "/ok" }).end(),
+  "/moved-twice": (_request, response) => response.writeHead(308, { location: "/moved" }).end(),
+  "/temporary": (_request, response) => response.writeHead(302, { location: "/ok" }).end(),
+  "/no-head": (request, response) => response.writeHead(request.method === "HEAD" ? 405 : 200).end(),
+  "/gone": (_request, response) => response.writeHead(410).end(),
+  "/loop": (_request, response) => response.writeHead(301, { location: "/loop" }).end(),
+  "/slow": () => {}, // Never answers
+};
+
+let server: Server;
+let origin: string;
+const requests: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push(`${request.method} ${request.url}`);
+    (routes[request.url ?? ""] ?? ((_request, notFound) => notFound.writeHead(404).end()))(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("checkLink", () => {
+  it("reports a live page", async () => {
+    expect(await checkLink(`${origin}/ok`)).toEqual({
+      url: `${origin}/ok`,
+      status: 200,
+      finalUrl: `${origin}/ok`,
+      permanentRedirect: false,
+    });
+  });
+
+  it("follows permanent redirects to the end of the chain", async () => {
+    const result = await checkLink(`${origin}/moved-twice`);
+    expect(result).toMatchObject({ status: 200, finalUrl: `${origin}/ok`, permanentRedirect: true });
+  });
+
+  it("does not treat temporary redirects as moves", async () => {
+    const result = await checkLink(`${origin}/temporary`);
+    expect(result).toMatchObject({ status: 200, finalUrl: `${origin}/ok`, permanentRedirect: false });
+  });
+
+  it("retries with GET when HEAD is not supported", async () => {
+    requests.length = 0;
+    expect((await checkLink(`${origin}/no-head`)).status).toBe(200);
+    expect(requests).toEqual(["HEAD /no-head", "GET /no-head"]);
+  });
+
+  it("stops after too many redirects", async () => {
+    const result = await checkLink(`${origin}/loop`, { maxRedirects: 2 });
+    expect(result).toMatchObject({ status: 301, error: "More than 2 redirects", permanentRedirect: false });
+  });
+
+  it("gives up on servers that do not answer", async () => {
+    const result = await checkLink(`${origin}/slow`, { timeoutMs: 50 });
+    expect(result).toEqual({
+      url: `${origin}/slow`,
+      finalUrl: `${origin}/slow`,
+      permanentRedirect: false,
+      error: "Timed out after 50ms",
+    });
+  });
+
+  it("reports refused connections instead of throwing", async () => {
+    const fetcher: LinkFetcher = async () => {
+      throw new Error("connect ECONNREFUSED");
+    };
+    expect(await checkLink("https://down.example", { fetcher })).toMatchObject({ error: "connect ECONNREFUSED" });
+  });
+});
+
+describe("isLinkFailure", () => {
+  it.each([
+    [{ status: 200 }, false],
+    [{ status: 403 }, false],
+    [{ status: 429 }, false],
+    [{ status: 404 }, true],
+    [{ status: 410 }, true],
+    [{ status: 503 }, true],
+    [{ error: "Timed out after 50ms" }, true],
+  ])("treats %o as a failure: %s", (result, failure) => {
+    expect(isLinkFailure(result)).toBe(failure);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps the order and the limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return delay * 2;
+    });
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("runLinkChecks", () => {
+  it("checks every tool link through the given fetcher and records the results", async () => {
+    // Tool URLs point at made-up hosts; the fetcher sends them to the stand-in
+    const fetcher: LinkFetcher = (url, init) => {
+      const { pathname } = new URL(url);
+      return fetch(`${origin}${pathname}`, init);
+    };
+    const runQuery = vi.fn(async () => [
+      { toolId: "tool1", url: "https://acme.example/moved", logoUrl: "https://cdn.acme.example/gone" },
+      { toolId: "tool2", url: "https://beta.example/ok" },
+    ]);
+    const runMutation = vi.fn(async () => ({ flaggedCount: 1, suggestedCount: 1 }));
+    const ctx = { runQuery, runMutation } as unknown as Parameters<typeof runLinkChecks>[0];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const summary = await runLinkChecks(ctx, 10, { fetcher });
+
+    expect(summary).toEqual({ checkedCount: 3, flaggedCount: 1, suggestedCount: 1 });
+    expect(runQuery).toHaveBeenCalledWith(expect.anything(), { limit: 10 });
+    expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+      results: [
+        expect.objectContaining({
+          toolId: "tool1",
+          field: "url",
+          status: 200,
+          finalUrl: "https://acme.example/ok",
+          permanentRedirect: true,
+        }),
+        expect.objectContaining({ toolId: "tool1", field: "logoUrl", status: 410 }),
+        expect.objectContaining({ toolId: "tool2", field: "url", status: 200, permanentRedirect: false }),
+      ],
+    });
+  });
+});
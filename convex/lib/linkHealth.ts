@@ -0,0 +1,142 @@
+/**
+ * Link checking for tool URLs
+ * Redirects are followed by hand so the checker can tell permanent moves from
+ * temporary ones. The fetch function is a parameter, so a local HTTP stand-in
+ * can replace the network.
+ */
+
+import {
+  LINK_CHECK_MAX_REDIRECTS,
+  LINK_CHECK_TIMEOUT_MS,
+} from "./constants";
+
+/**
+ * The subset of fetch the checker relies on
+ */
+export type LinkFetcher = (
+  url: string,
+  init: { method: "HEAD" | "GET"; redirect: "manual"; signal: AbortSignal }
+) => Promise<{ status: number; headers: { get: (name: string) => string | null } }>;
+
+export interface LinkCheckResult {
+  url: string;
+  status?: number; // Status of the last response; missing when no response arrived
+  finalUrl: string; // Where the redirect chain ended
+  permanentRedirect: boolean; // Every hop was a 301 or 308
+  error?: string;
+}
+
+export interface LinkCheckOptions {
+  fetcher?: LinkFetcher;
+  timeoutMs?: number;
+  maxRedirects?: number;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308]);
+
+// Servers that reject HEAD requests answer with one of these
+const HEAD_UNSUPPORTED_STATUSES = new Set([405, 501]);
+
+/**
+ * Send one request, aborting after the timeout
+ * Falls back to GET when the server does not support HEAD
+ */
+const request = async (fetcher: LinkFetcher, url: string, timeoutMs: number) => {
+  const send = async (method: "HEAD" | "GET") => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetcher(url, { method, redirect: "manual", signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const response = await send("HEAD");
+  return HEAD_UNSUPPORTED_STATUSES.has(response.status) ? await send("GET") : response;
+};
+
+/**
+ * Check that a URL resolves, following up to maxRedirects redirects
+ * Never throws; network errors, timeouts and redirect loops end up in `error`
+ */
+export const checkLink = async (
+  url: string,
+  {
+    fetcher = fetch,
+    timeoutMs = LINK_CHECK_TIMEOUT_MS,
+    maxRedirects = LINK_CHECK_MAX_REDIRECTS,
+  }: LinkCheckOptions = {}
+): Promise<LinkCheckResult> => {
+  let current = url;
+  let permanentRedirect = true;
+  let redirects = 0;
+
+  try {
+    for (;;) {
+      const response = await request(fetcher, current, timeoutMs);
+      const location = response.headers.get("location");
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return {
+          url,
+          status: response.status,
+          finalUrl: current,
+          permanentRedirect: redirects > 0 && permanentRedirect,
+        };
+      }
+
+      if (redirects === maxRedirects) {
+        return {
+          url,
+          status: response.status,
+          finalUrl: current,
+          permanentRedirect: false,
+          error: `More than ${maxRedirects} redirects`,
+        };
+      }
+      permanentRedirect &&= PERMANENT_REDIRECT_STATUSES.has(response.status);
+      current = new URL(location, current).toString();
+      redirects++;
+    }
+  } catch (error: any) {
+    return {
+      url,
+      finalUrl: current,
+      permanentRedirect: false,
+      error: error?.name === "AbortError" ? `Timed out after ${timeoutMs}ms` : error?.message || "Request failed",
+    };
+  }
+};
+
+/**
+ * Whether a check counts towards the failure streak
+ * Sites that block bots (401, 403, 429) are treated as alive
+ */
+export const isLinkFailure = (result: Pick<LinkCheckResult, "status" | "error">) =>
+  result.error !== undefined ||
+  result.status === undefined ||
+  result.status === 404 ||
+  result.status === 410 ||
+  result.status >= 500;
+
+/**
+ * Run a worker over items with at most `limit` calls in flight
+ * Results keep the order of the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
@@ -0,0 +1,119 @@
+/**
+ * Per-language tool content
+ * A tool keeps its primary content in name/description/detail and may carry
+ * one translation per other language. Reads pick the requested language and
+ * fall back to the primary content. Machine translations carry a flag that
+ * is dropped as soon as a person changes their text.
+ */
+
+import { v } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+
+export type Language = Doc<"aiTools">["language"];
+
+export const toolTranslationValidator = v.object({
+  language: v.union(v.literal("en"), v.literal("vi")),
+  name: v.string(),
+  description: v.string(),
+  detail: v.optional(v.string()),
+  machineTranslated: v.optional(v.boolean()), // Produced by the translation pipeline, not yet reviewed
+});
+
+export type ToolTranslation = typeof toolTranslationValidator.type;
+
+/**
+ * Trim translations and check that each covers a distinct non-primary language
+ * An empty list becomes undefined. The machine-translated flag is only kept
+ * for text that still matches a machine translation in `previous`.
+ *
+ * @throws Error with a user-facing message for the first invalid translation
+ */
+export const cleanTranslations = (
+  translations: ToolTranslation[],
+  primaryLanguage: Language,
+  previous: ToolTranslation[] = []
+): ToolTranslation[] | undefined => {
+  const seen = new Set<Language>();
+  const cleaned = translations.map((translation): ToolTranslation => {
+    if (translation.language === primaryLanguage) {
+      throw new Error(`"${primaryLanguage}" is the tool's primary language; edit the tool instead`);
+    }
+    if (seen.has(translation.language)) {
+      throw new Error(`Only one "${translation.language}" translation is allowed`);
+    }
+    seen.add(translation.language);
+
+    const name = translation.name.trim();
+    const description = translation.description.trim();
+    if (!name || !description) {
+      throw new Error(`The "${translation.language}" translation needs a name and a description`);
+    }
+    const detail = translation.detail?.trim() || undefined;
+    const machine = previous.find(
+      (candidate) => candidate.language === translation.language && candidate.machineTranslated
+    );
+    const unchanged =
+      machine !== undefined &&
+      machine.name === name &&
+      machine.description === description &&
+      machine.detail === detail;
+    return {
+      language: translation.language,
+      name,
+      description,
+      detail,
+      machineTranslated: unchanged || undefined,
+    };
+  });
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+/**
+ * Text indexed by the tool search: the primary name and every translated name,
+ * so a tool can be found by its name in any language
+ */
+export const toolSearchText = (tool: Pick<Doc<"aiTools">, "name" | "translations">) =>
+  [tool.name, ...(tool.translations ?? []).map((translation) => translation.name)].join("\n");
+
+/**
+ * Return the tool with its content in the requested language
+ * Falls back to the primary content when there is no translation;
+ * `contentLanguage` tells which language the content is in and
+ * `machineTranslated` whether it is an unreviewed machine translation
+ */
+export const localizeTool = <T extends Doc<"aiTools">>(tool: T, language?: Language) => {
+  const translation =
+    language && language !== tool.language
+      ? tool.translations?.find((candidate) => candidate.language === language)
+      : undefined;
+  if (!translation) {
+    return { ...tool, contentLanguage: tool.language, machineTranslated: false };
+  }
+  return {
+    ...tool,
+    name: translation.name,
+    description: translation.description,
+    detail: translation.detail,
+    contentLanguage: translation.language,
+    machineTranslated: translation.machineTranslated === true,
+  };
+};
+
+/**
+ * The embedding that matches the requested language
+ * Uses the translation's embedding when the tool has one, otherwise the primary embedding
+ */
+export const getVariantEmbedding = (tool: Doc<"aiTools">, language?: Language) => {
+  if (language && language !== tool.language) {
+    const hasTranslation = tool.translations?.some(
+      (translation) => translation.language === language
+    );
+    const variant = tool.translationEmbeddings?.find(
+      (candidate) => candidate.language === language
+    );
+    if (hasTranslation && variant) {
+      return variant.embedding;
+    }
+  }
+  return tool.embedding;
+};
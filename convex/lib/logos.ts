@@ -0,0 +1,88 @@
+/**
+ * Tool logos in Convex file storage
+ * Logos are uploaded or copied into storage and served from there; logoUrl
+ * holds the storage URL so readers need no extra lookup, and logoStorageId
+ * records which file backs it.
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { LOGO_MAX_BYTES } from "./constants";
+
+// SVG is left out on purpose: it can carry scripts
+export const LOGO_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+/**
+ * Why a file cannot be used as a logo, or undefined if it can
+ */
+export const getLogoProblem = (contentType: string | undefined, size: number) => {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (!type || !LOGO_CONTENT_TYPES.includes(type)) {
+    return `Logos must be PNG, JPEG, WebP or GIF images${type ? ` (got ${type})` : ""}`;
+  }
+  if (size > LOGO_MAX_BYTES) {
+    return `Logos must be at most ${Math.round(LOGO_MAX_BYTES / 1024)} KB`;
+  }
+  return undefined;
+};
+
+/**
+ * Make sure no tool logo or gallery item uses a stored file yet
+ * Uploads are attached once; a file someone else attached must not be
+ * reused, since deleting or purging either owner would delete it.
+ *
+ * @throws Error if the file is already in use
+ */
+export const assertUnclaimedUpload = async (ctx: QueryCtx, storageId: Id<"_storage">) => {
+  const logoOwner = await ctx.db
+    .query("aiTools")
+    .withIndex("by_logoStorageId", (q) => q.eq("logoStorageId", storageId))
+    .first();
+  const mediaOwner = await ctx.db
+    .query("toolMedia")
+    .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+    .first();
+  if (logoOwner || mediaOwner) {
+    throw new Error("This upload is already in use");
+  }
+};
+
+/**
+ * Check an uploaded file and return the URL it is served from
+ * Files that fail the checks are deleted right away
+ *
+ * @throws Error if the file does not exist, is already in use or is not an acceptable image
+ */
+export const acceptLogoUpload = async (ctx: MutationCtx, storageId: Id<"_storage">) => {
+  const file = await ctx.db.system.get(storageId);
+  if (!file) {
+    throw new Error("Logo upload not found");
+  }
+  // Before anything is deleted, so another tool's file is never touched
+  await assertUnclaimedUpload(ctx, storageId);
+
+  const problem = getLogoProblem(file.contentType, file.size);
+  if (problem) {
+    await ctx.storage.delete(storageId);
+    throw new Error(problem);
+  }
+
+  const url = await ctx.storage.getUrl(storageId);
+  if (!url) {
+    throw new Error("Logo upload not found");
+  }
+  return url;
+};
+
+type LogoPatch = Partial<Pick<Doc<"aiTools">, "logoUrl" | "logoStorageId">>;
+
+/**
+ * Forget the stored file when a patch points logoUrl somewhere else
+ * The file itself is kept, since revisions may still refer to its URL
+ */
+export const withLogoChange = <T extends LogoPatch>(tool: Doc<"aiTools">, patch: T): T => {
+  if (!("logoUrl" in patch) || "logoStorageId" in patch || patch.logoUrl === tool.logoUrl) {
+    return patch;
+  }
+  return { ...patch, logoStorageId: undefined };
+};
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Doc } from "../_generated/dataModel";
+import { localizeTool } from "./localization";
+import { getTranslationProvider, stubTranslationProvider, translateToolContent } from "./machineTranslation";
+
+describe("getTranslationProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("picks the provider named by TRANSLATION_PROVIDER", () => {
+    vi.stubEnv("TRANSLATION_PROVIDER", "stub");
+    expect(getTranslationProvider()).toBe(stubTranslationProvider);
+  });
+
+  it("rejects unknown providers", () => {
+    vi.stubEnv("TRANSLATION_PROVIDER", "nope");
+    expect(() => getTranslationProvider()).toThrow('Unknown TRANSLATION_PROVIDER "nope"');
+  });
+});
+
+describe("translateToolContent", () => {
+  const tool = {
+    name: "Viết Nhanh",
+    description: "Trợ lý viết AI",
+    detail: "Soạn email\nvà báo cáo",
+    language: "vi" as const,
+  };
+
+  it("translates the description and detail but keeps the name", async () => {
+    expect(await translateToolContent(stubTranslationProvider, tool, "en")).toEqual({
+      language: "en",
+      name: "Viết Nhanh",
+      description: "[en] Trợ lý viết AI",
+      detail: "[en] Soạn email\nvà báo cáo",
+      machineTranslated: true,
+    });
+  });
+
+  it("leaves out a missing detail", async () => {
+    const translation = await translateToolContent(stubTranslationProvider, { ...tool, detail: undefined }, "en");
+    expect(translation.detail).toBeUndefined();
+  });
+
+  it("is served to readers of the target language only", async () => {
+    const translation = await translateToolContent(stubTranslationProvider, tool, "en");
+    const stored = { ...tool, translations: [translation] } as unknown as Doc<"aiTools">;
+
+    expect(localizeTool(stored, "en")).toMatchObject({
+      description: "[en] Trợ lý viết AI",
+      contentLanguage: "en",
+      machineTranslated: true,
+    });
+    expect(localizeTool(stored, "vi")).toMatchObject({
+      description: "Trợ lý viết AI",
+      contentLanguage: "vi",
+      machineTranslated: false,
+    });
+  });
+});
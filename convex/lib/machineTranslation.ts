@@ -0,0 +1,77 @@
+/**
+ * Machine translation of tool content
+ * Providers translate one text at a time; pick one with TRANSLATION_PROVIDER
+ * ("gemini" by default, "stub" for local development without network access)
+ */
+
+import { generateText } from "./gemini";
+import { Language, ToolTranslation } from "./localization";
+
+export interface TranslationProvider {
+  name: string;
+  translate: (text: string, from: Language, to: Language) => Promise<string>;
+}
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  vi: "Vietnamese",
+};
+
+export const geminiTranslationProvider: TranslationProvider = {
+  name: "gemini",
+  translate: (text, from, to) =>
+    generateText(
+      [
+        `Translate the following AI tool description from ${LANGUAGE_NAMES[from]} to ${LANGUAGE_NAMES[to]}.`,
+        "Keep product names, brand names and code unchanged and keep the line breaks.",
+        "Reply with the translation only.",
+        "",
+        text,
+      ].join("\n")
+    ),
+};
+
+/**
+ * Deterministic provider that marks the text with the target language
+ * instead of translating it
+ */
+export const stubTranslationProvider: TranslationProvider = {
+  name: "stub",
+  translate: async (text, _from, to) => `[${to}] ${text}`,
+};
+
+/**
+ * The provider selected by the TRANSLATION_PROVIDER environment variable
+ *
+ * @throws Error if the variable names an unknown provider
+ */
+export const getTranslationProvider = (): TranslationProvider => {
+  const name = process.env.TRANSLATION_PROVIDER ?? "gemini";
+  const provider = [geminiTranslationProvider, stubTranslationProvider].find(
+    (candidate) => candidate.name === name
+  );
+  if (!provider) {
+    throw new Error(`Unknown TRANSLATION_PROVIDER "${name}"; use gemini or stub`);
+  }
+  return provider;
+};
+
+/**
+ * Translate the description and detail of a tool into another language
+ * The tool name is kept as is since product names are not translated
+ */
+export const translateToolContent = async (
+  provider: TranslationProvider,
+  tool: { name: string; description: string; detail?: string; language: Language },
+  to: Language
+): Promise<ToolTranslation> => {
+  const description = await provider.translate(tool.description, tool.language, to);
+  const detail = tool.detail ? await provider.translate(tool.detail, tool.language, to) : undefined;
+  return {
+    language: to,
+    name: tool.name,
+    description,
+    detail,
+    machineTranslated: true,
+  };
+};
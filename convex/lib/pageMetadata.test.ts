@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { extractPageMetadata, extractPageText, suggestToolName } from "./pageMetadata";
+
+const readPage = (name: string) => readFileSync(new URL(`./__fixtures__/pages/${name}`, import.meta.url), "utf8");
+
+describe("extractPageMetadata", () => {
+  it("prefers Open Graph tags and apple touch icons", () => {
+    expect(extractPageMetadata(readPage("open-graph.html"), "https://vietnhanh.example/vi/")).toEqual({
+      title: "Viết Nhanh – Trợ lý viết AI",
+      description: "Viết email, bài đăng và báo cáo chỉ trong vài giây.",
+      image: "https://vietnhanh.example/images/social-card.png",
+      icon: "https://vietnhanh.example/apple-touch-icon-180.png",
+      language: "vi",
+    });
+  });
+
+  it("falls back to the title, meta description and largest favicon", () => {
+    expect(extractPageMetadata(readPage("plain-title.html"), "https://acme.example/app/")).toEqual({
+      title: "Acme & Co | The AI writing assistant",
+      description: "Drafts emails, posts & reports from short prompts.",
+      image: undefined,
+      icon: "https://acme.example/app/icons/favicon-32.png",
+      language: "en",
+    });
+  });
+
+  it("returns nothing for a page without metadata", () => {
+    expect(extractPageMetadata("<p>Hello</p>", "https://example.com")).toEqual({
+      title: undefined,
+      description: undefined,
+      image: undefined,
+      icon: undefined,
+      language: undefined,
+    });
+  });
+});
+
+describe("suggestToolName", () => {
+  it.each([
+    ["Viết Nhanh – Trợ lý viết AI", "Viết Nhanh"],
+    ["Acme & Co | The AI writing assistant", "Acme & Co"],
+    ["Self-hosted AI", "Self-hosted AI"],
+    [undefined, undefined],
+  ])("turns %s into %s", (title, name) => {
+    expect(suggestToolName(title)).toBe(name);
+  });
+});
+
+describe("extractPageText", () => {
+  it("keeps the readable text only", () => {
+    expect(extractPageText(readPage("plain-title.html"), 1000)).toBe(
+      "Acme & Co | The AI writing assistant Acme & Co Write better, faster. © 2024 Acme"
+    );
+  });
+
+  it("cuts the text to the requested length", () => {
+    expect(extractPageText(readPage("open-graph.html"), 10)).toBe("Trợ lý viế");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Page metadata extraction for prefilling tool submissions
+ * Pure string parsing with no network or DOM access, so it runs in the Convex
+ * runtime and can be checked against saved pages.
+ */
+
+export interface PageMetadata {
+  title?: string; // og:title, falling back to <title>
+  description?: string; // og:description, falling back to <meta name="description">
+  image?: string; // og:image, absolute
+  icon?: string; // apple-touch-icon or the largest favicon, absolute
+  language?: string; // Primary subtag of <html lang>, lowercased (e.g. "vi" for "vi-VN")
+}
+
+// Longest values kept; pages sometimes stuff whole paragraphs into titles
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const cleanText = (value: string | undefined, maxLength: number) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const text = decodeEntities(value).replace(/\s+/g, " ").trim();
+  return text ? text.slice(0, maxLength) : undefined;
+};
+
+const resolveUrl = (value: string | undefined, pageUrl: string) => {
+  const trimmed = value ? decodeEntities(value).trim() : "";
+  if (!trimmed) {
+    return undefined;
+  }
+  try {
+    const url = new URL(trimmed, pageUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Parse the attributes of a start tag into a lowercase-keyed map
+ */
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = match[2] ?? match[3] ?? match[4] ?? "";
+    }
+  }
+  return attributes;
+};
+
+// Largest edge of a sizes attribute such as "32x32 16x16"; "any" means scalable
+const iconSize = (sizes: string | undefined) => {
+  if (!sizes) {
+    return 0;
+  }
+  if (sizes.toLowerCase().includes("any")) {
+    return Infinity;
+  }
+  return Math.max(0, ...sizes.split(/\s+/).map((size) => parseInt(size, 10) || 0));
+};
+
+/**
+ * Extract title, description, preview image, icon and language from an HTML page
+ * Only the <head> is read when the page has one. Relative URLs are resolved
+ * against pageUrl, which should be the final URL after redirects.
+ */
+export const extractPageMetadata = (html: string, pageUrl: string): PageMetadata => {
+  const headEnd = html.search(/<\/head\s*>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta: Record<string, string> = {};
+  const icons: Array<{ href: string; rank: number; size: number }> = [];
+
+  for (const match of head.matchAll(/<(meta|link)\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(match[2]);
+
+    if (match[1].toLowerCase() === "meta") {
+      const key = (attributes.property ?? attributes.name)?.toLowerCase();
+      if (key && attributes.content !== undefined && !(key in meta)) {
+        meta[key] = attributes.content;
+      }
+      continue;
+    }
+
+    const rel = attributes.rel?.toLowerCase().split(/\s+/) ?? [];
+    if (!attributes.href) {
+      continue;
+    }
+    if (rel.includes("apple-touch-icon") || rel.includes("apple-touch-icon-precomposed")) {
+      icons.push({ href: attributes.href, rank: 2, size: iconSize(attributes.sizes) });
+    } else if (rel.includes("icon")) {
+      icons.push({ href: attributes.href, rank: 1, size: iconSize(attributes.sizes) });
+    }
+  }
+
+  const titleTag = head.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+  const language = html.match(/<html\b([^>]*)>/i)?.[1];
+  const lang = language ? parseAttributes(language).lang : undefined;
+
+  // Apple touch icons are the largest square logos a site ships
+  const bestIcon = icons.sort((a, b) => b.rank - a.rank || b.size - a.size)[0];
+
+  return {
+    title: cleanText(meta["og:title"], MAX_TITLE_LENGTH) ?? cleanText(titleTag, MAX_TITLE_LENGTH),
+    description:
+      cleanText(meta["og:description"], MAX_DESCRIPTION_LENGTH) ??
+      cleanText(meta["description"], MAX_DESCRIPTION_LENGTH),
+    image:
+      resolveUrl(meta["og:image:secure_url"], pageUrl) ??
+      resolveUrl(meta["og:image"], pageUrl) ??
+      resolveUrl(meta["og:image:url"], pageUrl),
+    icon: resolveUrl(bestIcon?.href, pageUrl),
+    language: lang?.trim().toLowerCase().split(/[-_]/)[0] || undefined,
+  };
+};
+
+/**
+ * Guess a tool name from a page title such as "Acme – AI writing assistant"
+ * Keeps the part before the first separator
+ */
+export const suggestToolName = (title: string | undefined) => {
+  const name = title?.split(/\s+[|–—·:-]\s+/)[0].trim();
+  return name || undefined;
+};
+
+/**
+ * Readable text of an HTML page, for prompting a model about it
+ * Drops scripts, styles and markup, decodes entities and collapses whitespace
+ */
+export const extractPageText = (html: string, maxLength: number) =>
+  decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1\s*>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength);
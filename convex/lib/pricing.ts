@@ -0,0 +1,96 @@
+/**
+ * Structured pricing plans
+ * Tools can list their plans; the coarse `pricing` value used by filters and
+ * embeddings is derived from them whenever plans are present
+ */
+
+import { v } from "convex/values";
+
+// Plans a single tool can list
+export const MAX_PRICING_PLANS = 10;
+
+export const billingPeriodValidator = v.union(
+  v.literal("month"),
+  v.literal("year"),
+  v.literal("one-time"),
+  v.literal("usage")
+);
+
+export const pricingPlanValidator = v.object({
+  name: v.string(),
+  price: v.optional(v.number()), // 0 for a free plan; omitted for contact-sales plans
+  currency: v.optional(v.string()), // ISO 4217 code, required when price > 0
+  billingPeriod: v.optional(billingPeriodValidator),
+  freeTrialDays: v.optional(v.number()),
+  contactSales: v.optional(v.boolean()), // Enterprise plan priced on request
+});
+
+export type PricingPlan = typeof pricingPlanValidator.type;
+
+/**
+ * Trim and validate a list of plans
+ * Currencies are uppercased and an empty list becomes undefined
+ *
+ * @throws Error with a user-facing message for the first invalid plan
+ */
+export const cleanPricingPlans = (plans: PricingPlan[]): PricingPlan[] | undefined => {
+  if (plans.length > MAX_PRICING_PLANS) {
+    throw new Error(`A tool can list at most ${MAX_PRICING_PLANS} pricing plans`);
+  }
+
+  const cleaned = plans.map((plan): PricingPlan => {
+    const name = plan.name.trim();
+    if (!name) {
+      throw new Error("Every pricing plan needs a name");
+    }
+    if (plan.price !== undefined && !(plan.price >= 0)) {
+      throw new Error(`The price of "${name}" must be zero or more`);
+    }
+    if (plan.price === undefined && !plan.contactSales) {
+      throw new Error(`"${name}" needs a price or the contact-sales flag`);
+    }
+    const currency = plan.currency?.trim().toUpperCase() || undefined;
+    if (plan.price !== undefined && plan.price > 0 && !currency) {
+      throw new Error(`"${name}" needs a currency`);
+    }
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      throw new Error(`"${currency}" is not a three-letter currency code`);
+    }
+    if (
+      plan.freeTrialDays !== undefined &&
+      (!Number.isInteger(plan.freeTrialDays) || plan.freeTrialDays < 0)
+    ) {
+      throw new Error(`The free trial of "${name}" must be a whole number of days`);
+    }
+
+    return {
+      name,
+      price: plan.price,
+      currency,
+      billingPeriod: plan.price ? plan.billingPeriod : undefined,
+      freeTrialDays: plan.freeTrialDays || undefined,
+      contactSales: plan.contactSales || undefined,
+    };
+  });
+
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+const isFreePlan = (plan: PricingPlan) => plan.price === 0 && !plan.contactSales;
+
+/**
+ * Derive the coarse pricing value from a list of plans
+ * A free trial alone does not make a tool freemium; a free plan does
+ *
+ * @returns undefined when there are no plans to derive from
+ */
+export const derivePricing = (plans: PricingPlan[] | undefined) => {
+  if (!plans || plans.length === 0) {
+    return undefined;
+  }
+  const freeCount = plans.filter(isFreePlan).length;
+  if (freeCount === plans.length) {
+    return "free" as const;
+  }
+  return freeCount > 0 ? ("freemium" as const) : ("paid" as const);
+};
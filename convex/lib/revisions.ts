@@ -0,0 +1,127 @@
+/**
+ * Revision tracking for tools
+ * Every insert or content patch to aiTools goes through these helpers so that an
+ * immutable revision entry records what changed, who changed it and when
+ */
+
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { WithoutSystemFields } from "convex/server";
+import {
+  EDITABLE_TOOL_FIELDS,
+  EditableToolFields,
+  fieldValueEqual,
+} from "./toolHelpers";
+import { getToolCategories, syncToolCategories, withCategoryList } from "./categories";
+import { isCountedTool, syncToolTags } from "./tags";
+import { generateUniqueSlug, renameToolSlug } from "./slugs";
+import { withLifecycleChange } from "./lifecycle";
+import { withLogoChange } from "./logos";
+import { toolSearchText } from "./localization";
+
+export type RevisionSource = Doc<"toolRevisions">["source"];
+
+type ToolPatch = Partial<WithoutSystemFields<Doc<"aiTools">>>;
+
+const pickFields = (
+  values: Partial<Record<keyof EditableToolFields, unknown>>,
+  fields: readonly (keyof EditableToolFields)[]
+) => {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (values[field] !== undefined) {
+      picked[field] = values[field];
+    }
+  }
+  return picked as EditableToolFields;
+};
+
+/**
+ * Insert a tool and record its initial revision
+ */
+export const insertToolWithRevision = async (
+  ctx: MutationCtx,
+  tool: WithoutSystemFields<Doc<"aiTools">>,
+  authorId: Id<"users"> | undefined,
+  source: RevisionSource
+) => {
+  tool = {
+    ...tool,
+    categories: getToolCategories(tool),
+    slug: tool.slug ?? (await generateUniqueSlug(ctx, tool.name)),
+    searchText: toolSearchText(tool),
+  };
+  const toolId = await ctx.db.insert("aiTools", tool);
+  await syncToolCategories(ctx, toolId, tool.categories!);
+  await syncToolTags(ctx, toolId, tool.tags, { before: false, after: isCountedTool(tool) });
+
+  const changedFields = EDITABLE_TOOL_FIELDS.filter((field) => tool[field] !== undefined);
+  await ctx.db.insert("toolRevisions", {
+    toolId,
+    authorId,
+    source,
+    changedFields: [...changedFields],
+    before: {},
+    after: pickFields(tool, changedFields),
+    createdAt: Date.now(),
+  });
+
+  return toolId;
+};
+
+/**
+ * Patch a tool and record a revision for the editable fields that changed
+ * Fields outside EDITABLE_TOOL_FIELDS (counters, embeddings, moderation state)
+ * are applied but not tracked. A new name also gets the tool a new slug, and
+ * new names or translations refresh the search text.
+ * Deletes, restores and merges are always recorded, even though no tracked field changes.
+ *
+ * @returns The names of the tracked fields that changed
+ */
+export const patchToolWithRevision = async (
+  ctx: MutationCtx,
+  tool: Doc<"aiTools">,
+  patch: ToolPatch,
+  authorId: Id<"users"> | undefined,
+  source: RevisionSource,
+  revertedFrom?: Id<"toolRevisions">
+) => {
+  patch = withLogoChange(tool, withLifecycleChange(tool, withCategoryList(tool, patch)));
+  if (patch.name !== undefined && patch.name !== tool.name) {
+    const slug = await renameToolSlug(ctx, tool, patch.name);
+    if (slug) {
+      patch = { ...patch, slug };
+    }
+  }
+  if (patch.name !== undefined || "translations" in patch) {
+    patch = { ...patch, searchText: toolSearchText({ ...tool, ...patch }) };
+  }
+  const changedFields = EDITABLE_TOOL_FIELDS.filter(
+    (field) => field in patch && !fieldValueEqual(patch[field], tool[field])
+  );
+
+  await ctx.db.patch(tool._id, patch);
+  if (patch.categories !== undefined) {
+    await syncToolCategories(ctx, tool._id, patch.categories);
+  }
+  // Approving, deleting or restoring a tool moves its tag usage counts
+  const counted = { before: isCountedTool(tool), after: isCountedTool({ ...tool, ...patch }) };
+  if (patch.tags !== undefined || counted.before !== counted.after) {
+    await syncToolTags(ctx, tool._id, patch.tags ?? tool.tags, counted);
+  }
+
+  if (changedFields.length > 0 || source === "delete" || source === "restore" || source === "merge") {
+    await ctx.db.insert("toolRevisions", {
+      toolId: tool._id,
+      authorId,
+      source,
+      changedFields: [...changedFields],
+      before: pickFields(tool, changedFields),
+      after: pickFields(patch, changedFields),
+      revertedFrom,
+      createdAt: Date.now(),
+    });
+  }
+
+  return changedFields;
+};
@@ -0,0 +1,50 @@
+/**
+ * Role-based access control definitions
+ * Maps each user role to the set of permissions it grants
+ */
+
+import { v } from "convex/values";
+
+export const roleValidator = v.union(
+  v.literal("admin"),
+  v.literal("moderator"),
+  v.literal("contributor")
+);
+
+export type Role = typeof roleValidator.type;
+
+export const permissionValidator = v.union(
+  v.literal("tools:submit"),
+  v.literal("tools:editAny"),
+  v.literal("tools:deleteAny"),
+  v.literal("tools:moderate"),
+  v.literal("reviews:write"),
+  v.literal("reviews:moderate"),
+  v.literal("users:manageRoles"),
+  v.literal("system:admin")
+);
+
+export type Permission = typeof permissionValidator.type;
+
+const CONTRIBUTOR_PERMISSIONS: Permission[] = ["tools:submit", "reviews:write"];
+
+const MODERATOR_PERMISSIONS: Permission[] = [
+  ...CONTRIBUTOR_PERMISSIONS,
+  "tools:editAny",
+  "tools:moderate",
+  "reviews:moderate",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  contributor: CONTRIBUTOR_PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  admin: [
+    ...MODERATOR_PERMISSIONS,
+    "tools:deleteAny",
+    "users:manageRoles",
+    "system:admin",
+  ],
+};
+
+// Users without an explicit role are regular contributors
+export const DEFAULT_ROLE: Role = "contributor";
@@ -0,0 +1,93 @@
+/**
+ * Tool URL slugs
+ * Every tool gets a unique slug from its name. When a tool is renamed or
+ * merged away its old slug moves to toolSlugHistory so existing links redirect.
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { slugify } from "./categories";
+
+// Longest base slug before a numeric suffix is added
+const MAX_SLUG_LENGTH = 80;
+
+/**
+ * Check whether a slug is free for a tool
+ * A slug is taken when another tool uses it now or used it before
+ */
+const isSlugAvailable = async (ctx: QueryCtx, slug: string, toolId?: Id<"aiTools">) => {
+  const current = await ctx.db
+    .query("aiTools")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  if (current && current._id !== toolId) {
+    return false;
+  }
+  const previous = await ctx.db
+    .query("toolSlugHistory")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  return !previous || previous.toolId === toolId;
+};
+
+/**
+ * Build a unique slug for a tool name
+ * Adds "-2", "-3", ... when the plain slug is taken
+ *
+ * @param toolId - Tool the slug is for, so it does not collide with itself
+ */
+export const generateUniqueSlug = async (
+  ctx: QueryCtx,
+  name: string,
+  toolId?: Id<"aiTools">
+) => {
+  const base = slugify(name).slice(0, MAX_SLUG_LENGTH).replace(/-+$/, "") || "tool";
+  let slug = base;
+  for (let suffix = 2; !(await isSlugAvailable(ctx, slug, toolId)); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+};
+
+/**
+ * Point an old slug at a tool, replacing any earlier history row for it
+ */
+export const recordSlugHistory = async (
+  ctx: MutationCtx,
+  slug: string,
+  toolId: Id<"aiTools">
+) => {
+  const existing = await ctx.db
+    .query("toolSlugHistory")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  if (existing) {
+    await ctx.db.patch(existing._id, { toolId });
+  } else {
+    await ctx.db.insert("toolSlugHistory", { slug, toolId, createdAt: Date.now() });
+  }
+};
+
+/**
+ * Give a renamed tool a slug for its new name and keep the old one as history
+ * A tool renamed back to an earlier name takes its old slug back
+ *
+ * @returns The new slug, or undefined when the slug stays the same
+ */
+export const renameToolSlug = async (ctx: MutationCtx, tool: Doc<"aiTools">, name: string) => {
+  const slug = await generateUniqueSlug(ctx, name, tool._id);
+  if (slug === tool.slug) {
+    return undefined;
+  }
+  if (tool.slug) {
+    await recordSlugHistory(ctx, tool.slug, tool._id);
+  }
+  const reclaimed = await ctx.db
+    .query("toolSlugHistory")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .first();
+  if (reclaimed) {
+    await ctx.db.delete(reclaimed._id);
+  }
+  return slug;
+};
@@ -0,0 +1,95 @@
+/**
+ * Tag registry helpers
+ * Tools store canonical tag names; alternative spellings are mapped onto
+ * them through the tagSynonyms table
+ */
+
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Normalize a tag for storage and lookup
+ * Lowercases, trims and collapses inner whitespace
+ */
+export const normalizeTag = (value: string) =>
+  value.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Map tags onto their canonical names and drop duplicates
+ * Tags without a synonym mapping are kept as they are
+ */
+export const canonicalizeTags = async (ctx: QueryCtx, tags: string[]) => {
+  const canonical: string[] = [];
+  for (const value of tags) {
+    const tag = normalizeTag(value);
+    if (!tag) {
+      continue;
+    }
+    const synonym = await ctx.db
+      .query("tagSynonyms")
+      .withIndex("by_synonym", (q) => q.eq("synonym", tag))
+      .first();
+    const name = synonym?.tag ?? tag;
+    if (!canonical.includes(name)) {
+      canonical.push(name);
+    }
+  }
+  return canonical;
+};
+
+/**
+ * Whether a tool's tags count towards the public usage counts
+ * Only approved, non-deleted tools count, so tags that only pending or
+ * rejected submissions carry stay out of autocomplete and the tag list
+ */
+export const isCountedTool = (tool: Pick<Doc<"aiTools">, "isApproved" | "deletedAt">) =>
+  tool.isApproved && tool.deletedAt === undefined;
+
+/**
+ * Add to the usage count of a tag, registering the tag if it is new
+ */
+const adjustUsageCount = async (ctx: MutationCtx, name: string, delta: number) => {
+  const tag = await ctx.db
+    .query("tags")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+  if (!tag) {
+    await ctx.db.insert("tags", { name, usageCount: Math.max(0, delta) });
+  } else if (delta !== 0) {
+    await ctx.db.patch(tag._id, { usageCount: Math.max(0, tag.usageCount + delta) });
+  }
+};
+
+/**
+ * Make the toolTags rows of a tool match its tags and keep usage counts current
+ * `counted` tells whether the tool counted towards usage before and after the
+ * change (see isCountedTool), so approving or hiding a tool moves its counts too
+ */
+export const syncToolTags = async (
+  ctx: MutationCtx,
+  toolId: Id<"aiTools">,
+  tags: string[],
+  counted: { before: boolean; after: boolean }
+) => {
+  const rows = await ctx.db
+    .query("toolTags")
+    .withIndex("by_tool", (q) => q.eq("toolId", toolId))
+    .collect();
+
+  for (const row of rows) {
+    if (!tags.includes(row.tag)) {
+      await ctx.db.delete(row._id);
+      if (counted.before) {
+        await adjustUsageCount(ctx, row.tag, -1);
+      }
+    } else if (counted.before !== counted.after) {
+      await adjustUsageCount(ctx, row.tag, counted.after ? 1 : -1);
+    }
+  }
+  for (const tag of new Set(tags)) {
+    if (!rows.some((row) => row.tag === tag)) {
+      await ctx.db.insert("toolTags", { toolId, tag });
+      await adjustUsageCount(ctx, tag, counted.after ? 1 : 0);
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildDraftPrompt, getDraftModel, parseToolDraft, stubDraftModel } from "./toolDrafts";
+
+const categories = [
+  { slug: "writing-content", labels: { en: "Writing & Content", vi: "Viết & Nội dung" }, aliases: ["writing"] },
+  { slug: "other", labels: { en: "Other", vi: "Khác" }, aliases: [] },
+];
+
+describe("getDraftModel", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("picks the model named by DRAFT_PROVIDER", () => {
+    vi.stubEnv("DRAFT_PROVIDER", "stub");
+    expect(getDraftModel()).toBe(stubDraftModel);
+  });
+
+  it("rejects unknown models", () => {
+    vi.stubEnv("DRAFT_PROVIDER", "nope");
+    expect(() => getDraftModel()).toThrow('Unknown DRAFT_PROVIDER "nope"');
+  });
+});
+
+describe("parseToolDraft", () => {
+  it("turns the stub model's canned reply into a submission", async () => {
+    const reply = await stubDraftModel.generate("ignored");
+    expect(parseToolDraft(reply, "https://example.com", categories)).toEqual({
+      name: "Example AI",
+      description: "Example AI drafts emails, posts and reports from short prompts.",
+      detail: "A canned draft returned by the stub model. Replace every field before submitting.",
+      url: "https://example.com",
+      category: "writing-content",
+      tags: ["writing", "email", "reports"],
+      pricing: "freemium",
+      language: "en",
+    });
+  });
+
+  it("accepts replies in code fences and keeps the submitted URL", () => {
+    const reply = '```json\n{"name":"Fenced","description":"A tool.","url":"https://elsewhere.test","category":"Writing & Content","tags":[],"pricing":"free","language":"en"}\n```';
+    const draft = parseToolDraft(reply, "https://fenced.test", categories);
+    expect(draft.url).toBe("https://fenced.test");
+    expect(draft.category).toBe("writing-content");
+  });
+
+  it("falls back to the other category", () => {
+    const reply = JSON.stringify({ name: "Odd", description: "Odd tool.", category: "astrology", tags: [], pricing: "paid", language: "en" });
+    expect(parseToolDraft(reply, "https://odd.test", categories).category).toBe("other");
+  });
+
+  it.each([
+    ["not json", "The model did not reply with valid JSON"],
+    ["[1, 2]", "The model did not reply with a JSON object"],
+  ])("rejects the reply %s", (reply, message) => {
+    expect(() => parseToolDraft(reply, "https://example.com", categories)).toThrow(message);
+  });
+});
+
+describe("buildDraftPrompt", () => {
+  it("lists the categories and the page, without empty fields", () => {
+    const prompt = buildDraftPrompt({ url: "https://example.com", title: "Example", text: "Page body" }, categories);
+    expect(prompt).toContain('"writing-content" (Writing & Content)');
+    expect(prompt).toContain("Title: Example");
+    expect(prompt).not.toContain("Meta description");
+    expect(prompt.endsWith("Page text:\nPage body")).toBe(true);
+  });
+});
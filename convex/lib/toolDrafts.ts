@@ -0,0 +1,137 @@
+/**
+ * Drafting a tool listing from its website with a language model
+ * Models only turn a prompt into text; pick one with DRAFT_PROVIDER ("gemini"
+ * by default, "stub" for a canned draft during local development). Whatever the
+ * model returns is checked against the addTool argument shape before use.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { generateText } from "./gemini";
+import { prepareToolSubmission, ToolSubmission } from "./toolHelpers";
+import { coerceToolRecord } from "./toolImport";
+import { FALLBACK_CATEGORY_SLUG, findCategory } from "./categories";
+
+export interface DraftModel {
+  name: string;
+  generate: (prompt: string) => Promise<string>;
+}
+
+export const geminiDraftModel: DraftModel = {
+  name: "gemini",
+  generate: (prompt) => generateText(prompt),
+};
+
+// Returned by the stub model whatever the page says
+const CANNED_DRAFT = {
+  name: "Example AI",
+  description: "Example AI drafts emails, posts and reports from short prompts.",
+  detail: "A canned draft returned by the stub model. Replace every field before submitting.",
+  category: "writing-content",
+  tags: ["writing", "email", "reports"],
+  pricing: "freemium",
+  language: "en",
+};
+
+export const stubDraftModel: DraftModel = {
+  name: "stub",
+  generate: async () => JSON.stringify(CANNED_DRAFT),
+};
+
+/**
+ * The model selected by the DRAFT_PROVIDER environment variable
+ *
+ * @throws Error if the variable names an unknown model
+ */
+export const getDraftModel = (): DraftModel => {
+  const name = process.env.DRAFT_PROVIDER ?? "gemini";
+  const model = [geminiDraftModel, stubDraftModel].find((candidate) => candidate.name === name);
+  if (!model) {
+    throw new Error(`Unknown DRAFT_PROVIDER "${name}"; use gemini or stub`);
+  }
+  return model;
+};
+
+export interface DraftPage {
+  url: string;
+  title?: string;
+  description?: string;
+  text: string;
+}
+
+type DraftCategory = Pick<Doc<"categories">, "slug" | "labels" | "aliases">;
+
+/**
+ * Prompt asking for the listing as a single JSON object
+ */
+export const buildDraftPrompt = (page: DraftPage, categories: DraftCategory[]) =>
+  [
+    "You write listings for a directory of AI tools. Draft a listing for the tool whose website is below.",
+    "Reply with one JSON object and nothing else, with exactly these keys:",
+    '- "name": the product name, without taglines',
+    '- "description": one or two sentences on what the tool does',
+    '- "detail": a longer paragraph on features and who it is for',
+    `- "category": one of ${categories.map((category) => `"${category.slug}" (${category.labels.en})`).join(", ")}`,
+    '- "tags": up to 8 short lowercase keywords',
+    '- "pricing": "free", "freemium" or "paid", your best guess from the page',
+    '- "language": "en" or "vi", the language the listing is written in; match the website',
+    "Only use facts from the page. Do not invent features or prices.",
+    "",
+    `URL: ${page.url}`,
+    page.title ? `Title: ${page.title}` : "",
+    page.description ? `Meta description: ${page.description}` : "",
+    "Page text:",
+    page.text,
+  ]
+    .filter((line, index, lines) => line !== "" || lines[index - 1] !== "")
+    .join("\n");
+
+/**
+ * Parse a model reply into a submission for the given URL
+ * Code fences around the JSON are tolerated; anything else that does not fit
+ * the addTool shape is rejected. Unknown categories fall back to "other".
+ *
+ * @throws Error describing why the reply cannot be used
+ */
+export const parseToolDraft = (
+  reply: string,
+  url: string,
+  categories: DraftCategory[]
+): ToolSubmission => {
+  const json = reply
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error("The model did not reply with valid JSON");
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("The model did not reply with a JSON object");
+  }
+
+  // Only the drafted fields are taken; the URL is the one that was submitted
+  const { name, description, detail, category, tags, pricing, language } = value as Record<string, unknown>;
+  const draft = coerceToolRecord({ name, description, detail, url, category, tags, pricing, language });
+
+  const categorySlug =
+    findCategory(draft.category, categories)?.slug ??
+    categories.find((candidate) => candidate.slug === FALLBACK_CATEGORY_SLUG)?.slug;
+  if (!categorySlug) {
+    throw new Error(`The model chose an unknown category "${draft.category}"`);
+  }
+
+  const submission = prepareToolSubmission({ ...draft, category: categorySlug });
+  return {
+    name: submission.name,
+    description: submission.description,
+    detail: submission.detail,
+    url: submission.url,
+    category: submission.category,
+    tags: submission.tags,
+    pricing: submission.pricing,
+    language: submission.language,
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { Doc } from "../_generated/dataModel";
+import { assertNoEditConflicts, buildDiff } from "./toolEdits";
+
+const edit = {
+  changes: { description: "A faster model", tags: ["llm", "chat"] },
+  baseValues: { description: "A model", tags: ["chat", "llm"] },
+} as unknown as Doc<"toolEdits">;
+
+const tool = {
+  name: "Example",
+  description: "A model",
+  tags: ["llm", "chat"],
+} as Doc<"aiTools">;
+
+describe("buildDiff", () => {
+  it("reports no conflict while the edited fields are unchanged", () => {
+    expect(buildDiff(edit, tool).map((entry) => entry.conflict)).toEqual([false, false]);
+  });
+
+  it("flags fields that changed after the edit was proposed", () => {
+    const changed = { ...tool, description: "A newer model" };
+    expect(buildDiff(edit, changed).filter((entry) => entry.conflict).map((entry) => entry.field)).toEqual([
+      "description",
+    ]);
+  });
+});
+
+describe("assertNoEditConflicts", () => {
+  it("accepts an edit made against the current values", () => {
+    expect(() => assertNoEditConflicts(edit, { ...tool, name: "Renamed" })).not.toThrow();
+  });
+
+  it("rejects an edit whose fields changed since it was proposed", () => {
+    const changed = { ...tool, description: "A newer model" };
+    expect(() => assertNoEditConflicts(edit, changed)).toThrow(/changed since this edit was proposed \(description\)/);
+  });
+
+  it("applies a conflicting edit when the reviewer overrides", () => {
+    const changed = { ...tool, description: "A newer model" };
+    expect(() => assertNoEditConflicts(edit, changed, true)).not.toThrow();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Diffing of proposed tool edits against the live tool
+ * Pure functions, so conflict detection can be checked without a database.
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { EDITABLE_TOOL_FIELDS, EditableToolFields, fieldValueEqual } from "./toolHelpers";
+
+export const changedFields = (changes: EditableToolFields) =>
+  EDITABLE_TOOL_FIELDS.filter((field) => changes[field] !== undefined);
+
+/**
+ * Build a per-field before/after diff for an edit
+ * `conflict` is true when the tool changed after the edit was proposed
+ */
+export const buildDiff = (edit: Doc<"toolEdits">, tool: Doc<"aiTools"> | null) =>
+  changedFields(edit.changes).map((field) => {
+    const current = tool ? tool[field] : undefined;
+    return {
+      field,
+      before: edit.baseValues[field],
+      after: edit.changes[field],
+      current,
+      conflict: !fieldValueEqual(current, edit.baseValues[field]),
+    };
+  });
+
+/**
+ * Refuse to apply an edit whose fields changed on the tool since it was
+ * proposed, so a stale edit cannot silently overwrite newer values
+ * Reviewers who have compared the current values pass `overrideConflicts`
+ */
+export const assertNoEditConflicts = (
+  edit: Doc<"toolEdits">,
+  tool: Doc<"aiTools">,
+  overrideConflicts = false
+) => {
+  if (overrideConflicts) {
+    return;
+  }
+  const conflicts = buildDiff(edit, tool).filter((entry) => entry.conflict);
+  if (conflicts.length > 0) {
+    const fields = conflicts.map((entry) => entry.field).join(", ");
+    throw new Error(
+      `The tool changed since this edit was proposed (${fields}); review the current values and accept with overrideConflicts`
+    );
+  }
+};
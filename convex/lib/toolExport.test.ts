@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  ExportFormat,
+  ExportRecord,
+  formatExport,
+  formatExportEnd,
+  formatExportRecords,
+  formatExportStart,
+} from "./toolExport";
+
+const record: ExportRecord = {
+  id: "tool1",
+  name: "=HYPERLINK(\"https://evil.example\")",
+  description: "+1 for speed, -1 for price",
+  url: "https://acme.example",
+  category: "writing-content",
+  categories: ["writing-content"],
+  tags: ["@mention", "email"],
+  pricing: "free",
+  language: "en",
+  lifecycleStatus: "active",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  averageRating: 4.5,
+  totalReviews: 2,
+  totalFavourites: 0,
+};
+
+const options = { includeAggregates: true, includeEmbeddings: false };
+
+describe("formatExport", () => {
+  it("keeps cells that look like formulas as text in CSV", () => {
+    const [, row] = formatExport([record], "csv", options).split("\r\n");
+    expect(row).toContain(`"'=HYPERLINK(""https://evil.example"")"`);
+    expect(row).toContain(`"'+1 for speed, -1 for price"`);
+    expect(row).toContain(",'@mention;email,");
+    expect(row.endsWith(",4.5,2,0")).toBe(true);
+  });
+
+  it("leaves JSON values untouched", () => {
+    expect(JSON.parse(formatExport([record], "json", options))[0].name).toBe(record.name);
+  });
+
+  it("writes JSON the way JSON.stringify does", () => {
+    const records = [record, { ...record, id: "tool2" }];
+    expect(formatExport(records, "json", options)).toBe(JSON.stringify(records, null, 2));
+    expect(formatExport([], "json", options)).toBe("[]");
+  });
+
+  it.each<ExportFormat>(["json", "jsonl", "csv"])("streams %s page by page", (format) => {
+    const records = [record, { ...record, id: "tool2" }, { ...record, id: "tool3" }];
+    const pages = [records.slice(0, 2), [], records.slice(2)];
+    let written = 0;
+    let streamed = formatExportStart(format, options);
+    for (const page of pages) {
+      streamed += formatExportRecords(page, format, options, written);
+      written += page.length;
+    }
+    streamed += formatExportEnd(format, written);
+    expect(streamed).toBe(formatExport(records, format, options));
+  });
+});
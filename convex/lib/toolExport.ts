@@ -0,0 +1,193 @@
+/**
+ * Formatting helpers for catalog export
+ * Records keep the import field names first, so a JSONL export can be fed
+ * straight back into toolImport.importTools
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { getLifecycleStatus } from "./lifecycle";
+import { getToolCategories } from "./categories";
+
+export type ExportFormat = "json" | "jsonl" | "csv";
+
+export interface ExportOptions {
+  includeAggregates: boolean;
+  includeEmbeddings: boolean;
+}
+
+export interface ExportRecord {
+  name: string;
+  description: string;
+  detail?: string;
+  url: string;
+  category: string;
+  categories: string[];
+  tags: string[];
+  pricing: Doc<"aiTools">["pricing"];
+  plans?: Doc<"aiTools">["plans"];
+  language: Doc<"aiTools">["language"];
+  translations?: Doc<"aiTools">["translations"];
+  logoUrl?: string;
+  lifecycleStatus: NonNullable<Doc<"aiTools">["lifecycleStatus"]>;
+  id: string;
+  createdAt: string;
+  averageRating?: number;
+  totalReviews?: number;
+  totalFavourites?: number;
+  embedding?: number[];
+  embeddingVersion?: string;
+}
+
+const BASE_COLUMNS = [
+  "id",
+  "name",
+  "description",
+  "detail",
+  "url",
+  "category",
+  "categories",
+  "tags",
+  "pricing",
+  "plans",
+  "language",
+  "translations",
+  "logoUrl",
+  "lifecycleStatus",
+  "createdAt",
+] as const;
+
+const AGGREGATE_COLUMNS = ["averageRating", "totalReviews", "totalFavourites"] as const;
+
+const EMBEDDING_COLUMNS = ["embeddingVersion", "embedding"] as const;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+/**
+ * Convert a tool to its public export shape
+ * Moderation, ownership and soft-delete fields are never exported
+ */
+export function toExportRecord(tool: Doc<"aiTools">, options: ExportOptions): ExportRecord {
+  const record: ExportRecord = {
+    name: tool.name,
+    description: tool.description,
+    detail: tool.detail,
+    url: tool.url,
+    category: tool.category,
+    categories: getToolCategories(tool),
+    tags: tool.tags,
+    pricing: tool.pricing,
+    plans: tool.plans,
+    language: tool.language,
+    translations: tool.translations,
+    logoUrl: tool.logoUrl,
+    lifecycleStatus: getLifecycleStatus(tool),
+    id: tool._id,
+    createdAt: new Date(tool._creationTime).toISOString(),
+  };
+
+  if (options.includeAggregates) {
+    record.averageRating = tool.averageRating ?? 0;
+    record.totalReviews = tool.totalReviews ?? 0;
+    record.totalFavourites = tool.totalFavourites ?? 0;
+  }
+  if (options.includeEmbeddings) {
+    record.embedding = tool.embedding;
+    record.embeddingVersion = tool.embeddingVersion;
+  }
+
+  return record;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const joined = Array.isArray(value)
+    ? value.every((item) => typeof item === "string")
+      ? value.join(";")
+      : JSON.stringify(value)
+    : String(value);
+  // Names and descriptions are user-submitted, so a leading ' keeps them as text
+  const text = typeof value !== "number" && FORMULA_PREFIX.test(joined) ? `'${joined}` : joined;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const exportColumns = (options: ExportOptions): readonly (keyof ExportRecord)[] => [
+  ...BASE_COLUMNS,
+  ...(options.includeAggregates ? AGGREGATE_COLUMNS : []),
+  ...(options.includeEmbeddings ? EMBEDDING_COLUMNS : []),
+];
+
+/**
+ * Opening of an export file: the JSON bracket or the CSV header
+ */
+export function formatExportStart(format: ExportFormat, options: ExportOptions): string {
+  if (format === "json") {
+    return "[";
+  }
+  return format === "csv" ? exportColumns(options).join(",") : "";
+}
+
+/**
+ * Serialize one page of records, to follow the `written` records already sent
+ * Pages can be streamed one after another between the start and the end
+ */
+export function formatExportRecords(
+  records: ExportRecord[],
+  format: ExportFormat,
+  options: ExportOptions,
+  written: number
+): string {
+  if (format === "json") {
+    return records
+      .map((record, index) => {
+        const separator = written + index > 0 ? ",\n  " : "\n  ";
+        return separator + JSON.stringify(record, null, 2).replace(/\n/g, "\n  ");
+      })
+      .join("");
+  }
+  if (format === "jsonl") {
+    return records
+      .map((record, index) => (written + index > 0 ? "\n" : "") + JSON.stringify(record))
+      .join("");
+  }
+
+  const columns = exportColumns(options);
+  return records
+    .map((record) => "\r\n" + columns.map((column) => csvCell(record[column])).join(","))
+    .join("");
+}
+
+/**
+ * Closing of an export file that holds `written` records
+ */
+export function formatExportEnd(format: ExportFormat, written: number): string {
+  if (format !== "json") {
+    return "";
+  }
+  return written > 0 ? "\n]" : "]";
+}
+
+/**
+ * Serialize export records
+ * CSV joins tags and categories with ";" and writes plans, translations and
+ * embeddings as JSON arrays
+ */
+export function formatExport(
+  records: ExportRecord[],
+  format: ExportFormat,
+  options: ExportOptions
+): string {
+  return (
+    formatExportStart(format, options) +
+    formatExportRecords(records, format, options, 0) +
+    formatExportEnd(format, records.length)
+  );
+}
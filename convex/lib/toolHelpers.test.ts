@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { normalizeUrl } from "./toolHelpers";
+
+describe("normalizeUrl", () => {
+  it("ignores the scheme, www., the host case and tracking parameters", () => {
+    expect(normalizeUrl("https://www.X.ai/?utm_source=a")).toBe("x.ai");
+    expect(normalizeUrl("http://x.ai")).toBe("x.ai");
+  });
+
+  it("keeps the case of paths and parameters", () => {
+    expect(normalizeUrl("https://Example.com/Tools/AbC?id=XyZ")).toBe("example.com/Tools/AbC?id=XyZ");
+    expect(normalizeUrl("https://example.com/abc")).not.toBe(normalizeUrl("https://example.com/ABC"));
+  });
+
+  it("sorts the remaining parameters", () => {
+    expect(normalizeUrl("https://example.com/?b=2&a=1&fbclid=x")).toBe("example.com?a=1&b=2");
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tool field helpers
+ * Normalization and validation shared by every code path that writes aiTools documents
+ */
+
+import { v } from "convex/values";
+import { QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { cleanPricingPlans, derivePricing, pricingPlanValidator } from "./pricing";
+import { cleanTranslations, toolTranslationValidator } from "./localization";
+import { lifecycleStatusValidator } from "./lifecycle";
+
+export const pricingValidator = v.union(
+  v.literal("free"),
+  v.literal("freemium"),
+  v.literal("paid")
+);
+
+/**
+ * Fields of a tool that users can change after submission
+ * Every field is optional so the object can describe a partial change set
+ */
+export const editableToolFieldsValidator = v.object({
+  name: v.optional(v.string()),
+  description: v.optional(v.string()),
+  detail: v.optional(v.string()),
+  url: v.optional(v.string()),
+  category: v.optional(v.string()),
+  categories: v.optional(v.array(v.string())),
+  tags: v.optional(v.array(v.string())),
+  pricing: v.optional(pricingValidator),
+  plans: v.optional(v.array(pricingPlanValidator)),
+  translations: v.optional(v.array(toolTranslationValidator)),
+  logoUrl: v.optional(v.string()),
+  lifecycleStatus: v.optional(lifecycleStatusValidator),
+  successorToolId: v.optional(v.id("aiTools")),
+});
+
+export type EditableToolFields = typeof editableToolFieldsValidator.type;
+
+export const EDITABLE_TOOL_FIELDS = [
+  "name",
+  "description",
+  "detail",
+  "url",
+  "category",
+  "categories",
+  "tags",
+  "pricing",
+  "plans",
+  "translations",
+  "logoUrl",
+  "lifecycleStatus",
+  "successorToolId",
+] as const;
+
+// Fields that feed createEmbeddingText; changing them makes the embedding stale
+export const EMBEDDING_TOOL_FIELDS = [
+  "name",
+  "description",
+  "detail",
+  "category",
+  "categories",
+  "tags",
+  "pricing",
+  "translations",
+] as const;
+
+export const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "")
+    .trim();
+
+// Query parameters that only record where a visitor came from
+const TRACKING_PARAM_PATTERN =
+  /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src)$/i;
+
+/**
+ * Canonical form of a tool URL, used for duplicate detection
+ * Drops the scheme, "www.", tracking parameters, the fragment and trailing
+ * slashes and sorts the remaining parameters, so `https://www.X.ai/?utm_source=a`
+ * and `http://x.ai` normalize the same. Only the host is case-insensitive
+ * (URL lowercases it); paths and parameters keep their case.
+ */
+export const normalizeUrl = (url: string): string => {
+  try {
+    const urlObj = new URL(url.trim());
+    const host = urlObj.hostname.replace(/^www\./i, "");
+    const port = urlObj.port ? `:${urlObj.port}` : "";
+    const path = urlObj.pathname.replace(/\/+$/, "");
+    const params = [...urlObj.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+    return `${host}${port}${path}${search}`;
+  } catch {
+    // If URL is invalid, return trimmed version
+    return url.trim().replace(/\/$/, '');
+  }
+};
+
+/**
+ * Trim, lowercase and de-blank tags, keeping at most 10
+ */
+export const cleanTags = (tags: string[]): string[] =>
+  tags
+    .filter(tag => tag.trim().length > 0)
+    .map(tag => tag.trim().toLowerCase())
+    .slice(0, 10); // Limit to 10 tags
+
+/**
+ * Validate that a URL is well-formed and uses http(s)
+ * @throws Error with a user-facing message if the URL is invalid
+ */
+export const assertValidToolUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    if (!url.protocol.match(/^https?:$/)) {
+      throw new Error("URL must use http:// or https:// protocol");
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("protocol")) {
+      throw error;
+    }
+    throw new Error("Please provide a valid URL starting with http:// or https://");
+  }
+};
+
+/**
+ * Order-independent comparison of two tag lists
+ */
+export const tagsEqual = (a: string[], b: string[]) => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && [...setA].every(tag => setB.has(tag));
+};
+
+/**
+ * Compare a single tool field, treating string lists such as tags as a set
+ */
+export const fieldValueEqual = (a: unknown, b: unknown) => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const isStringList = [...a, ...b].every((item) => typeof item === "string");
+    return isStringList ? tagsEqual(a, b) : JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+};
+
+export const languageValidator = v.union(v.literal("en"), v.literal("vi"));
+
+/**
+ * Argument shape of a new tool submission (addTool and bulk import)
+ */
+export const toolSubmissionValidator = v.object({
+  name: v.string(),
+  description: v.string(),
+  detail: v.optional(v.string()),
+  url: v.string(),
+  category: v.string(), // Primary category, shown on cards
+  categories: v.optional(v.array(v.string())), // All categories; the primary is added if missing
+  tags: v.array(v.string()),
+  pricing: pricingValidator, // Replaced by the value derived from plans when plans are given
+  plans: v.optional(v.array(pricingPlanValidator)),
+  language: languageValidator, // Language of name, description and detail
+  translations: v.optional(v.array(toolTranslationValidator)), // Content in the other languages
+  logoUrl: v.optional(v.string()),
+});
+
+export type ToolSubmission = typeof toolSubmissionValidator.type;
+
+/**
+ * Validate and clean a new tool submission
+ * Trims every field, checks required fields and the URL, cleans tags and
+ * derives the coarse pricing from the plans
+ *
+ * @returns The cleaned fields plus the normalized name and URL used for duplicate checks
+ * @throws Error with a user-facing message for the first invalid field
+ */
+export const prepareToolSubmission = (args: ToolSubmission) => {
+  const name = args.name.trim();
+
+  // Validate required fields
+  if (!name) {
+    throw new Error("Tool name is required");
+  }
+  if (!args.description.trim()) {
+    throw new Error("Tool description is required");
+  }
+  if (!args.url.trim()) {
+    throw new Error("Tool URL is required");
+  }
+  if (!args.category.trim()) {
+    throw new Error("Tool category is required");
+  }
+
+  // Validate URL format
+  assertValidToolUrl(args.url.trim());
+
+  const plans = args.plans ? cleanPricingPlans(args.plans) : undefined;
+
+  return {
+    name,
+    description: args.description.trim(),
+    detail: args.detail?.trim() || undefined,
+    url: args.url.trim(),
+    category: args.category.trim(),
+    categories: args.categories?.map((category) => category.trim()).filter(Boolean),
+    tags: cleanTags(args.tags),
+    pricing: derivePricing(plans) ?? args.pricing,
+    plans,
+    language: args.language,
+    translations: args.translations
+      ? cleanTranslations(args.translations, args.language)
+      : undefined,
+    logoUrl: args.logoUrl?.trim() || undefined,
+    normalizedName: normalizeName(name),
+    normalizedUrl: normalizeUrl(args.url),
+  };
+};
+
+/**
+ * Reject a name or URL that another tool already uses
+ * Pass only the fields that are changing; excludeToolId skips the tool being edited
+ * @throws Error naming the conflicting tool
+ */
+export const assertNoDuplicateTool = async (
+  ctx: QueryCtx,
+  args: { name?: string; url?: string; excludeToolId?: Id<"aiTools"> }
+) => {
+  if (args.url !== undefined) {
+    const url = args.url;
+    const urlDuplicate = await ctx.db
+      .query("aiTools")
+      .withIndex("by_url", (q) => q.eq("url", url))
+      .first();
+
+    if (urlDuplicate && urlDuplicate._id !== args.excludeToolId) {
+      throw new Error(`This URL is already used by "${urlDuplicate.name}"`);
+    }
+
+    const normalizedUrl = normalizeUrl(url);
+    const normalizedUrlDuplicate = await ctx.db
+      .query("aiTools")
+      .withIndex("by_normalizedUrl", (q) => q.eq("normalizedUrl", normalizedUrl))
+      .first();
+
+    if (normalizedUrlDuplicate && normalizedUrlDuplicate._id !== args.excludeToolId) {
+      throw new Error(`This URL is already used by "${normalizedUrlDuplicate.name}"`);
+    }
+  }
+
+  if (args.name !== undefined) {
+    const name = args.name;
+    const normalizedName = normalizeName(name);
+    const normalizedDuplicate = await ctx.db
+      .query("aiTools")
+      .withIndex("by_normalizedName", (q) => q.eq("normalizedName", normalizedName))
+      .first();
+
+    if (normalizedDuplicate && normalizedDuplicate._id !== args.excludeToolId) {
+      throw new Error(`A tool named "${normalizedDuplicate.name}" already exists`);
+    }
+  }
+};
@@ -0,0 +1,61 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseToolRecords } from "./toolImport";
+
+const readRepoFile = (name: string) => readFileSync(new URL(`../../${name}`, import.meta.url), "utf8");
+
+describe("parseToolRecords", () => {
+  it("reads strict JSONL line by line", () => {
+    const records = parseToolRecords('{"name":"A"}\n\n{"name":"B"}\n');
+    expect(records).toEqual([
+      { line: 1, value: { name: "A" } },
+      { line: 3, value: { name: "B" } },
+    ]);
+  });
+
+  it("leaves colons and commas inside strings alone", () => {
+    const records = parseToolRecords(
+      ['{', '  name: "Voice Bot",', '  description: "Fast, cheap, voice: yes",', "  tags: ['a', 'it\\'s'],", "}"].join("\n")
+    );
+    expect(records).toEqual([
+      { line: 1, value: { name: "Voice Bot", description: "Fast, cheap, voice: yes", tags: ["a", "it's"] } },
+    ]);
+  });
+
+  it("only sends the failing lines to the loose parser", () => {
+    const text = [
+      '{"name":"Strict","description":"a, b: c"}',
+      "{",
+      '  name: "Loose" as const,',
+      "},",
+      '{"name":"Also strict"}',
+    ].join("\n");
+    expect(parseToolRecords(text)).toEqual([
+      { line: 1, value: { name: "Strict", description: "a, b: c" } },
+      { line: 2, value: { name: "Loose" } },
+      { line: 5, value: { name: "Also strict" } },
+    ]);
+  });
+
+  it("reports lines that belong to no record", () => {
+    const records = parseToolRecords('{"name":"A"}\nnot a record\n[\n// More tools\n{"name":"B"}\n]');
+    expect(records).toEqual([
+      { line: 1, value: { name: "A" } },
+      { line: 2, error: "Not part of any record" },
+      { line: 5, value: { name: "B" } },
+    ]);
+  });
+
+  it("reports broken records with their start line", () => {
+    const [record, broken] = parseToolRecords('{"name":"A"}\n{\n  name: "B"\n  url: "x"\n}');
+    expect(record).toEqual({ line: 1, value: { name: "A" } });
+    expect(broken.line).toBe(2);
+    expect(broken.error).toMatch(/^Invalid record syntax/);
+  });
+
+  it.each(["sample.jsonl", "detail.jsonl"])("parses every record in %s", (name) => {
+    const records = parseToolRecords(readRepoFile(name));
+    expect(records.length).toBeGreaterThan(0);
+    expect(records.filter((record) => record.error)).toEqual([]);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Parsing helpers for bulk tool import
+ * Accepts strict JSONL (one object per line) as well as the pretty-printed
+ * object lists in sample.jsonl and detail.jsonl, which span several lines,
+ * use unquoted keys or `as const`, and leave trailing commas
+ */
+
+import { ToolSubmission } from "./toolHelpers";
+import { PricingPlan } from "./pricing";
+import { ToolTranslation } from "./localization";
+
+export interface ParsedRecord {
+  line: number; // 1-based line where the record starts
+  value?: unknown;
+  error?: string;
+}
+
+/**
+ * Split source into code and string-literal pieces, so rewrites can leave
+ * string contents alone
+ */
+const splitStringLiterals = (source: string) => {
+  const pieces: Array<{ code: string } | { literal: string; quote: string }> = [];
+  let codeStart = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const quote = source[i];
+    if (quote !== '"' && quote !== "'") {
+      continue;
+    }
+    let end = i + 1;
+    while (end < source.length && source[end] !== quote) {
+      end += source[end] === "\\" ? 2 : 1;
+    }
+    pieces.push({ code: source.slice(codeStart, i) });
+    pieces.push({ literal: source.slice(i + 1, end), quote });
+    i = end;
+    codeStart = end + 1;
+  }
+  pieces.push({ code: source.slice(codeStart) });
+
+  return pieces;
+};
+
+/**
+ * Turn a JavaScript-style object literal into JSON
+ * Strips `//` comments and TypeScript `as const`, quotes bare keys, drops
+ * trailing commas and turns single-quoted strings into JSON strings
+ */
+const looseObjectToJson = (source: string) =>
+  splitStringLiterals(source)
+    .map((piece) => {
+      if ("code" in piece) {
+        return piece.code
+          .replace(/\/\/[^\n]*/g, "")
+          .replace(/\s+as\s+const\b/g, "")
+          .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":')
+          .replace(/,(\s*[}\]])/g, "$1");
+      }
+      if (piece.quote === '"') {
+        return `"${piece.literal}"`;
+      }
+      return `"${piece.literal.replace(/\\(.)|"/g, (match, escaped?: string) =>
+        escaped === undefined ? '\\"' : escaped === "'" ? "'" : match
+      )}"`;
+    })
+    .join("");
+
+/**
+ * Split text into top-level `{ ... }` segments, ignoring braces inside strings
+ */
+const splitObjects = (text: string) => {
+  const segments: Array<{ start: number; end: number; source: string }> = [];
+  let depth = 0;
+  let start = -1;
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "{") {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        segments.push({ start, end: i, source: text.slice(start, i + 1) });
+      }
+    }
+  }
+
+  return segments;
+};
+
+const lineAt = (text: string, index: number) =>
+  text.slice(0, index).split("\n").length;
+
+// Lines that only separate records: list punctuation such as "[", "]" or ","
+// and "//" comments
+const isSeparatorLine = (content: string) => /^([[\],]+|\/\/.*)$/.test(content);
+
+/**
+ * Parse import text into records, keeping the source line of each one
+ * Each line is first read as strict JSONL; the lines that fail are scanned for
+ * multi-line object literals. Records that fail to parse, and non-blank lines
+ * that belong to no record, are returned with an error instead of a value.
+ */
+export function parseToolRecords(text: string): ParsedRecord[] {
+  const lines = text.split("\n");
+  const records: ParsedRecord[] = [];
+  const covered = new Set<number>();
+
+  // Strict JSONL: a complete JSON object on one line
+  lines.forEach((content, index) => {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith("{")) {
+      return;
+    }
+    try {
+      records.push({ line: index + 1, value: JSON.parse(trimmed) as unknown });
+      covered.add(index + 1);
+    } catch {
+      // Left to the loose parser
+    }
+  });
+
+  // Loose records in what is left; parsed lines are blanked so line numbers hold
+  const remaining = lines
+    .map((content, index) => (covered.has(index + 1) ? "" : content))
+    .join("\n");
+  for (const { start, end, source } of splitObjects(remaining)) {
+    const line = lineAt(remaining, start);
+    const endLine = lineAt(remaining, end);
+    for (let covering = line; covering <= endLine; covering++) {
+      covered.add(covering);
+    }
+    try {
+      records.push({ line, value: JSON.parse(looseObjectToJson(source)) as unknown });
+    } catch (error) {
+      records.push({
+        line,
+        error: `Invalid record syntax: ${error instanceof Error ? error.message : "unknown error"}`,
+      });
+    }
+  }
+
+  lines.forEach((content, index) => {
+    const trimmed = content.trim();
+    if (trimmed && !covered.has(index + 1) && !isSeparatorLine(trimmed)) {
+      records.push({ line: index + 1, error: "Not part of any record" });
+    }
+  });
+
+  return records.sort((a, b) => a.line - b.line);
+}
+
+const optionalString = (record: Record<string, unknown>, field: string) => {
+  const value = record[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`"${field}" must be a string`);
+  }
+  return value;
+};
+
+const requiredString = (record: Record<string, unknown>, field: string) => {
+  const value = optionalString(record, field);
+  if (value === undefined) {
+    throw new Error(`"${field}" is required`);
+  }
+  return value;
+};
+
+const BILLING_PERIODS = ["month", "year", "one-time", "usage"];
+
+/**
+ * Check that a parsed plan has the pricingPlanValidator shape
+ * Values are range-checked later by cleanPricingPlans
+ */
+const coercePricingPlan = (value: unknown, index: number): PricingPlan => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`"plans[${index}]" must be an object`);
+  }
+  const plan = value as Record<string, unknown>;
+  const field = (name: string) => `plans[${index}].${name}`;
+
+  const optionalNumber = (name: string) => {
+    const number = plan[name];
+    if (number !== undefined && number !== null && typeof number !== "number") {
+      throw new Error(`"${field(name)}" must be a number`);
+    }
+    return (number ?? undefined) as number | undefined;
+  };
+
+  const billingPeriod = optionalString(plan, "billingPeriod");
+  if (billingPeriod !== undefined && !BILLING_PERIODS.includes(billingPeriod)) {
+    throw new Error(`"${field("billingPeriod")}" must be one of ${BILLING_PERIODS.join(", ")}`);
+  }
+  if (plan.contactSales !== undefined && typeof plan.contactSales !== "boolean") {
+    throw new Error(`"${field("contactSales")}" must be true or false`);
+  }
+
+  return {
+    name: requiredString(plan, "name"),
+    price: optionalNumber("price"),
+    currency: optionalString(plan, "currency"),
+    billingPeriod: billingPeriod as PricingPlan["billingPeriod"],
+    freeTrialDays: optionalNumber("freeTrialDays"),
+    contactSales: plan.contactSales as boolean | undefined,
+  };
+};
+
+/**
+ * Check that a parsed translation has the toolTranslationValidator shape
+ * Duplicate or primary-language entries are rejected later by cleanTranslations
+ */
+const coerceTranslation = (value: unknown, index: number): ToolTranslation => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`"translations[${index}]" must be an object`);
+  }
+  const translation = value as Record<string, unknown>;
+
+  const language = requiredString(translation, "language");
+  if (language !== "en" && language !== "vi") {
+    throw new Error(`"translations[${index}].language" must be en or vi (got "${language}")`);
+  }
+
+  return {
+    language,
+    name: requiredString(translation, "name"),
+    description: requiredString(translation, "description"),
+    detail: optionalString(translation, "detail"),
+  };
+};
+
+/**
+ * Check that a parsed record has the addTool argument shape
+ * Extra fields such as `isApproved` are ignored; `language` defaults to "en"
+ *
+ * @throws Error describing the first field with the wrong type
+ */
+export function coerceToolRecord(value: unknown): ToolSubmission {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Record must be an object");
+  }
+  const record = value as Record<string, unknown>;
+
+  const tags = record.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+    throw new Error(`"tags" must be an array of strings`);
+  }
+
+  const categories = record.categories;
+  if (
+    categories !== undefined &&
+    (!Array.isArray(categories) || !categories.every((category) => typeof category === "string"))
+  ) {
+    throw new Error(`"categories" must be an array of strings`);
+  }
+
+  const plans = record.plans ?? undefined;
+  if (plans !== undefined && !Array.isArray(plans)) {
+    throw new Error(`"plans" must be an array`);
+  }
+
+  const translations = record.translations ?? undefined;
+  if (translations !== undefined && !Array.isArray(translations)) {
+    throw new Error(`"translations" must be an array`);
+  }
+
+  const pricing = requiredString(record, "pricing");
+  if (pricing !== "free" && pricing !== "freemium" && pricing !== "paid") {
+    throw new Error(`"pricing" must be one of free, freemium, paid (got "${pricing}")`);
+  }
+
+  const language = optionalString(record, "language") ?? "en";
+  if (language !== "en" && language !== "vi") {
+    throw new Error(`"language" must be en or vi (got "${language}")`);
+  }
+
+  return {
+    name: requiredString(record, "name"),
+    description: requiredString(record, "description"),
+    detail: optionalString(record, "detail"),
+    url: requiredString(record, "url"),
+    category: requiredString(record, "category"),
+    categories: categories as string[] | undefined,
+    tags: tags as string[],
+    pricing,
+    plans: plans?.map(coercePricingPlan),
+    language,
+    translations: translations?.map(coerceTranslation),
+    logoUrl: optionalString(record, "logoUrl"),
+  };
+}
+
+/**
+ * Fields an enrichment record may carry, plus the keys used to match it
+ */
+export interface EnrichmentRecord {
+  name?: string;
+  url?: string;
+  detail?: string;
+  logoUrl?: string;
+  tags?: string[];
+}
+
+/**
+ * Check that a parsed record can be used for enrichment
+ * Only `name` or `url` is required; every other field is optional
+ *
+ * @throws Error describing the first field with the wrong type
+ */
+export function coerceEnrichmentRecord(value: unknown): EnrichmentRecord {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Record must be an object");
+  }
+  const record = value as Record<string, unknown>;
+
+  const tags = record.tags;
+  if (
+    tags !== undefined &&
+    (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string"))
+  ) {
+    throw new Error(`"tags" must be an array of strings`);
+  }
+
+  const name = optionalString(record, "name")?.trim() || undefined;
+  const url = optionalString(record, "url")?.trim() || undefined;
+  if (!name && !url) {
+    throw new Error(`"name" or "url" is required to match a tool`);
+  }
+
+  return {
+    name,
+    url,
+    detail: optionalString(record, "detail")?.trim() || undefined,
+    logoUrl: optionalString(record, "logoUrl")?.trim() || undefined,
+    tags: tags as string[] | undefined,
+  };
+}
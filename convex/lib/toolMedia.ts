@@ -0,0 +1,81 @@
+/**
+ * Tool gallery helpers
+ * Screenshots are uploaded into storage like logos; videos are links to a
+ * hosting site and are shown through that site's embeddable player.
+ */
+
+import { LOGO_CONTENT_TYPES } from "./logos";
+import { MEDIA_CAPTION_MAX_LENGTH, MEDIA_MAX_BYTES } from "./constants";
+
+/**
+ * Why a file cannot be used as a screenshot, or undefined if it can
+ */
+export const getScreenshotProblem = (contentType: string | undefined, size: number) => {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (!type || !LOGO_CONTENT_TYPES.includes(type)) {
+    return `Screenshots must be PNG, JPEG, WebP or GIF images${type ? ` (got ${type})` : ""}`;
+  }
+  if (size > MEDIA_MAX_BYTES) {
+    return `Screenshots must be at most ${Math.round(MEDIA_MAX_BYTES / (1024 * 1024))} MB`;
+  }
+  return undefined;
+};
+
+/**
+ * Player URL for a YouTube, Vimeo or Loom link
+ *
+ * @returns The embed URL, or undefined if the link is not from a supported site
+ */
+export const getVideoEmbedUrl = (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return undefined;
+  }
+
+  const host = parsed.hostname.replace(/^(www\.|m\.)/, "");
+  const segments = parsed.pathname.split("/").filter(Boolean);
+
+  if (host === "youtube.com" || host === "youtube-nocookie.com") {
+    const id =
+      segments[0] === "watch"
+        ? parsed.searchParams.get("v")
+        : ["embed", "shorts", "live"].includes(segments[0])
+          ? segments[1]
+          : undefined;
+    return id && /^[\w-]{11}$/.test(id) ? `https://www.youtube-nocookie.com/embed/${id}` : undefined;
+  }
+  if (host === "youtu.be") {
+    const id = segments[0];
+    return id && /^[\w-]{11}$/.test(id) ? `https://www.youtube-nocookie.com/embed/${id}` : undefined;
+  }
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = segments.find((segment) => /^\d+$/.test(segment));
+    return id ? `https://player.vimeo.com/video/${id}` : undefined;
+  }
+  if (host === "loom.com") {
+    const id = ["share", "embed"].includes(segments[0]) ? segments[1] : undefined;
+    return id && /^[\da-f]+$/i.test(id) ? `https://www.loom.com/embed/${id}` : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Trim a caption, dropping it when empty
+ *
+ * @throws Error if the caption is too long
+ */
+export const normalizeCaption = (caption: string | undefined) => {
+  const trimmed = caption?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length > MEDIA_CAPTION_MAX_LENGTH) {
+    throw new Error(`Captions must be at most ${MEDIA_CAPTION_MAX_LENGTH} characters`);
+  }
+  return trimmed;
+};
@@ -0,0 +1,87 @@
+/**
+ * Typed relations between tools
+ * A relation reads from → to: "Cursor built-on VS Code". Alternatives and
+ * integrations hold both ways, so they are stored once and read from either
+ * end; built-on only holds in the stored direction.
+ */
+
+import { v } from "convex/values";
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+export const toolRelationTypeValidator = v.union(
+  v.literal("alternative-to"),
+  v.literal("integrates-with"),
+  v.literal("built-on")
+);
+
+export type ToolRelationType = typeof toolRelationTypeValidator.type;
+
+// Relation types that read the same in both directions
+export const SYMMETRIC_RELATION_TYPES: readonly ToolRelationType[] = ["alternative-to", "integrates-with"];
+
+export const isSymmetricRelation = (type: ToolRelationType) => SYMMETRIC_RELATION_TYPES.includes(type);
+
+/**
+ * Relations of one type touching a tool, in the given status
+ *
+ * @param direction - "outgoing" for relations from the tool, "incoming" for
+ * relations to it, "both" for either
+ */
+export const getToolRelations = async (
+  ctx: QueryCtx,
+  toolId: Id<"aiTools">,
+  type: ToolRelationType,
+  status: Doc<"toolRelations">["status"],
+  direction: "outgoing" | "incoming" | "both"
+) => {
+  const outgoing =
+    direction === "incoming"
+      ? []
+      : await ctx.db
+          .query("toolRelations")
+          .withIndex("by_from_and_type", (q) =>
+            q.eq("fromToolId", toolId).eq("type", type).eq("status", status)
+          )
+          .collect();
+  const incoming =
+    direction === "outgoing"
+      ? []
+      : await ctx.db
+          .query("toolRelations")
+          .withIndex("by_to_and_type", (q) =>
+            q.eq("toToolId", toolId).eq("type", type).eq("status", status)
+          )
+          .collect();
+  return [...outgoing, ...incoming];
+};
+
+/**
+ * A pending or approved relation that already says the same thing
+ * Symmetric relations match in either direction
+ */
+export const findExistingRelation = async (
+  ctx: QueryCtx,
+  fromToolId: Id<"aiTools">,
+  toToolId: Id<"aiTools">,
+  type: ToolRelationType
+) => {
+  for (const status of ["pending", "approved"] as const) {
+    const relations = await getToolRelations(
+      ctx,
+      fromToolId,
+      type,
+      status,
+      isSymmetricRelation(type) ? "both" : "outgoing"
+    );
+    const existing = relations.find(
+      (relation) =>
+        (relation.fromToolId === fromToolId && relation.toToolId === toToolId) ||
+        (relation.fromToolId === toToolId && relation.toToolId === fromToolId && isSymmetricRelation(type))
+    );
+    if (existing) {
+      return existing;
+    }
+  }
+  return null;
+};
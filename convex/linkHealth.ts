@@ -0,0 +1,304 @@
+/**
+ * Scheduled link-health checks
+ * A cron job checks the URL and logo of the least recently checked tools,
+ * records the outcome per tool and field, flags tools whose URL keeps failing
+ * and turns permanent redirects into suggested URL updates for moderators.
+ */
+
+import { v } from "convex/values";
+import {
+  ActionCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { requirePermission } from "./users";
+import { patchToolWithRevision } from "./lib/revisions";
+import { assertNoDuplicateTool, assertValidToolUrl, normalizeUrl } from "./lib/toolHelpers";
+import { checkLink, isLinkFailure, LinkCheckOptions, mapWithConcurrency } from "./lib/linkHealth";
+import {
+  LINK_CHECK_BATCH_SIZE,
+  LINK_CHECK_CONCURRENCY,
+  LINK_CHECK_FAILURE_THRESHOLD,
+} from "./lib/constants";
+
+const linkFieldValidator = v.union(v.literal("url"), v.literal("logoUrl"));
+
+type LinkField = typeof linkFieldValidator.type;
+
+/**
+ * Approved tools whose URL was checked longest ago, never-checked tools first
+ */
+export const getToolsToCheck = internalQuery({
+  args: {
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const tools = await ctx.db
+      .query("aiTools")
+      .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
+      .collect();
+    const checks = await ctx.db
+      .query("linkHealth")
+      .withIndex("by_field_and_checkedAt", (q) => q.eq("field", "url"))
+      .collect();
+    const checkedAt = new Map(checks.map((check) => [check.toolId, check.checkedAt]));
+
+    return tools
+      .sort((a, b) => (checkedAt.get(a._id) ?? 0) - (checkedAt.get(b._id) ?? 0))
+      .slice(0, args.limit)
+      .map((tool) => ({ toolId: tool._id, url: tool.url, logoUrl: tool.logoUrl }));
+  },
+});
+
+/**
+ * Store link check results and update failure streaks
+ * Results for a value the tool no longer has are ignored
+ */
+export const recordLinkChecks = internalMutation({
+  args: {
+    results: v.array(
+      v.object({
+        toolId: v.id("aiTools"),
+        field: linkFieldValidator,
+        url: v.string(),
+        status: v.optional(v.number()),
+        finalUrl: v.string(),
+        permanentRedirect: v.boolean(),
+        error: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let flaggedCount = 0;
+    let suggestedCount = 0;
+
+    for (const result of args.results) {
+      const tool = await ctx.db.get(result.toolId);
+      if (!tool || tool[result.field] !== result.url) {
+        continue;
+      }
+
+      const existing = await ctx.db
+        .query("linkHealth")
+        .withIndex("by_tool_and_field", (q) =>
+          q.eq("toolId", result.toolId).eq("field", result.field)
+        )
+        .first();
+      const sameUrl = existing?.url === result.url;
+
+      const failed = isLinkFailure(result);
+      const consecutiveFailures = failed
+        ? (sameUrl ? existing.consecutiveFailures : 0) + 1
+        : 0;
+      const flaggedAt =
+        consecutiveFailures >= LINK_CHECK_FAILURE_THRESHOLD
+          ? (sameUrl ? existing.flaggedAt : undefined) ?? now
+          : undefined;
+
+      // A permanent move to a different address is worth updating the tool for
+      const movedTo =
+        !failed &&
+        result.permanentRedirect &&
+        normalizeUrl(result.finalUrl) !== normalizeUrl(result.url)
+          ? result.finalUrl
+          : undefined;
+      const dismissedSuggestion = sameUrl ? existing.dismissedSuggestion : undefined;
+      const suggestedUrl = movedTo !== dismissedSuggestion ? movedTo : undefined;
+
+      if (flaggedAt !== undefined && existing?.flaggedAt === undefined) {
+        flaggedCount++;
+      }
+      if (suggestedUrl !== undefined && existing?.suggestedUrl !== suggestedUrl) {
+        suggestedCount++;
+      }
+
+      const check = {
+        toolId: result.toolId,
+        field: result.field,
+        url: result.url,
+        status: result.status,
+        finalUrl: result.finalUrl,
+        error: result.error,
+        consecutiveFailures,
+        checkedAt: now,
+        flaggedAt,
+        suggestedUrl,
+        dismissedSuggestion,
+      };
+      if (existing) {
+        await ctx.db.replace(existing._id, check);
+      } else {
+        await ctx.db.insert("linkHealth", check);
+      }
+    }
+
+    return { flaggedCount, suggestedCount };
+  },
+});
+
+/**
+ * Check the URL and logo of the least recently checked tools and record the results
+ * The check options reach every request, so tests can pass a fetcher that
+ * sends them to a local HTTP stand-in instead of the network
+ */
+export const runLinkChecks = async (
+  ctx: Pick<ActionCtx, "runQuery" | "runMutation">,
+  limit: number,
+  options: LinkCheckOptions = {}
+): Promise<{ checkedCount: number; flaggedCount: number; suggestedCount: number }> => {
+  const tools: Array<{ toolId: Id<"aiTools">; url: string; logoUrl?: string }> =
+    await ctx.runQuery(internal.linkHealth.getToolsToCheck, { limit });
+
+  const targets = tools.flatMap((tool) => [
+    { toolId: tool.toolId, field: "url" as LinkField, url: tool.url },
+    ...(tool.logoUrl
+      ? [{ toolId: tool.toolId, field: "logoUrl" as LinkField, url: tool.logoUrl }]
+      : []),
+  ]);
+
+  const results = await mapWithConcurrency(targets, LINK_CHECK_CONCURRENCY, async (target) => {
+    const result = await checkLink(target.url, options);
+    return { ...result, toolId: target.toolId, field: target.field };
+  });
+
+  const { flaggedCount, suggestedCount } = await ctx.runMutation(
+    internal.linkHealth.recordLinkChecks,
+    { results }
+  );
+
+  console.log(
+    `Checked ${targets.length} links on ${tools.length} tools: ${flaggedCount} newly flagged, ${suggestedCount} new URL suggestions`
+  );
+
+  return { checkedCount: targets.length, flaggedCount, suggestedCount };
+};
+
+/**
+ * Check the URL and logo of a batch of tools
+ * Runs daily from crons.ts; each run picks up the least recently checked tools
+ *
+ * @param limit - Tools to check (default: LINK_CHECK_BATCH_SIZE)
+ */
+export const checkToolLinks = internalAction({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ checkedCount: number; flaggedCount: number; suggestedCount: number }> =>
+    await runLinkChecks(ctx, args.limit ?? LINK_CHECK_BATCH_SIZE),
+});
+
+/**
+ * List tools flagged as possibly dead and suggested URL updates (moderator queue)
+ */
+export const listLinkIssues = query({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "tools:moderate");
+
+    const flagged = await ctx.db
+      .query("linkHealth")
+      .withIndex("by_flaggedAt", (q) => q.gt("flaggedAt", 0))
+      .collect();
+    const suggestions = await ctx.db
+      .query("linkHealth")
+      .withIndex("by_suggestedUrl", (q) => q.gt("suggestedUrl", ""))
+      .collect();
+
+    const withToolName = (checks: typeof flagged) =>
+      Promise.all(
+        checks.map(async (check) => {
+          const tool = await ctx.db.get(check.toolId);
+          return { ...check, toolName: tool?.name };
+        })
+      );
+
+    return {
+      flagged: await withToolName(flagged),
+      suggestions: await withToolName(suggestions),
+    };
+  },
+});
+
+/**
+ * Update a tool to the URL its old address permanently redirects to (moderators)
+ */
+export const applySuggestedUrl = mutation({
+  args: {
+    checkId: v.id("linkHealth"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requirePermission(ctx, "tools:moderate");
+
+    const check = await ctx.db.get(args.checkId);
+    if (!check || !check.suggestedUrl) {
+      throw new Error("URL suggestion not found");
+    }
+    const tool = await ctx.db.get(check.toolId);
+    if (!tool || tool.deletedAt !== undefined) {
+      throw new Error("Tool not found");
+    }
+    if (tool[check.field] !== check.url) {
+      throw new Error("The tool's URL changed since the check; the suggestion is outdated");
+    }
+
+    assertValidToolUrl(check.suggestedUrl);
+    if (check.field === "url") {
+      // Redirects after an acquisition often land on a tool that is already listed
+      try {
+        await assertNoDuplicateTool(ctx, { url: check.suggestedUrl, excludeToolId: tool._id });
+      } catch (error) {
+        throw new Error(`${(error as Error).message}; merge the two tools instead of updating the URL`);
+      }
+    }
+    await patchToolWithRevision(
+      ctx,
+      tool,
+      check.field === "url"
+        ? { url: check.suggestedUrl, normalizedUrl: normalizeUrl(check.suggestedUrl) }
+        : { logoUrl: check.suggestedUrl },
+      user._id,
+      "update"
+    );
+
+    // The next run checks the new address from scratch
+    await ctx.db.delete(check._id);
+
+    return {
+      success: true,
+      message: `Updated "${tool.name}" to ${check.suggestedUrl}`,
+    };
+  },
+});
+
+/**
+ * Clear a possibly-dead flag and reject the URL suggestion of a check (moderators)
+ * The failure streak starts over and the same suggestion is not offered again
+ */
+export const dismissLinkIssue = mutation({
+  args: {
+    checkId: v.id("linkHealth"),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "tools:moderate");
+
+    const check = await ctx.db.get(args.checkId);
+    if (!check) {
+      throw new Error("Link check not found");
+    }
+
+    await ctx.db.patch(check._id, {
+      consecutiveFailures: 0,
+      flaggedAt: undefined,
+      suggestedUrl: undefined,
+      dismissedSuggestion: check.suggestedUrl ?? check.dismissedSuggestion,
+    });
+
+    return { success: true };
+  },
+});
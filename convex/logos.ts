@@ -0,0 +1,221 @@
+/**
+ * Logo uploads and the migration of hotlinked logos into file storage
+ * Uploads go straight from the browser to storage through a short-lived
+ * upload URL; the file is checked when it is attached to a tool.
+ */
+
+import { v } from "convex/values";
+import { action, internalAction, internalMutation, internalQuery, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getUser, isOwnerOrHasPermission, requirePermission } from "./users";
+import { patchToolWithRevision } from "./lib/revisions";
+import { acceptLogoUpload, getLogoProblem } from "./lib/logos";
+import {
+  LOGO_FETCH_TIMEOUT_MS,
+  LOGO_MAX_BYTES,
+  LOGO_MIGRATION_BATCH_SIZE,
+} from "./lib/constants";
+
+/**
+ * Upload URL for a logo file
+ * Pass the returned storage ID to addTool or setToolLogo
+ */
+export const generateLogoUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "tools:submit");
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Replace a tool's logo with an uploaded file (tool owner or moderator)
+ */
+export const setToolLogo = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getUser(ctx);
+
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || tool.deletedAt !== undefined) {
+      throw new Error("Tool not found");
+    }
+    if (!isOwnerOrHasPermission(user, tool.submittedBy, "tools:editAny")) {
+      throw new Error("You don't have permission to update this tool");
+    }
+
+    const logoUrl = await acceptLogoUpload(ctx, args.storageId);
+    await patchToolWithRevision(
+      ctx,
+      tool,
+      { logoUrl, logoStorageId: args.storageId },
+      user._id,
+      "update"
+    );
+
+    return { success: true, logoUrl };
+  },
+});
+
+/**
+ * Copy a logo from a web address into storage for a new submission
+ * Pass the returned storage ID to addTool or setToolLogo, like an upload
+ *
+ * @throws Error if the logo cannot be downloaded or is not an acceptable image
+ */
+export const copyLogoFromUrl = action({
+  args: {
+    url: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"_storage">> => {
+    await ctx.runQuery(internal.users.assertPermission, { permission: "tools:submit" });
+
+    const url = args.url.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error("Logo links must start with http:// or https://");
+    }
+    const { storageId, error } = await copyLogoToStorage((blob) => ctx.storage.store(blob), url);
+    if (!storageId) {
+      throw new Error(`Could not copy the logo: ${error}`);
+    }
+    return storageId;
+  },
+});
+
+/**
+ * One page of tools, with the hotlinked logos among them
+ */
+export const getHotlinkedLogos = internalQuery({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("aiTools")
+      .paginate({ numItems: LOGO_MIGRATION_BATCH_SIZE, cursor: args.cursor });
+
+    return {
+      logos: result.page
+        .filter((tool) => tool.logoUrl && !tool.logoStorageId)
+        .map((tool) => ({ toolId: tool._id, logoUrl: tool.logoUrl! })),
+      continueCursor: result.continueCursor,
+      isDone: result.isDone,
+    };
+  },
+});
+
+/**
+ * Point a tool at its copied logo
+ * The copy is discarded if the tool's logo changed while it was downloading
+ */
+export const attachMigratedLogo = internalMutation({
+  args: {
+    toolId: v.id("aiTools"),
+    sourceUrl: v.string(),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || tool.logoUrl !== args.sourceUrl || tool.logoStorageId) {
+      await ctx.storage.delete(args.storageId);
+      return false;
+    }
+
+    const logoUrl = await ctx.storage.getUrl(args.storageId);
+    if (!logoUrl) {
+      return false;
+    }
+    await patchToolWithRevision(ctx, tool, { logoUrl, logoStorageId: args.storageId }, undefined, "update");
+    return true;
+  },
+});
+
+/**
+ * Download a hotlinked logo into storage
+ *
+ * @returns The storage ID, or an error message when the logo cannot be used
+ */
+const copyLogoToStorage = async (
+  store: (blob: Blob) => Promise<Id<"_storage">>,
+  url: string
+): Promise<{ storageId?: Id<"_storage">; error?: string }> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), LOGO_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      return { error: `Status ${response.status}` };
+    }
+
+    // Check the declared size first so oversized files are not downloaded
+    const declaredSize = Number(response.headers.get("content-length") ?? 0);
+    if (declaredSize > LOGO_MAX_BYTES) {
+      return { error: getLogoProblem(response.headers.get("content-type") ?? undefined, declaredSize) };
+    }
+
+    const blob = await response.blob();
+    const problem = getLogoProblem(response.headers.get("content-type") ?? blob.type, blob.size);
+    if (problem) {
+      return { error: problem };
+    }
+    return { storageId: await store(blob) };
+  } catch (error: any) {
+    return { error: error?.name === "AbortError" ? "Timed out" : error?.message || "Download failed" };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Copy every hotlinked logo into file storage
+ * Processes one page of tools and reschedules itself with the next cursor.
+ * Logos that cannot be downloaded or are not acceptable images keep their URL;
+ * the UI falls back to a monogram when they fail to load.
+ *
+ * @internal - Run once after deploying: npx convex run logos:migrateLogoUrls
+ */
+export const migrateLogoUrls = internalAction({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<{ migratedCount: number; failedCount: number; isDone: boolean }> => {
+    const page: {
+      logos: Array<{ toolId: Id<"aiTools">; logoUrl: string }>;
+      continueCursor: string;
+      isDone: boolean;
+    } = await ctx.runQuery(internal.logos.getHotlinkedLogos, { cursor: args.cursor ?? null });
+
+    let migratedCount = 0;
+    let failedCount = 0;
+    for (const { toolId, logoUrl } of page.logos) {
+      const { storageId, error } = await copyLogoToStorage((blob) => ctx.storage.store(blob), logoUrl);
+      if (!storageId) {
+        console.warn(`Kept hotlinked logo of ${toolId} (${logoUrl}): ${error}`);
+        failedCount++;
+        continue;
+      }
+      const attached = await ctx.runMutation(internal.logos.attachMigratedLogo, {
+        toolId,
+        sourceUrl: logoUrl,
+        storageId,
+      });
+      if (attached) {
+        migratedCount++;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.logos.migrateLogoUrls, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    console.log(`Copied ${migratedCount} logos into storage, ${failedCount} failed`);
+
+    return { migratedCount, failedCount, isDone: page.isDone };
+  },
+});
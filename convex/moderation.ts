@@ -0,0 +1,155 @@
+/**
+ * Moderation queue for submitted tools
+ * New submissions are stored as pending and only go live once a moderator approves them
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requirePermission } from "./users";
+import { isCountedTool, syncToolTags } from "./lib/tags";
+
+/**
+ * List tools waiting for moderator review, oldest submissions first
+ *
+ * @param limit - Maximum number of pending tools to return (default: 50)
+ * @returns Pending tools with their submitter
+ */
+export const listPendingTools = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "tools:moderate");
+
+    const pendingTools = await ctx.db
+      .query("aiTools")
+      .withIndex("by_moderationStatus", (q) => q.eq("moderationStatus", "pending"))
+      .order("asc")
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .take(args.limit ?? 50);
+
+    return await Promise.all(
+      pendingTools.map(async (tool) => ({
+        ...tool,
+        submitter: tool.submittedBy ? await ctx.db.get(tool.submittedBy) : null,
+      }))
+    );
+  },
+});
+
+/**
+ * Approve a pending or rejected tool and make it publicly visible
+ * Schedules embedding generation now that the tool is live
+ *
+ * @param toolId - ID of the tool to approve
+ */
+export const approveTool = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    const moderator = await requirePermission(ctx, "tools:moderate");
+
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool) {
+      throw new Error("Tool not found");
+    }
+    if (tool.deletedAt !== undefined) {
+      throw new Error("Deleted tools must be restored before they can be approved");
+    }
+    if (tool.isApproved) {
+      throw new Error("Tool is already approved");
+    }
+
+    await ctx.db.patch(args.toolId, {
+      isApproved: true,
+      moderationStatus: "approved",
+      rejectionReason: undefined,
+      reviewedBy: moderator._id,
+      reviewedAt: Date.now(),
+    });
+    await syncToolTags(ctx, tool._id, tool.tags, { before: false, after: true });
+
+    await ctx.scheduler.runAfter(0, internal.actions.generateToolEmbedding, {
+      toolId: args.toolId,
+    });
+
+    return {
+      success: true,
+      message: `"${tool.name}" has been approved`,
+    };
+  },
+});
+
+/**
+ * Reject a tool with a reason that is shown to the submitter
+ * Rejecting an approved tool takes it out of all listings
+ *
+ * @param toolId - ID of the tool to reject
+ * @param reason - Explanation shown to the submitter
+ */
+export const rejectTool = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const moderator = await requirePermission(ctx, "tools:moderate");
+
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new Error("A rejection reason is required");
+    }
+
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool) {
+      throw new Error("Tool not found");
+    }
+
+    await ctx.db.patch(args.toolId, {
+      isApproved: false,
+      moderationStatus: "rejected",
+      rejectionReason: reason,
+      reviewedBy: moderator._id,
+      reviewedAt: Date.now(),
+    });
+    await syncToolTags(ctx, tool._id, tool.tags, { before: isCountedTool(tool), after: false });
+
+    return {
+      success: true,
+      message: `"${tool.name}" has been rejected`,
+    };
+  },
+});
+
+/**
+ * Get the moderation state of the current user's submissions
+ * Lets submitters see whether their tools are pending, approved or rejected and why
+ */
+export const getMySubmissions = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const tools = await ctx.db
+      .query("aiTools")
+      .withIndex("by_submittedBy", (q) => q.eq("submittedBy", userId))
+      .order("desc")
+      .collect();
+
+    return tools.filter((tool) => tool.deletedAt === undefined).map((tool) => ({
+      _id: tool._id,
+      _creationTime: tool._creationTime,
+      name: tool.name,
+      url: tool.url,
+      moderationStatus: tool.moderationStatus ?? (tool.isApproved ? "approved" : "pending"),
+      rejectionReason: tool.rejectionReason,
+      reviewedAt: tool.reviewedAt,
+    }));
+  },
+});
@@ -0,0 +1,107 @@
+/**
+ * Page metadata lookups for the submission form
+ * Fetches the page behind a submitted URL and returns its title, description,
+ * logo and language as suggestions the submitter can accept.
+ */
+
+import { v } from "convex/values";
+import { action } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { checkRateLimit } from "./lib/rateLimit";
+import { assertValidToolUrl } from "./lib/toolHelpers";
+import { extractPageMetadata, suggestToolName } from "./lib/pageMetadata";
+import { PAGE_METADATA_MAX_BYTES, PAGE_METADATA_TIMEOUT_MS } from "./lib/constants";
+
+/**
+ * Read at most maxBytes of a response body as text
+ * The head of a page is all the extractor needs, so large pages are cut off
+ */
+const readLimitedText = async (response: Response, maxBytes: number) => {
+  if (!response.body) {
+    return (await response.text()).slice(0, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let received = 0;
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+  return text;
+};
+
+/**
+ * Fetch the HTML of a page, following redirects
+ *
+ * @returns The start of the page and the URL redirects ended at
+ * @throws Error with a user-facing message if the page cannot be loaded or is not HTML
+ */
+export const fetchPageHtml = async (url: string) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PAGE_METADATA_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "text/html,application/xhtml+xml" },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`The page responded with status ${response.status}`);
+    }
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType && !contentType.includes("html")) {
+      throw new Error("The URL does not point to a web page");
+    }
+    return {
+      html: await readLimitedText(response, PAGE_METADATA_MAX_BYTES),
+      finalUrl: response.url || url,
+    };
+  } catch (error: any) {
+    if (error?.name === "AbortError") {
+      throw new Error("The page took too long to respond");
+    }
+    throw new Error(error?.message || "Could not load the page");
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Fetch a page and extract metadata to prefill a tool submission
+ *
+ * @param url - The tool's website
+ * @returns Suggested name, description and logo plus the raw metadata
+ * @throws Error if the URL is invalid, the page cannot be fetched or is not HTML
+ */
+export const fetchPageMetadata = action({
+  args: {
+    url: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await ctx.runQuery(internal.users.assertPermission, { permission: "tools:submit" });
+
+    const rateLimitCheck = checkRateLimit(userId, "page lookup");
+    if (!rateLimitCheck.allowed) {
+      throw new Error(rateLimitCheck.message || "Rate limit exceeded. Please try again later.");
+    }
+
+    const url = args.url.trim();
+    assertValidToolUrl(url);
+    const page = await fetchPageHtml(url);
+
+    // Relative links resolve against where redirects ended up
+    const metadata = extractPageMetadata(page.html, page.finalUrl);
+
+    return {
+      ...metadata,
+      name: suggestToolName(metadata.title),
+      logoUrl: metadata.icon ?? metadata.image,
+    };
+  },
+});
@@ -1,6 +1,6 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
-import { getUser } from "./users";
+import { getUser, isOwnerOrHasPermission, requirePermission } from "./users";
 import { Doc, Id } from "./_generated/dataModel";
 
 const reviewTextValidator = v.optional(v.string());
@@ -12,7 +12,7 @@ export const createReview = mutation({
     reviewText: reviewTextValidator,
   },
   handler: async (ctx, args) => {
-    const user = await getUser(ctx);
+    const user = await requirePermission(ctx, "reviews:write");
 
     const existingReview = await ctx.db
       .query("reviews")
@@ -26,7 +26,7 @@ export const createReview = mutation({
     }
 
     const tool = await ctx.db.get(args.toolId);
-    if (!tool) {
+    if (!tool || tool.deletedAt !== undefined) {
       throw new Error("Tool not found");
     }
 
@@ -66,7 +66,7 @@ export const updateReview = mutation({
       throw new Error("Review not found");
     }
 
-    if (review.userId !== user._id) {
+    if (!isOwnerOrHasPermission(user, review.userId, "reviews:moderate")) {
       throw new Error("You are not authorized to edit this review.");
     }
 
@@ -102,7 +102,7 @@ export const deleteReview = mutation({
       throw new Error("Review not found");
     }
 
-    if (review.userId !== user._id) {
+    if (!isOwnerOrHasPermission(user, review.userId, "reviews:moderate")) {
       throw new Error("You are not authorized to delete this review.");
     }
 
@@ -191,7 +191,7 @@ export const toggleReviewVote = mutation({
         reviewId: v.id("reviews"),
     },
     handler: async (ctx, args) => {
-        const user = await getUser(ctx);
+        const user = await requirePermission(ctx, "reviews:write");
         const review = await ctx.db.get(args.reviewId);
 
         if (!review) {
@@ -0,0 +1,175 @@
+/**
+ * Tool revision history
+ * Read the change log of a tool and roll it back to an earlier revision
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requirePermission } from "./users";
+import {
+  assertNoDuplicateTool,
+  EDITABLE_TOOL_FIELDS,
+  EditableToolFields,
+  EMBEDDING_TOOL_FIELDS,
+  normalizeName,
+  normalizeUrl,
+} from "./lib/toolHelpers";
+import { patchToolWithRevision } from "./lib/revisions";
+import { resolveToolCategories } from "./categories";
+import { getToolCategories } from "./lib/categories";
+import { canonicalizeTags } from "./lib/tags";
+
+type EditableField = keyof EditableToolFields;
+
+const isEditableField = (field: string): field is EditableField =>
+  (EDITABLE_TOOL_FIELDS as readonly string[]).includes(field);
+
+/**
+ * Get the revision history of a tool, newest first
+ *
+ * @param toolId - Tool to get history for
+ * @param limit - Maximum number of revisions to return (default: 50)
+ * @returns Revisions with their author's name
+ */
+export const getToolHistory = query({
+  args: {
+    toolId: v.id("aiTools"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || !tool.isApproved) {
+      return [];
+    }
+
+    const revisions = await ctx.db
+      .query("toolRevisions")
+      .withIndex("by_tool_and_created", (q) => q.eq("toolId", args.toolId))
+      .order("desc")
+      .take(args.limit ?? 50);
+
+    return await Promise.all(
+      revisions.map(async (revision) => {
+        const author = revision.authorId ? await ctx.db.get(revision.authorId) : null;
+        return {
+          ...revision,
+          authorName: author?.name ?? null,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Restore a tool to the state it had right after the given revision
+ * Undoes every later revision field by field and records the rollback as a new revision
+ *
+ * @param revisionId - Revision to roll back to
+ */
+export const revertToRevision = mutation({
+  args: {
+    revisionId: v.id("toolRevisions"),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requirePermission(ctx, "system:admin");
+
+    const target = await ctx.db.get(args.revisionId);
+    if (!target) {
+      throw new Error("Revision not found");
+    }
+
+    const tool = await ctx.db.get(target.toolId);
+    if (!tool) {
+      throw new Error("Tool not found");
+    }
+    if (tool.deletedAt !== undefined) {
+      throw new Error("Restore the tool before reverting it");
+    }
+
+    const laterRevisions = await ctx.db
+      .query("toolRevisions")
+      .withIndex("by_tool_and_created", (q) =>
+        q.eq("toolId", target.toolId).gt("createdAt", target.createdAt)
+      )
+      .order("desc")
+      .collect();
+
+    if (laterRevisions.length === 0) {
+      throw new Error("The tool is already at this revision");
+    }
+    // Content from before a delete and restore may be what got the tool deleted
+    if (laterRevisions.some((revision) => revision.source === "delete" || revision.source === "restore")) {
+      throw new Error("Cannot revert across a delete or restore; pick a revision made after it");
+    }
+
+    // Walk back from the newest revision, restoring each field's previous value
+    const restored: Record<string, unknown> = {};
+    for (const revision of laterRevisions) {
+      for (const field of revision.changedFields) {
+        if (isEditableField(field)) {
+          restored[field] = revision.before[field];
+        }
+      }
+    }
+    const patch = restored as EditableToolFields;
+
+    // Revisions from before the category migration hold free-text values,
+    // and revisions from before multiple categories hold no category list
+    if ("category" in restored || "categories" in restored) {
+      const resolved = await resolveToolCategories(
+        ctx,
+        patch.category ?? tool.category,
+        "categories" in restored
+          ? patch.categories
+          : getToolCategories(tool).filter((category) => category !== tool.category)
+      );
+      patch.category = resolved.category;
+      patch.categories = resolved.categories;
+    }
+
+    if (patch.tags !== undefined) {
+      patch.tags = await canonicalizeTags(ctx, patch.tags);
+    }
+
+    if (patch.name === undefined && "name" in restored) {
+      throw new Error("Cannot revert to a revision without a tool name");
+    }
+
+    await assertNoDuplicateTool(ctx, {
+      name: "name" in restored && patch.name !== tool.name ? patch.name : undefined,
+      url: "url" in restored && patch.url !== tool.url ? patch.url : undefined,
+      excludeToolId: tool._id,
+    });
+
+    const changedFields = await patchToolWithRevision(
+      ctx,
+      tool,
+      {
+        ...patch,
+        ...(patch.name !== undefined ? { normalizedName: normalizeName(patch.name) } : {}),
+        ...(patch.url !== undefined ? { normalizedUrl: normalizeUrl(patch.url) } : {}),
+      },
+      admin._id,
+      "revert",
+      target._id
+    );
+
+    const affectsEmbedding = EMBEDDING_TOOL_FIELDS.some((field) =>
+      (changedFields as readonly string[]).includes(field)
+    );
+    if (affectsEmbedding && tool.isApproved) {
+      await ctx.scheduler.runAfter(0, internal.actions.generateToolEmbedding, {
+        toolId: tool._id,
+      });
+    }
+
+    return {
+      success: true,
+      changedFields,
+      message: changedFields.length > 0
+        ? `Reverted ${changedFields.length} field(s) of "${tool.name}"`
+        : "Nothing to revert",
+    };
+  },
+});
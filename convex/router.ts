@@ -1,5 +1,12 @@
 import { httpRouter } from "convex/server";
+import { exportTools } from "./exports";
 
 const http = httpRouter();
 
+http.route({
+  path: "/export/tools",
+  method: "GET",
+  handler: exportTools,
+});
+
 export default http;
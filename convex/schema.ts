@@ -2,46 +2,242 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 import { GEMINI_EMBEDDING_DIMENSIONS } from "./lib/constants";
+import { roleValidator } from "./lib/roles";
+import { editableToolFieldsValidator } from "./lib/toolHelpers";
+import { pricingPlanValidator } from "./lib/pricing";
+import { toolTranslationValidator } from "./lib/localization";
+import { lifecycleStatusValidator } from "./lib/lifecycle";
+import { toolRelationTypeValidator } from "./lib/toolRelations";
 
 const applicationTables = {
+  // Extends the users table from authTables with an access-control role
+  users: defineTable({
+    name: v.optional(v.string()),
+    image: v.optional(v.string()),
+    email: v.optional(v.string()),
+    emailVerificationTime: v.optional(v.number()),
+    phone: v.optional(v.string()),
+    phoneVerificationTime: v.optional(v.number()),
+    isAnonymous: v.optional(v.boolean()),
+    role: v.optional(roleValidator), // Missing means "contributor"
+  })
+    .index("email", ["email"])
+    .index("phone", ["phone"])
+    .index("by_role", ["role"]),
   aiTools: defineTable({
     name: v.string(),
     description: v.string(),
     detail: v.optional(v.string()),
     url: v.string(),
-    category: v.string(),
+    category: v.string(), // Slug of the primary category, used for display
+    categories: v.optional(v.array(v.string())), // Every category slug, primary first; missing on legacy rows
+    legacyCategories: v.optional(v.array(v.string())), // Free-text categories the taxonomy migration could not match
     tags: v.array(v.string()),
-    pricing: v.union(v.literal("free"), v.literal("freemium"), v.literal("paid")),
-    language: v.union(v.literal("en"), v.literal("vi")),
+    pricing: v.union(v.literal("free"), v.literal("freemium"), v.literal("paid")), // Derived from plans when present
+    plans: v.optional(v.array(pricingPlanValidator)),
+    language: v.union(v.literal("en"), v.literal("vi")), // Primary language of name, description and detail
+    translations: v.optional(v.array(toolTranslationValidator)), // Content in the other languages
+    searchText: v.optional(v.string()), // Name and translated names from toolSearchText; missing on legacy rows
     submittedBy: v.optional(v.id("users")),
     isApproved: v.boolean(),
+    moderationStatus: v.optional(
+      v.union(v.literal("pending"), v.literal("approved"), v.literal("rejected"))
+    ), // Missing on legacy rows, which were auto-approved
+    rejectionReason: v.optional(v.string()),
+    reviewedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    deletedAt: v.optional(v.number()), // Tombstone: hidden everywhere, purged after retention
+    deletedBy: v.optional(v.id("users")),
     logoUrl: v.optional(v.string()),
+    logoStorageId: v.optional(v.id("_storage")), // File in Convex storage that logoUrl serves
+    lifecycleStatus: v.optional(lifecycleStatusValidator), // Missing means "active"
+    successorToolId: v.optional(v.id("aiTools")), // Replacement or acquirer of a discontinued or acquired tool
+    lifecycleChangedAt: v.optional(v.number()),
     normalizedName: v.optional(v.string()),
+    normalizedUrl: v.optional(v.string()), // Canonical URL from normalizeUrl, for duplicate checks
+    slug: v.optional(v.string()), // Unique URL slug derived from the name; missing on legacy rows
     averageRating: v.optional(v.number()),
     totalReviews: v.optional(v.number()),
     totalFavourites: v.optional(v.number()),
     ratingSum: v.optional(v.number()),
     embedding: v.optional(v.array(v.number())),
     embeddingVersion: v.optional(v.string()), // Track which model generated the embedding
+    // One embedding per translation, generated with the same model as `embedding`
+    translationEmbeddings: v.optional(
+      v.array(
+        v.object({
+          language: v.union(v.literal("en"), v.literal("vi")),
+          embedding: v.array(v.number()),
+        })
+      )
+    ),
   })
-    .index("by_category", ["category"])
     .index("by_pricing", ["pricing"])
     .index("by_language", ["language"])
     .index("by_url", ["url"])
     .index("by_isApproved", ["isApproved"])
+    .index("by_moderationStatus", ["moderationStatus"])
+    .index("by_deletedAt", ["deletedAt"])
     .index("by_submittedBy", ["submittedBy"])
     .index("by_normalizedName", ["normalizedName"])
+    .index("by_normalizedUrl", ["normalizedUrl"])
+    .index("by_slug", ["slug"])
+    .index("by_logoStorageId", ["logoStorageId"])
+    .index("by_successorToolId", ["successorToolId"])
     .index("by_language_and_isApproved", ["language", "isApproved"])
     .index("by_pricing_and_isApproved", ["pricing", "isApproved"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
       dimensions: GEMINI_EMBEDDING_DIMENSIONS, // Google Gemini gemini-embedding-001 configured output size
-      filterFields: ["isApproved", "language", "category", "pricing"],
+      // Category membership is checked after retrieval, since filters only match scalars
+      filterFields: ["isApproved", "language", "pricing"],
     })
     .searchIndex("search_tools", {
-      searchField: "name",
-      filterFields: ["category", "pricing", "language", "isApproved"],
+      searchField: "searchText",
+      filterFields: ["pricing", "language", "isApproved"],
     }),
+  categories: defineTable({
+    slug: v.string(), // Stored in aiTools.category
+    labels: v.object({ en: v.string(), vi: v.string() }),
+    description: v.optional(
+      v.object({ en: v.optional(v.string()), vi: v.optional(v.string()) })
+    ),
+    icon: v.optional(v.string()), // Emoji shown next to the label
+    parentId: v.optional(v.id("categories")),
+    sortOrder: v.number(),
+    aliases: v.array(v.string()), // Legacy free-text values that map to this category
+  })
+    .index("by_slug", ["slug"])
+    .index("by_sortOrder", ["sortOrder"])
+    .index("by_parentId", ["parentId"]),
+  // One row per tool and category, so category filters can use an index
+  toolCategories: defineTable({
+    toolId: v.id("aiTools"),
+    category: v.string(),
+  })
+    .index("by_category", ["category"])
+    .index("by_tool", ["toolId"]),
+  // Canonical tags; aiTools.tags holds these names
+  tags: defineTable({
+    name: v.string(),
+    usageCount: v.number(), // Approved, non-deleted tools carrying the tag
+  })
+    .index("by_name", ["name"])
+    .index("by_usageCount", ["usageCount"]),
+  // Alternative spellings mapped onto a canonical tag, e.g. "llms" -> "llm"
+  tagSynonyms: defineTable({
+    synonym: v.string(),
+    tag: v.string(),
+  })
+    .index("by_synonym", ["synonym"])
+    .index("by_tag", ["tag"]),
+  // One row per tool and tag, so tag filters can use an index
+  toolTags: defineTable({
+    toolId: v.id("aiTools"),
+    tag: v.string(),
+  })
+    .index("by_tag", ["tag"])
+    .index("by_tool", ["toolId"]),
+  toolEdits: defineTable({
+    toolId: v.id("aiTools"),
+    proposedBy: v.id("users"),
+    changes: editableToolFieldsValidator, // Proposed values, only for fields that change
+    baseValues: editableToolFieldsValidator, // Tool values the proposal was made against
+    note: v.optional(v.string()),
+    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("rejected")),
+    reviewedBy: v.optional(v.id("users")),
+    reviewComment: v.optional(v.string()),
+    reviewedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_tool_and_status", ["toolId", "status"])
+    .index("by_proposedBy", ["proposedBy"]),
+  toolRevisions: defineTable({
+    toolId: v.id("aiTools"),
+    authorId: v.optional(v.id("users")),
+    source: v.union(
+      v.literal("create"),
+      v.literal("update"),
+      v.literal("edit"),
+      v.literal("revert"),
+      v.literal("import"),
+      v.literal("translation"), // Machine translation pipeline
+      v.literal("delete"), // Soft delete; records no field changes
+      v.literal("restore"), // Undo of a soft delete; records no field changes
+      v.literal("merge") // Tombstoned by a merge into another tool; records no field changes
+    ),
+    // A field listed here but missing from before/after was empty on that side
+    changedFields: v.array(v.string()),
+    before: editableToolFieldsValidator,
+    after: editableToolFieldsValidator,
+    revertedFrom: v.optional(v.id("toolRevisions")),
+    createdAt: v.number(),
+  }).index("by_tool_and_created", ["toolId", "createdAt"]),
+  toolRedirects: defineTable({
+    fromToolId: v.id("aiTools"), // Merged duplicate; may already be purged
+    toToolId: v.id("aiTools"),
+    mergedBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_fromToolId", ["fromToolId"])
+    .index("by_toToolId", ["toToolId"]),
+  // Slugs a tool used before it was renamed or merged, kept so old links redirect
+  toolSlugHistory: defineTable({
+    slug: v.string(),
+    toolId: v.id("aiTools"), // Tool the slug now redirects to
+    createdAt: v.number(),
+  })
+    .index("by_slug", ["slug"])
+    .index("by_tool", ["toolId"]),
+  // Latest link check of a tool's URL or logo
+  linkHealth: defineTable({
+    toolId: v.id("aiTools"),
+    field: v.union(v.literal("url"), v.literal("logoUrl")),
+    url: v.string(), // Value that was checked
+    status: v.optional(v.number()), // HTTP status of the final response
+    finalUrl: v.optional(v.string()), // End of the redirect chain
+    error: v.optional(v.string()),
+    consecutiveFailures: v.number(),
+    checkedAt: v.number(),
+    flaggedAt: v.optional(v.number()), // Set once the failure streak reaches the threshold
+    suggestedUrl: v.optional(v.string()), // Target of a permanent redirect
+    dismissedSuggestion: v.optional(v.string()), // Suggestion a moderator rejected; not offered again
+  })
+    .index("by_tool_and_field", ["toolId", "field"])
+    .index("by_field_and_checkedAt", ["field", "checkedAt"])
+    .index("by_flaggedAt", ["flaggedAt"])
+    .index("by_suggestedUrl", ["suggestedUrl"]),
+  // Screenshots and demo videos shown in a tool's gallery
+  toolMedia: defineTable({
+    toolId: v.id("aiTools"),
+    kind: v.union(v.literal("image"), v.literal("video")),
+    storageId: v.optional(v.id("_storage")), // Uploaded screenshot
+    url: v.string(), // Storage URL of a screenshot, or the video link as entered
+    embedUrl: v.optional(v.string()), // Player URL of a video
+    caption: v.optional(v.string()),
+    order: v.number(), // Position in the gallery, lowest first
+    addedBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_tool_and_order", ["toolId", "order"])
+    .index("by_storageId", ["storageId"]),
+  // Typed, directed links between tools, proposed by users and approved by moderators
+  toolRelations: defineTable({
+    fromToolId: v.id("aiTools"),
+    toToolId: v.id("aiTools"),
+    type: toolRelationTypeValidator, // e.g. from "built on" to
+    status: v.union(v.literal("pending"), v.literal("approved"), v.literal("rejected")),
+    proposedBy: v.id("users"),
+    note: v.optional(v.string()),
+    reviewedBy: v.optional(v.id("users")),
+    reviewComment: v.optional(v.string()),
+    reviewedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_from_and_type", ["fromToolId", "type", "status"])
+    .index("by_to_and_type", ["toToolId", "type", "status"]),
   favourites: defineTable({
     userId: v.id("users"),
     toolId: v.id("aiTools"),
@@ -94,7 +290,8 @@ const applicationTables = {
   })
     .index("by_timestamp", ["timestamp"])
     .index("by_query", ["query"])
-    .index("by_user", ["userId"]),
+    .index("by_user", ["userId"])
+    .index("by_clickedToolId", ["clickedToolId"]),
 };
 
 export default defineSchema({
@@ -15,6 +15,7 @@ export const getAllApprovedTools = query({
       _id: tool._id,
       _creationTime: tool._creationTime,
       name: tool.name,
+      slug: tool.slug,
       url: tool.url,
       category: tool.category,
     }));
@@ -33,6 +34,7 @@ export const getToolForSEO = query({
     return {
       _id: tool._id,
       name: tool.name,
+      slug: tool.slug,
       description: tool.description,
       url: tool.url,
       category: tool.category,
@@ -0,0 +1,323 @@
+/**
+ * Managed tag vocabulary
+ * Canonical tags carry a usage count; synonyms map alternative spellings
+ * such as "llms" or "large language model" onto one canonical tag
+ */
+
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requirePermission } from "./users";
+import { patchToolWithRevision } from "./lib/revisions";
+import { canonicalizeTags, isCountedTool, normalizeTag, syncToolTags } from "./lib/tags";
+import { TOOL_IMPORT_EMBEDDING_INTERVAL_MS } from "./lib/constants";
+
+// Candidates read per index while matching an autocomplete prefix
+const TAG_PREFIX_SCAN_LIMIT = 50;
+
+/**
+ * Suggest canonical tags for a partly typed tag, most used first
+ * Synonyms match too but resolve to their canonical tag
+ *
+ * @param prefix - Start of the tag; an empty prefix returns the most used tags
+ * @param limit - Maximum number of suggestions (default: 8)
+ */
+export const searchTags = query({
+  args: {
+    prefix: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 8;
+    const prefix = normalizeTag(args.prefix);
+
+    if (!prefix) {
+      const popular = await ctx.db
+        .query("tags")
+        .withIndex("by_usageCount", (q) => q.gt("usageCount", 0))
+        .order("desc")
+        .take(limit);
+      return popular.map(({ name, usageCount }) => ({ name, usageCount }));
+    }
+
+    const names = await ctx.db
+      .query("tags")
+      .withIndex("by_name", (q) => q.gte("name", prefix).lt("name", `${prefix}\uffff`))
+      .take(TAG_PREFIX_SCAN_LIMIT);
+    const synonyms = await ctx.db
+      .query("tagSynonyms")
+      .withIndex("by_synonym", (q) =>
+        q.gte("synonym", prefix).lt("synonym", `${prefix}\uffff`)
+      )
+      .take(TAG_PREFIX_SCAN_LIMIT);
+
+    const matches = new Map(names.map((tag) => [tag.name, tag]));
+    for (const synonym of synonyms) {
+      if (!matches.has(synonym.tag)) {
+        const tag = await ctx.db
+          .query("tags")
+          .withIndex("by_name", (q) => q.eq("name", synonym.tag))
+          .first();
+        if (tag) {
+          matches.set(tag.name, tag);
+        }
+      }
+    }
+
+    return [...matches.values()]
+      .filter((tag) => tag.usageCount > 0)
+      .sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name))
+      .slice(0, limit)
+      .map(({ name, usageCount }) => ({ name, usageCount }));
+  },
+});
+
+/**
+ * List the synonyms that map onto a tag
+ */
+export const getTagSynonyms = query({
+  args: {
+    tag: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const synonyms = await ctx.db
+      .query("tagSynonyms")
+      .withIndex("by_tag", (q) => q.eq("tag", normalizeTag(args.tag)))
+      .collect();
+    return synonyms.map((synonym) => synonym.synonym);
+  },
+});
+
+/**
+ * Map an alternative spelling onto a canonical tag (admin only)
+ * Spellings that tools already use must be merged with mergeTags instead
+ */
+export const addTagSynonym = mutation({
+  args: {
+    tag: v.string(),
+    synonym: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "system:admin");
+
+    const [tag] = await canonicalizeTags(ctx, [args.tag]);
+    const synonym = normalizeTag(args.synonym);
+    if (!tag || !synonym) {
+      throw new Error("Both the tag and the synonym are required");
+    }
+    if (tag === synonym) {
+      throw new Error("A tag cannot be a synonym of itself");
+    }
+
+    const existing = await ctx.db
+      .query("tagSynonyms")
+      .withIndex("by_synonym", (q) => q.eq("synonym", synonym))
+      .first();
+    if (existing) {
+      throw new Error(`"${synonym}" is already a synonym of "${existing.tag}"`);
+    }
+
+    const usedTag = await ctx.db
+      .query("tags")
+      .withIndex("by_name", (q) => q.eq("name", synonym))
+      .first();
+    // Pending and rejected tools carry tags without counting towards usage
+    const taggedTool = await ctx.db
+      .query("toolTags")
+      .withIndex("by_tag", (q) => q.eq("tag", synonym))
+      .first();
+    if (taggedTool) {
+      throw new Error(`"${synonym}" is used by existing tools; merge it instead`);
+    }
+    if (usedTag) {
+      await ctx.db.delete(usedTag._id);
+    }
+
+    await ctx.db.insert("tagSynonyms", { synonym, tag });
+
+    return { success: true, tag, synonym };
+  },
+});
+
+/**
+ * Remove a synonym mapping (admin only)
+ * Tools keep their canonical tag; new submissions keep the spelling as typed
+ */
+export const removeTagSynonym = mutation({
+  args: {
+    synonym: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "system:admin");
+
+    const synonym = await ctx.db
+      .query("tagSynonyms")
+      .withIndex("by_synonym", (q) => q.eq("synonym", normalizeTag(args.synonym)))
+      .first();
+    if (!synonym) {
+      throw new Error("Synonym not found");
+    }
+
+    await ctx.db.delete(synonym._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Merge one tag into another (admin only)
+ * Retags every tool, moves the source's synonyms to the target and keeps the
+ * source name as a synonym so later submissions map onto the target
+ *
+ * @param source - Tag to merge away
+ * @param target - Canonical tag to keep
+ */
+export const mergeTags = mutation({
+  args: {
+    source: v.string(),
+    target: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requirePermission(ctx, "system:admin");
+
+    const source = normalizeTag(args.source);
+    const [target] = await canonicalizeTags(ctx, [args.target]);
+    if (!source || !target) {
+      throw new Error("Both the source and the target tag are required");
+    }
+    if (source === target) {
+      throw new Error("Cannot merge a tag into itself");
+    }
+
+    const sourceTag = await ctx.db
+      .query("tags")
+      .withIndex("by_name", (q) => q.eq("name", source))
+      .first();
+    if (!sourceTag) {
+      throw new Error(`Tag "${source}" not found`);
+    }
+
+    const rows = await ctx.db
+      .query("toolTags")
+      .withIndex("by_tag", (q) => q.eq("tag", source))
+      .collect();
+
+    let scheduled = 0;
+    for (const row of rows) {
+      const tool = await ctx.db.get(row.toolId);
+      if (!tool) {
+        continue;
+      }
+      const tags = [...new Set(tool.tags.map((tag) => (tag === source ? target : tag)))];
+      await patchToolWithRevision(ctx, tool, { tags }, admin._id, "update");
+
+      // Tags are part of the embedding text; space the jobs like a bulk import
+      if (tool.isApproved) {
+        await ctx.scheduler.runAfter(
+          scheduled * TOOL_IMPORT_EMBEDDING_INTERVAL_MS,
+          internal.actions.generateToolEmbedding,
+          { toolId: tool._id }
+        );
+        scheduled++;
+      }
+    }
+
+    const synonyms = await ctx.db
+      .query("tagSynonyms")
+      .withIndex("by_tag", (q) => q.eq("tag", source))
+      .collect();
+    for (const synonym of synonyms) {
+      await ctx.db.patch(synonym._id, { tag: target });
+    }
+    await ctx.db.insert("tagSynonyms", { synonym: source, tag: target });
+    await ctx.db.delete(sourceTag._id);
+
+    return {
+      success: true,
+      retaggedCount: rows.length,
+      message: `Merged "${source}" into "${target}" on ${rows.length} tool(s)`,
+    };
+  },
+});
+
+/**
+ * Build the tag registry from existing tools
+ * Maps tags onto their canonical names, fills the toolTags rows and usage
+ * counts, then reschedules itself until every tool is processed.
+ *
+ * @internal - Run once after deploying: npx convex run tags:backfillToolTags
+ */
+export const backfillToolTags = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("aiTools")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+
+    let updatedCount = 0;
+    for (const tool of result.page) {
+      const tags = await canonicalizeTags(ctx, tool.tags);
+      if (tags.join() !== tool.tags.join()) {
+        await ctx.db.patch(tool._id, { tags });
+        updatedCount++;
+      }
+      const counted = isCountedTool(tool);
+      await syncToolTags(ctx, tool._id, tags, { before: counted, after: counted });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.tags.backfillToolTags, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { updatedCount, isDone: result.isDone };
+  },
+});
+
+/**
+ * Recompute every tag's usage count from the toolTags rows
+ * Only approved, non-deleted tools count; reschedules itself until every tag
+ * is processed.
+ *
+ * @internal - Run once after deploying: npx convex run tags:recountTagUsage
+ */
+export const recountTagUsage = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("tags")
+      .paginate({ numItems: 50, cursor: args.cursor ?? null });
+
+    let updatedCount = 0;
+    for (const tag of result.page) {
+      const rows = await ctx.db
+        .query("toolTags")
+        .withIndex("by_tag", (q) => q.eq("tag", tag.name))
+        .collect();
+      let usageCount = 0;
+      for (const row of rows) {
+        const tool = await ctx.db.get(row.toolId);
+        if (tool && isCountedTool(tool)) {
+          usageCount++;
+        }
+      }
+      if (usageCount !== tag.usageCount) {
+        await ctx.db.patch(tag._id, { usageCount });
+        updatedCount++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.tags.recountTagUsage, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { updatedCount, isDone: result.isDone };
+  },
+});
@@ -0,0 +1,70 @@
+/**
+ * URL-only submissions
+ * Reads the tool's website and asks a language model to draft the whole
+ * listing. The draft is only returned to the submitter, who reviews and edits
+ * it in AddToolForm before it goes through addTool like any other submission.
+ */
+
+import { v } from "convex/values";
+import { action } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { checkRateLimit } from "./lib/rateLimit";
+import { assertValidToolUrl, ToolSubmission } from "./lib/toolHelpers";
+import { extractPageMetadata, extractPageText } from "./lib/pageMetadata";
+import { buildDraftPrompt, getDraftModel, parseToolDraft } from "./lib/toolDrafts";
+import { fetchPageHtml } from "./pageMetadata";
+import { TOOL_DRAFT_MAX_PAGE_TEXT } from "./lib/constants";
+
+/**
+ * Draft a tool listing from its website
+ *
+ * @param url - The tool's website
+ * @returns Fields in the addTool argument shape, plus a logo found on the page
+ * @throws Error if the URL is taken, the page cannot be read or the model reply is unusable
+ */
+export const draftToolFromUrl = action({
+  args: {
+    url: v.string(),
+  },
+  handler: async (ctx, args): Promise<ToolSubmission> => {
+    const userId = await ctx.runQuery(internal.users.assertPermission, { permission: "tools:submit" });
+
+    const rateLimitCheck = checkRateLimit(userId, "listing draft");
+    if (!rateLimitCheck.allowed) {
+      throw new Error(rateLimitCheck.message || "Rate limit exceeded. Please try again later.");
+    }
+
+    const url = args.url.trim();
+    assertValidToolUrl(url);
+
+    // No point drafting a listing that addTool would reject
+    const duplicate = await ctx.runQuery(api.aiTools.checkDuplicate, { url });
+    if (duplicate.urlDuplicate) {
+      throw new Error(
+        `This URL is already registered${duplicate.existingUrlTool ? ` by "${duplicate.existingUrlTool}"` : ""}`
+      );
+    }
+
+    const page = await fetchPageHtml(url);
+    const metadata = extractPageMetadata(page.html, page.finalUrl);
+    const categories = await ctx.runQuery(api.categories.listCategories, {});
+
+    const model = getDraftModel();
+    const prompt = buildDraftPrompt(
+      {
+        url,
+        title: metadata.title,
+        description: metadata.description,
+        text: extractPageText(page.html, TOOL_DRAFT_MAX_PAGE_TEXT),
+      },
+      categories
+    );
+    const reply = await model.generate(prompt);
+    const draft = parseToolDraft(reply, url, categories);
+
+    return {
+      ...draft,
+      logoUrl: metadata.icon ?? metadata.image,
+    };
+  },
+});
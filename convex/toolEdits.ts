@@ -0,0 +1,389 @@
+/**
+ * Community edit suggestions for tools
+ * Any signed-in user can propose a field-level change set; moderators or the
+ * tool owner review a before/after diff and accept or reject it
+ */
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getUser, hasPermission, isOwnerOrHasPermission, requirePermission } from "./users";
+import {
+  assertNoDuplicateTool,
+  assertValidToolUrl,
+  cleanTags,
+  EDITABLE_TOOL_FIELDS,
+  EditableToolFields,
+  editableToolFieldsValidator,
+  EMBEDDING_TOOL_FIELDS,
+  fieldValueEqual,
+  normalizeName,
+  normalizeUrl,
+} from "./lib/toolHelpers";
+import { patchToolWithRevision } from "./lib/revisions";
+import { assertNoEditConflicts, buildDiff, changedFields } from "./lib/toolEdits";
+import { resolveToolCategories } from "./categories";
+import { getToolCategories } from "./lib/categories";
+import { canonicalizeTags } from "./lib/tags";
+import { cleanPricingPlans, derivePricing, PricingPlan } from "./lib/pricing";
+import { cleanTranslations, ToolTranslation } from "./lib/localization";
+import { assertValidSuccessor, getLifecycleStatus } from "./lib/lifecycle";
+
+/**
+ * Trim the proposed values the same way updateTool does, so that a
+ * no-op change (e.g. extra whitespace) is not reported as a diff
+ */
+const cleanChanges = (changes: EditableToolFields, tool: Doc<"aiTools">): EditableToolFields => {
+  const cleaned: EditableToolFields = {};
+  for (const field of EDITABLE_TOOL_FIELDS) {
+    const value = changes[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (field === "tags") {
+      cleaned.tags = cleanTags(value as string[]);
+    } else if (field === "categories") {
+      cleaned.categories = (value as string[]).map((category) => category.trim());
+    } else if (field === "pricing") {
+      cleaned.pricing = value as EditableToolFields["pricing"];
+    } else if (field === "plans") {
+      cleaned.plans = cleanPricingPlans(value as PricingPlan[]) ?? [];
+    } else if (field === "translations") {
+      cleaned.translations = cleanTranslations(value as ToolTranslation[], tool.language, tool.translations) ?? [];
+    } else if (field === "lifecycleStatus") {
+      cleaned.lifecycleStatus = value as EditableToolFields["lifecycleStatus"];
+    } else if (field === "successorToolId") {
+      cleaned.successorToolId = value as Id<"aiTools">;
+    } else {
+      cleaned[field] = (value as string).trim();
+    }
+  }
+  return cleaned;
+};
+
+const pickToolFields = (tool: Doc<"aiTools">, fields: readonly (keyof EditableToolFields)[]) => {
+  const values: EditableToolFields = {};
+  for (const field of fields) {
+    (values as Record<string, unknown>)[field] = tool[field];
+  }
+  return values;
+};
+
+const canReviewEdit = async (ctx: QueryCtx, toolId: Id<"aiTools">) => {
+  const user = await getUser(ctx);
+  const tool = await ctx.db.get(toolId);
+  if (!tool) {
+    throw new Error("Tool not found");
+  }
+  if (!isOwnerOrHasPermission(user, tool.submittedBy, "tools:moderate")) {
+    throw new Error("Only the tool owner or a moderator can review this edit");
+  }
+  return { user, tool };
+};
+
+/**
+ * Propose a change set for a tool
+ * Only fields that actually differ from the current tool are stored
+ *
+ * @param toolId - Tool to edit
+ * @param changes - Proposed field values
+ * @param note - Optional explanation for reviewers
+ */
+export const proposeEdit = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+    // Logos are stored files, which the tool owner changes through setToolLogo
+    changes: editableToolFieldsValidator.omit("logoUrl"),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requirePermission(ctx, "tools:submit");
+
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || !tool.isApproved) {
+      throw new Error("Tool not found");
+    }
+
+    const cleaned = cleanChanges(args.changes, tool);
+    if (cleaned.lifecycleStatus === getLifecycleStatus(tool)) {
+      delete cleaned.lifecycleStatus;
+    }
+    if (cleaned.tags) {
+      cleaned.tags = await canonicalizeTags(ctx, cleaned.tags);
+    }
+    if (cleaned.plans) {
+      cleaned.pricing = derivePricing(cleaned.plans) ?? cleaned.pricing ?? tool.pricing;
+    } else if (cleaned.pricing && cleaned.pricing !== tool.pricing && tool.plans?.length) {
+      throw new Error("This tool's pricing comes from its plans; suggest a change to the plans instead");
+    }
+    if (cleaned.category || cleaned.categories) {
+      const resolved = await resolveToolCategories(
+        ctx,
+        cleaned.category || tool.category,
+        cleaned.categories ??
+          getToolCategories(tool).filter((category) => category !== tool.category)
+      );
+      cleaned.category = resolved.category;
+      cleaned.categories = resolved.categories;
+    }
+    const changes: EditableToolFields = {};
+    for (const field of changedFields(cleaned)) {
+      if (!fieldValueEqual(cleaned[field], tool[field])) {
+        (changes as Record<string, unknown>)[field] = cleaned[field];
+      }
+    }
+
+    const fields = changedFields(changes);
+    if (fields.length === 0) {
+      throw new Error("The proposed edit does not change anything");
+    }
+    if (changes.name !== undefined && !changes.name) {
+      throw new Error("Tool name is required");
+    }
+    if (changes.description !== undefined && !changes.description) {
+      throw new Error("Tool description is required");
+    }
+    if (changes.category !== undefined && !changes.category) {
+      throw new Error("Tool category is required");
+    }
+    if (changes.url !== undefined) {
+      assertValidToolUrl(changes.url);
+    }
+    if (changes.successorToolId !== undefined) {
+      await assertValidSuccessor(
+        ctx,
+        tool._id,
+        changes.lifecycleStatus ?? getLifecycleStatus(tool),
+        changes.successorToolId
+      );
+    }
+
+    const editId = await ctx.db.insert("toolEdits", {
+      toolId: args.toolId,
+      proposedBy: user._id,
+      changes,
+      baseValues: pickToolFields(tool, fields),
+      note: args.note?.trim() || undefined,
+      status: "pending",
+      createdAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      editId,
+      message: "Your suggested edit has been submitted for review",
+    };
+  },
+});
+
+/**
+ * List pending edits across all tools (moderator queue)
+ */
+export const listPendingEdits = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "tools:moderate");
+
+    const edits = await ctx.db
+      .query("toolEdits")
+      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .order("asc")
+      .take(args.limit ?? 50);
+
+    return await Promise.all(
+      edits.map(async (edit) => {
+        const tool = await ctx.db.get(edit.toolId);
+        return {
+          ...edit,
+          toolName: tool?.name,
+          diff: buildDiff(edit, tool),
+        };
+      })
+    );
+  },
+});
+
+/**
+ * List pending edits for one tool
+ * Visible to the tool owner and moderators
+ */
+export const listPendingEditsForTool = query({
+  args: {
+    toolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    const { tool } = await canReviewEdit(ctx, args.toolId);
+
+    const edits = await ctx.db
+      .query("toolEdits")
+      .withIndex("by_tool_and_status", (q) =>
+        q.eq("toolId", args.toolId).eq("status", "pending")
+      )
+      .collect();
+
+    return await Promise.all(
+      edits.map(async (edit) => ({
+        ...edit,
+        proposer: await ctx.db.get(edit.proposedBy),
+        diff: buildDiff(edit, tool),
+      }))
+    );
+  },
+});
+
+/**
+ * Get a single edit with its before/after diff
+ * Visible to the proposer, the tool owner and moderators
+ */
+export const getEditDiff = query({
+  args: {
+    editId: v.id("toolEdits"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getUser(ctx);
+    const edit = await ctx.db.get(args.editId);
+    if (!edit) {
+      return null;
+    }
+
+    const tool = await ctx.db.get(edit.toolId);
+    const canView =
+      edit.proposedBy === user._id ||
+      tool?.submittedBy === user._id ||
+      hasPermission(user, "tools:moderate");
+    if (!canView) {
+      return null;
+    }
+
+    return {
+      ...edit,
+      toolName: tool?.name,
+      diff: buildDiff(edit, tool),
+    };
+  },
+});
+
+/**
+ * List the current user's proposed edits with their review outcome
+ */
+export const getMyEdits = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getUser(ctx);
+    return await ctx.db
+      .query("toolEdits")
+      .withIndex("by_proposedBy", (q) => q.eq("proposedBy", user._id))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Accept a pending edit and apply it to the tool
+ * Re-validates the change set and regenerates the embedding when needed
+ *
+ * @param editId - Edit to accept
+ * @param comment - Optional note for the proposer
+ * @param overrideConflicts - Apply even if the edited fields changed since the edit was proposed
+ */
+export const acceptEdit = mutation({
+  args: {
+    editId: v.id("toolEdits"),
+    comment: v.optional(v.string()),
+    overrideConflicts: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const edit = await ctx.db.get(args.editId);
+    if (!edit) {
+      throw new Error("Edit not found");
+    }
+    if (edit.status !== "pending") {
+      throw new Error("This edit has already been reviewed");
+    }
+
+    const { user, tool } = await canReviewEdit(ctx, edit.toolId);
+    if (tool.deletedAt !== undefined) {
+      throw new Error("Cannot apply an edit to a deleted tool");
+    }
+    assertNoEditConflicts(edit, tool, args.overrideConflicts);
+    const { changes } = edit;
+
+    await assertNoDuplicateTool(ctx, {
+      name: changes.name,
+      url: changes.url,
+      excludeToolId: tool._id,
+    });
+
+    // Attribute the revision to the proposer rather than the reviewer
+    await patchToolWithRevision(ctx, tool, {
+      ...changes,
+      ...(changes.name !== undefined ? { normalizedName: normalizeName(changes.name) } : {}),
+      ...(changes.url !== undefined ? { normalizedUrl: normalizeUrl(changes.url) } : {}),
+    }, edit.proposedBy, "edit");
+
+    await ctx.db.patch(edit._id, {
+      status: "accepted",
+      reviewedBy: user._id,
+      reviewComment: args.comment?.trim() || undefined,
+      reviewedAt: Date.now(),
+    });
+
+    const affectsEmbedding = EMBEDDING_TOOL_FIELDS.some(
+      (field) => changes[field] !== undefined
+    );
+    if (affectsEmbedding && tool.isApproved) {
+      await ctx.scheduler.runAfter(0, internal.actions.generateToolEmbedding, {
+        toolId: tool._id,
+      });
+    }
+
+    return {
+      success: true,
+      message: "Edit accepted and applied",
+    };
+  },
+});
+
+/**
+ * Reject a pending edit with a comment for the proposer
+ *
+ * @param editId - Edit to reject
+ * @param comment - Reason shown to the proposer
+ */
+export const rejectEdit = mutation({
+  args: {
+    editId: v.id("toolEdits"),
+    comment: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const comment = args.comment.trim();
+    if (!comment) {
+      throw new Error("A comment is required when rejecting an edit");
+    }
+
+    const edit = await ctx.db.get(args.editId);
+    if (!edit) {
+      throw new Error("Edit not found");
+    }
+    if (edit.status !== "pending") {
+      throw new Error("This edit has already been reviewed");
+    }
+
+    const { user } = await canReviewEdit(ctx, edit.toolId);
+
+    await ctx.db.patch(edit._id, {
+      status: "rejected",
+      reviewedBy: user._id,
+      reviewComment: comment,
+      reviewedAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      message: "Edit rejected",
+    };
+  },
+});
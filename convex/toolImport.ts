@@ -0,0 +1,534 @@
+/**
+ * Bulk tool import and enrichment
+ * Loads records in the sample.jsonl / detail.jsonl shape, validates each one
+ * like addTool, skips duplicates like checkDuplicate and reports per line.
+ * Enrichment matches records to existing tools and fills in missing fields.
+ */
+
+import { v } from "convex/values";
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { api, internal } from "./_generated/api";
+import {
+  cleanTags,
+  EMBEDDING_TOOL_FIELDS,
+  normalizeName,
+  normalizeUrl,
+  prepareToolSubmission,
+  ToolSubmission,
+  toolSubmissionValidator,
+} from "./lib/toolHelpers";
+import {
+  coerceEnrichmentRecord,
+  coerceToolRecord,
+  EnrichmentRecord,
+  parseToolRecords,
+} from "./lib/toolImport";
+import { insertToolWithRevision, patchToolWithRevision } from "./lib/revisions";
+import { findCategory, orderCategories } from "./lib/categories";
+import { canonicalizeTags } from "./lib/tags";
+import {
+  TOOL_IMPORT_BATCH_SIZE,
+  MAX_TOOL_CATEGORIES,
+  TOOL_IMPORT_EMBEDDING_INTERVAL_MS,
+} from "./lib/constants";
+
+type ImportStatus = "created" | "wouldCreate" | "duplicate" | "rejected";
+
+interface ImportLineReport {
+  line: number;
+  name?: string;
+  status: ImportStatus;
+  reason?: string;
+  existingTool?: string;
+  toolId?: Id<"aiTools">;
+}
+
+type EnrichStatus =
+  | "enriched"
+  | "wouldEnrich"
+  | "unchanged"
+  | "ambiguous"
+  | "unmatched"
+  | "rejected";
+
+interface EnrichLineReport {
+  line: number;
+  name?: string;
+  status: EnrichStatus;
+  reason?: string;
+  toolId?: Id<"aiTools">;
+  filledFields?: string[];
+  candidates?: string[];
+}
+
+// Fields enrichment may fill in when the tool has no value for them
+const ENRICHABLE_FIELDS = ["detail", "logoUrl", "tags"] as const;
+
+// Revision sources that mean a person chose the current value
+const MANUAL_REVISION_SOURCES = new Set(["update", "edit", "revert"]);
+
+/**
+ * Normalized URL and name of every tool, for in-memory duplicate checks
+ */
+export const getDuplicateKeys = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const tools = await ctx.db.query("aiTools").collect();
+    return tools.map((tool) => ({
+      toolId: tool._id,
+      isDeleted: tool.deletedAt !== undefined,
+      name: tool.name,
+      normalizedUrl: tool.normalizedUrl ?? normalizeUrl(tool.url),
+      normalizedName: tool.normalizedName ?? normalizeName(tool.name),
+    }));
+  },
+});
+
+/**
+ * Insert a batch of validated submissions as approved tools
+ * Re-checks exact URL and name duplicates in case the catalog changed since the
+ * action loaded it, and schedules embeddings spaced out for the rate limit
+ */
+export const insertImportedTools = internalMutation({
+  args: {
+    tools: v.array(toolSubmissionValidator),
+    importedBy: v.id("users"),
+    embeddingOffset: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const results: Array<
+      { toolId: Id<"aiTools"> } | { existingTool: string }
+    > = [];
+    let scheduled = 0;
+
+    for (const tool of args.tools) {
+      const submission = prepareToolSubmission(tool);
+
+      const existing =
+        (await ctx.db
+          .query("aiTools")
+          .withIndex("by_url", (q) => q.eq("url", submission.url))
+          .first()) ??
+        (await ctx.db
+          .query("aiTools")
+          .withIndex("by_normalizedUrl", (q) =>
+            q.eq("normalizedUrl", submission.normalizedUrl)
+          )
+          .first()) ??
+        (await ctx.db
+          .query("aiTools")
+          .withIndex("by_normalizedName", (q) =>
+            q.eq("normalizedName", submission.normalizedName)
+          )
+          .first());
+
+      if (existing) {
+        results.push({ existingTool: existing.name });
+        continue;
+      }
+
+      const now = Date.now();
+      const toolId = await insertToolWithRevision(
+        ctx,
+        {
+          ...submission,
+          tags: await canonicalizeTags(ctx, submission.tags),
+          submittedBy: args.importedBy,
+          isApproved: true,
+          moderationStatus: "approved",
+          reviewedBy: args.importedBy,
+          reviewedAt: now,
+        },
+        args.importedBy,
+        "import"
+      );
+
+      await ctx.scheduler.runAfter(
+        (args.embeddingOffset + scheduled) * TOOL_IMPORT_EMBEDDING_INTERVAL_MS,
+        internal.actions.generateToolEmbedding,
+        { toolId }
+      );
+      scheduled++;
+      results.push({ toolId });
+    }
+
+    return results;
+  },
+});
+
+/**
+ * Import tools from JSONL text (admin only)
+ * Accepts strict JSONL or the multi-line object lists shipped in sample.jsonl
+ * and detail.jsonl. Imported tools skip the moderation queue.
+ *
+ * @param jsonl - File contents to import
+ * @param dryRun - Validate and report without writing anything
+ * @returns Totals and a report entry for every record, keyed by its starting line
+ */
+export const importTools = action({
+  args: {
+    jsonl: v.string(),
+    dryRun: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{
+    dryRun: boolean;
+    totals: Record<ImportStatus, number>;
+    lines: ImportLineReport[];
+  }> => {
+    const adminId = await ctx.runQuery(internal.users.assertPermission, {
+      permission: "system:admin",
+    });
+
+    const records = parseToolRecords(args.jsonl);
+    if (records.length === 0) {
+      throw new Error("No tool records found in the import file");
+    }
+
+    const existing = await ctx.runQuery(internal.toolImport.getDuplicateKeys, {});
+    const categories = await ctx.runQuery(api.categories.listCategories, {});
+    const toolByUrl = new Map(existing.map((tool) => [tool.normalizedUrl, tool.name]));
+    const toolByName = new Map(existing.map((tool) => [tool.normalizedName, tool.name]));
+
+    const lines: ImportLineReport[] = [];
+    const pending: Array<{ report: ImportLineReport; tool: ToolSubmission }> = [];
+
+    for (const record of records) {
+      if (record.error !== undefined) {
+        lines.push({ line: record.line, status: "rejected", reason: record.error });
+        continue;
+      }
+
+      let tool: ToolSubmission;
+      let normalizedName: string;
+      let normalizedUrl: string;
+      try {
+        const {
+          normalizedName: name,
+          normalizedUrl: url,
+          ...fields
+        } = prepareToolSubmission(coerceToolRecord(record.value));
+
+        // Records may use the slug, either label or a legacy alias
+        const toSlug = (value: string) => {
+          const category = findCategory(value, categories);
+          if (!category) {
+            throw new Error(`Unknown category "${value}"`);
+          }
+          return category.slug;
+        };
+        const category = toSlug(fields.category);
+        const toolCategories = orderCategories(category, (fields.categories ?? []).map(toSlug));
+        if (toolCategories.length > MAX_TOOL_CATEGORIES) {
+          throw new Error(`A tool can belong to at most ${MAX_TOOL_CATEGORIES} categories`);
+        }
+        tool = { ...fields, category, categories: toolCategories };
+        normalizedName = name;
+        normalizedUrl = url;
+      } catch (error) {
+        lines.push({
+          line: record.line,
+          name: (record.value as { name?: unknown } | undefined)?.name as string | undefined,
+          status: "rejected",
+          reason: error instanceof Error ? error.message : "Invalid record",
+        });
+        continue;
+      }
+
+      // Earlier records in the same file count as existing tools
+      const duplicateOf = toolByUrl.get(normalizedUrl) ?? toolByName.get(normalizedName);
+      if (duplicateOf !== undefined) {
+        lines.push({
+          line: record.line,
+          name: tool.name,
+          status: "duplicate",
+          reason: toolByUrl.has(normalizedUrl)
+            ? "URL already exists"
+            : "Name already exists",
+          existingTool: duplicateOf,
+        });
+        continue;
+      }
+      toolByUrl.set(normalizedUrl, tool.name);
+      toolByName.set(normalizedName, tool.name);
+
+      const report: ImportLineReport = {
+        line: record.line,
+        name: tool.name,
+        status: "wouldCreate",
+      };
+      lines.push(report);
+      pending.push({ report, tool });
+    }
+
+    if (!args.dryRun) {
+      for (let start = 0; start < pending.length; start += TOOL_IMPORT_BATCH_SIZE) {
+        const batch = pending.slice(start, start + TOOL_IMPORT_BATCH_SIZE);
+        const results = await ctx.runMutation(internal.toolImport.insertImportedTools, {
+          tools: batch.map(({ tool }) => tool),
+          importedBy: adminId,
+          embeddingOffset: start,
+        });
+
+        results.forEach((result, index) => {
+          const { report } = batch[index];
+          if ("toolId" in result) {
+            report.status = "created";
+            report.toolId = result.toolId;
+          } else {
+            report.status = "duplicate";
+            report.reason = "Tool was added while the import was running";
+            report.existingTool = result.existingTool;
+          }
+        });
+      }
+    }
+
+    const totals: Record<ImportStatus, number> = {
+      created: 0,
+      wouldCreate: 0,
+      duplicate: 0,
+      rejected: 0,
+    };
+    for (const line of lines) {
+      totals[line.status]++;
+    }
+
+    console.log(
+      `Tool import${args.dryRun ? " (dry run)" : ""}: ${records.length} records, ` +
+        `${totals.created} created, ${totals.wouldCreate} would be created, ` +
+        `${totals.duplicate} duplicates, ${totals.rejected} rejected`
+    );
+
+    return { dryRun: args.dryRun, totals, lines };
+  },
+});
+
+/**
+ * Fill missing fields on a batch of matched tools
+ * A field is filled only when the tool has no value for it and no person has
+ * set it through an update, accepted edit or revert
+ *
+ * @returns The fields filled for each entry and how many embeddings were scheduled
+ */
+export const enrichToolBatch = internalMutation({
+  args: {
+    updates: v.array(
+      v.object({
+        toolId: v.id("aiTools"),
+        detail: v.optional(v.string()),
+        logoUrl: v.optional(v.string()),
+        tags: v.optional(v.array(v.string())),
+      })
+    ),
+    authorId: v.id("users"),
+    dryRun: v.boolean(),
+    embeddingOffset: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const results: Array<{ filledFields: string[] }> = [];
+    let scheduled = 0;
+
+    for (const update of args.updates) {
+      const tool = await ctx.db.get(update.toolId);
+      if (!tool || tool.deletedAt !== undefined) {
+        results.push({ filledFields: [] });
+        continue;
+      }
+
+      const revisions = await ctx.db
+        .query("toolRevisions")
+        .withIndex("by_tool_and_created", (q) => q.eq("toolId", tool._id))
+        .collect();
+      const manuallyEdited = new Set(
+        revisions
+          .filter((revision) => MANUAL_REVISION_SOURCES.has(revision.source))
+          .flatMap((revision) => revision.changedFields)
+      );
+
+      const patch: { detail?: string; logoUrl?: string; tags?: string[] } = {};
+      for (const field of ENRICHABLE_FIELDS) {
+        const current = tool[field];
+        const isMissing = current === undefined || current.length === 0;
+        if (update[field] !== undefined && isMissing && !manuallyEdited.has(field)) {
+          (patch as Record<string, unknown>)[field] = update[field];
+        }
+      }
+
+      const filledFields = Object.keys(patch);
+      results.push({ filledFields });
+      if (args.dryRun || filledFields.length === 0) {
+        continue;
+      }
+
+      if (patch.tags) {
+        patch.tags = await canonicalizeTags(ctx, patch.tags);
+      }
+      await patchToolWithRevision(ctx, tool, patch, args.authorId, "import");
+
+      const affectsEmbedding = EMBEDDING_TOOL_FIELDS.some((field) =>
+        filledFields.includes(field)
+      );
+      if (affectsEmbedding && tool.isApproved) {
+        await ctx.scheduler.runAfter(
+          (args.embeddingOffset + scheduled) * TOOL_IMPORT_EMBEDDING_INTERVAL_MS,
+          internal.actions.generateToolEmbedding,
+          { toolId: tool._id }
+        );
+        scheduled++;
+      }
+    }
+
+    return { results, scheduled };
+  },
+});
+
+/**
+ * Enrich existing tools from JSONL records such as detail.jsonl (admin only)
+ * Each record is matched by normalized name or normalized URL; a record that
+ * matches more than one tool is reported as ambiguous and left alone.
+ * Only tools that actually changed are re-embedded.
+ *
+ * @param jsonl - File contents with the enrichment records
+ * @param dryRun - Match and report without writing anything
+ * @returns Totals and a report entry for every record, keyed by its starting line
+ */
+export const enrichTools = action({
+  args: {
+    jsonl: v.string(),
+    dryRun: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{
+    dryRun: boolean;
+    totals: Record<EnrichStatus, number>;
+    lines: EnrichLineReport[];
+  }> => {
+    const adminId = await ctx.runQuery(internal.users.assertPermission, {
+      permission: "system:admin",
+    });
+
+    const records = parseToolRecords(args.jsonl);
+    if (records.length === 0) {
+      throw new Error("No tool records found in the enrichment file");
+    }
+
+    const tools = (await ctx.runQuery(internal.toolImport.getDuplicateKeys, {})).filter(
+      (tool) => !tool.isDeleted
+    );
+    const groupBy = (key: "normalizedName" | "normalizedUrl") => {
+      const groups = new Map<string, typeof tools>();
+      for (const tool of tools) {
+        groups.set(tool[key], [...(groups.get(tool[key]) ?? []), tool]);
+      }
+      return groups;
+    };
+    const toolsByName = groupBy("normalizedName");
+    const toolsByUrl = groupBy("normalizedUrl");
+
+    const lines: EnrichLineReport[] = [];
+    const matched: Array<{
+      report: EnrichLineReport;
+      toolId: Id<"aiTools">;
+      record: EnrichmentRecord;
+    }> = [];
+
+    for (const parsed of records) {
+      if (parsed.error !== undefined) {
+        lines.push({ line: parsed.line, status: "rejected", reason: parsed.error });
+        continue;
+      }
+
+      let record: EnrichmentRecord;
+      try {
+        record = coerceEnrichmentRecord(parsed.value);
+      } catch (error) {
+        lines.push({
+          line: parsed.line,
+          status: "rejected",
+          reason: error instanceof Error ? error.message : "Invalid record",
+        });
+        continue;
+      }
+
+      const candidates = new Map(
+        [
+          ...(record.name ? toolsByName.get(normalizeName(record.name)) ?? [] : []),
+          ...(record.url ? toolsByUrl.get(normalizeUrl(record.url)) ?? [] : []),
+        ].map((tool) => [tool.toolId, tool])
+      );
+
+      if (candidates.size === 0) {
+        lines.push({ line: parsed.line, name: record.name, status: "unmatched" });
+        continue;
+      }
+      if (candidates.size > 1) {
+        lines.push({
+          line: parsed.line,
+          name: record.name,
+          status: "ambiguous",
+          reason: "Name and URL match different tools",
+          candidates: [...candidates.values()].map((tool) => tool.name),
+        });
+        continue;
+      }
+
+      const [tool] = candidates.values();
+      const report: EnrichLineReport = {
+        line: parsed.line,
+        name: record.name ?? tool.name,
+        status: "unchanged",
+        toolId: tool.toolId,
+      };
+      lines.push(report);
+      matched.push({ report, toolId: tool.toolId, record });
+    }
+
+    let embeddingOffset = 0;
+    for (let start = 0; start < matched.length; start += TOOL_IMPORT_BATCH_SIZE) {
+      const batch = matched.slice(start, start + TOOL_IMPORT_BATCH_SIZE);
+      const { results, scheduled } = await ctx.runMutation(
+        internal.toolImport.enrichToolBatch,
+        {
+          updates: batch.map(({ toolId, record }) => ({
+            toolId,
+            detail: record.detail,
+            logoUrl: record.logoUrl,
+            tags: record.tags ? cleanTags(record.tags) : undefined,
+          })),
+          authorId: adminId,
+          dryRun: args.dryRun,
+          embeddingOffset,
+        }
+      );
+      embeddingOffset += scheduled;
+
+      results.forEach(({ filledFields }, index) => {
+        const { report } = batch[index];
+        if (filledFields.length > 0) {
+          report.status = args.dryRun ? "wouldEnrich" : "enriched";
+          report.filledFields = filledFields;
+        }
+      });
+    }
+
+    const totals: Record<EnrichStatus, number> = {
+      enriched: 0,
+      wouldEnrich: 0,
+      unchanged: 0,
+      ambiguous: 0,
+      unmatched: 0,
+      rejected: 0,
+    };
+    for (const line of lines) {
+      totals[line.status]++;
+    }
+
+    console.log(
+      `Tool enrichment${args.dryRun ? " (dry run)" : ""}: ${records.length} records, ` +
+        `${totals.enriched + totals.wouldEnrich} enriched, ${totals.unchanged} unchanged, ` +
+        `${totals.ambiguous} ambiguous, ${totals.unmatched} unmatched, ${totals.rejected} rejected`
+    );
+
+    return { dryRun: args.dryRun, totals, lines };
+  },
+});
@@ -0,0 +1,248 @@
+/**
+ * Screenshot and demo video galleries
+ * Each tool has an ordered list of media items that its owner and moderators
+ * manage. Screenshots are uploaded through a short-lived upload URL and checked
+ * when they are attached; videos are stored as links with their player URL.
+ */
+
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { getUser, isOwnerOrHasPermission, requirePermission } from "./users";
+import { getScreenshotProblem, getVideoEmbedUrl, normalizeCaption } from "./lib/toolMedia";
+import { assertUnclaimedUpload } from "./lib/logos";
+import { MAX_TOOL_MEDIA } from "./lib/constants";
+
+/**
+ * Load a tool the signed-in user may manage the gallery of
+ *
+ * @throws Error if the tool does not exist or the user is neither its owner nor a moderator
+ */
+const getManageableTool = async (ctx: MutationCtx, toolId: Id<"aiTools">) => {
+  const user = await getUser(ctx);
+  const tool = await ctx.db.get(toolId);
+  if (!tool || tool.deletedAt !== undefined) {
+    throw new Error("Tool not found");
+  }
+  if (!isOwnerOrHasPermission(user, tool.submittedBy, "tools:editAny")) {
+    throw new Error("You don't have permission to update this tool");
+  }
+  return { user, tool };
+};
+
+/**
+ * Load a media item together with its tool, checking the user may manage it
+ */
+const getManageableMedia = async (ctx: MutationCtx, mediaId: Id<"toolMedia">) => {
+  const media = await ctx.db.get(mediaId);
+  if (!media) {
+    throw new Error("Media item not found");
+  }
+  const { user } = await getManageableTool(ctx, media.toolId);
+  return { user, media };
+};
+
+const getToolMedia = async (ctx: MutationCtx, toolId: Id<"aiTools">) =>
+  await ctx.db
+    .query("toolMedia")
+    .withIndex("by_tool_and_order", (q) => q.eq("toolId", toolId))
+    .collect();
+
+/**
+ * Position after the last item of a gallery
+ *
+ * @throws Error if the gallery is full
+ */
+const getNextOrder = async (ctx: MutationCtx, toolId: Id<"aiTools">) => {
+  const items = await getToolMedia(ctx, toolId);
+  if (items.length >= MAX_TOOL_MEDIA) {
+    throw new Error(`A tool can have at most ${MAX_TOOL_MEDIA} screenshots and videos`);
+  }
+  return items.length > 0 ? items[items.length - 1].order + 1 : 0;
+};
+
+// Gallery items as clients see them; storage IDs stay on the server
+type PublicToolMedia = Omit<Doc<"toolMedia">, "storageId">;
+
+/**
+ * A tool's gallery in display order
+ *
+ * @returns The items, and whether the signed-in user may manage them
+ */
+export const listToolMedia = query({
+  args: {
+    toolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || tool.deletedAt !== undefined) {
+      return { items: [] as PublicToolMedia[], canManage: false };
+    }
+
+    const userId = await getAuthUserId(ctx);
+    const user = userId ? await ctx.db.get(userId) : null;
+    const canManage = user ? isOwnerOrHasPermission(user, tool.submittedBy, "tools:editAny") : false;
+
+    const items = await ctx.db
+      .query("toolMedia")
+      .withIndex("by_tool_and_order", (q) => q.eq("toolId", args.toolId))
+      .collect();
+
+    return {
+      items: items.map(({ storageId: _storageId, ...item }): PublicToolMedia => item),
+      canManage,
+    };
+  },
+});
+
+/**
+ * Upload URL for a screenshot
+ * Pass the returned storage ID to addToolImage
+ */
+export const generateMediaUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requirePermission(ctx, "tools:submit");
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Add an uploaded screenshot to the end of a tool's gallery
+ *
+ * @throws Error if the file is already in use, is not an acceptable image or the gallery is full
+ */
+export const addToolImage = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+    storageId: v.id("_storage"),
+    caption: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await getManageableTool(ctx, args.toolId);
+
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) {
+      throw new Error("Screenshot upload not found");
+    }
+    // Before anything is deleted, so another tool's file is never touched
+    await assertUnclaimedUpload(ctx, args.storageId);
+    const problem = getScreenshotProblem(file.contentType, file.size);
+    if (problem) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error(problem);
+    }
+    const url = await ctx.storage.getUrl(args.storageId);
+    if (!url) {
+      throw new Error("Screenshot upload not found");
+    }
+
+    let order: number;
+    try {
+      order = await getNextOrder(ctx, args.toolId);
+    } catch (error) {
+      await ctx.storage.delete(args.storageId);
+      throw error;
+    }
+
+    return await ctx.db.insert("toolMedia", {
+      toolId: args.toolId,
+      kind: "image",
+      storageId: args.storageId,
+      url,
+      caption: normalizeCaption(args.caption),
+      order,
+      addedBy: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Add a demo video to the end of a tool's gallery
+ *
+ * @param url - A YouTube, Vimeo or Loom link
+ * @throws Error if the link is not from a supported site or the gallery is full
+ */
+export const addToolVideo = mutation({
+  args: {
+    toolId: v.id("aiTools"),
+    url: v.string(),
+    caption: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await getManageableTool(ctx, args.toolId);
+
+    const url = args.url.trim();
+    const embedUrl = getVideoEmbedUrl(url);
+    if (!embedUrl) {
+      throw new Error("Videos must be YouTube, Vimeo or Loom links");
+    }
+
+    return await ctx.db.insert("toolMedia", {
+      toolId: args.toolId,
+      kind: "video",
+      url,
+      embedUrl,
+      caption: normalizeCaption(args.caption),
+      order: await getNextOrder(ctx, args.toolId),
+      addedBy: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const updateMediaCaption = mutation({
+  args: {
+    mediaId: v.id("toolMedia"),
+    caption: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { media } = await getManageableMedia(ctx, args.mediaId);
+    await ctx.db.patch(media._id, { caption: normalizeCaption(args.caption) });
+    return { success: true };
+  },
+});
+
+/**
+ * Swap a media item with its neighbour in the gallery
+ * Moving the first item up or the last item down does nothing
+ */
+export const moveToolMedia = mutation({
+  args: {
+    mediaId: v.id("toolMedia"),
+    direction: v.union(v.literal("up"), v.literal("down")),
+  },
+  handler: async (ctx, args) => {
+    const { media } = await getManageableMedia(ctx, args.mediaId);
+
+    const items = await getToolMedia(ctx, media.toolId);
+    const index = items.findIndex((item) => item._id === media._id);
+    const neighbour = items[args.direction === "up" ? index - 1 : index + 1];
+    if (!neighbour) {
+      return { success: false };
+    }
+
+    await ctx.db.patch(media._id, { order: neighbour.order });
+    await ctx.db.patch(neighbour._id, { order: media.order });
+    return { success: true };
+  },
+});
+
+/**
+ * Remove a media item, deleting its uploaded file
+ */
+export const removeToolMedia = mutation({
+  args: {
+    mediaId: v.id("toolMedia"),
+  },
+  handler: async (ctx, args) => {
+    const { media } = await getManageableMedia(ctx, args.mediaId);
+    if (media.storageId) {
+      await ctx.storage.delete(media.storageId);
+    }
+    await ctx.db.delete(media._id);
+    return { success: true };
+  },
+});
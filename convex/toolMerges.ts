@@ -0,0 +1,323 @@
+/**
+ * Merging duplicate tool listings
+ * Moves favourites, reviews, media, relations, analytics and successor links
+ * from a duplicate onto the surviving tool, then tombstones the duplicate and
+ * records a redirect to the survivor.
+ * A duplicate in another language becomes the survivor's translation.
+ */
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { requirePermission } from "./users";
+import { patchToolWithRevision } from "./lib/revisions";
+import { recordSlugHistory } from "./lib/slugs";
+import { findExistingRelation } from "./lib/toolRelations";
+import { syncToolCategories } from "./lib/categories";
+import { syncToolTags } from "./lib/tags";
+
+/**
+ * Follow the redirect recorded when a tool was merged away
+ *
+ * @returns The surviving tool's id, or null if the tool was never merged
+ */
+export const getRedirectTarget = async (ctx: QueryCtx, toolId: Id<"aiTools">) => {
+  const redirect = await ctx.db
+    .query("toolRedirects")
+    .withIndex("by_fromToolId", (q) => q.eq("fromToolId", toolId))
+    .first();
+  return redirect?.toToolId ?? null;
+};
+
+/**
+ * Merge a duplicate tool into the tool that should survive (admin only)
+ * A user who reviewed both keeps their most recently updated review; a user
+ * who favourited both keeps a single favourite. Rating and favourite totals
+ * are recomputed from the merged rows.
+ *
+ * @param duplicateToolId - Tool to merge away
+ * @param survivingToolId - Tool that keeps the merged data
+ */
+export const mergeTools = mutation({
+  args: {
+    duplicateToolId: v.id("aiTools"),
+    survivingToolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requirePermission(ctx, "system:admin");
+
+    if (args.duplicateToolId === args.survivingToolId) {
+      throw new Error("Cannot merge a tool into itself");
+    }
+
+    const duplicate = await ctx.db.get(args.duplicateToolId);
+    const survivor = await ctx.db.get(args.survivingToolId);
+    if (!duplicate || duplicate.deletedAt !== undefined) {
+      throw new Error("Duplicate tool not found");
+    }
+    if (!survivor || survivor.deletedAt !== undefined) {
+      throw new Error("Surviving tool not found");
+    }
+
+    // Favourites: drop the duplicate's row when the user already favourited the survivor
+    const favourites = await ctx.db
+      .query("favourites")
+      .withIndex("by_tool", (q) => q.eq("toolId", duplicate._id))
+      .collect();
+    let movedFavourites = 0;
+    for (const favourite of favourites) {
+      const existing = await ctx.db
+        .query("favourites")
+        .withIndex("by_user_and_tool", (q) =>
+          q.eq("userId", favourite.userId).eq("toolId", survivor._id)
+        )
+        .first();
+      if (existing) {
+        await ctx.db.delete(favourite._id);
+      } else {
+        await ctx.db.patch(favourite._id, { toolId: survivor._id });
+        movedFavourites++;
+      }
+    }
+
+    // Reviews: one review per user per tool, so keep the most recently updated one
+    const reviews = await ctx.db
+      .query("reviews")
+      .withIndex("by_tool", (q) => q.eq("toolId", duplicate._id))
+      .collect();
+    let movedReviews = 0;
+    let droppedReviews = 0;
+    for (const review of reviews) {
+      const existing = await ctx.db
+        .query("reviews")
+        .withIndex("by_user_and_tool", (q) =>
+          q.eq("userId", review.userId).eq("toolId", survivor._id)
+        )
+        .first();
+
+      const discarded = existing && existing.updatedAt >= review.updatedAt ? review : existing;
+      if (discarded) {
+        const votes = await ctx.db
+          .query("reviewVotes")
+          .withIndex("by_review", (q) => q.eq("reviewId", discarded._id))
+          .collect();
+        for (const vote of votes) {
+          await ctx.db.delete(vote._id);
+        }
+        await ctx.db.delete(discarded._id);
+        droppedReviews++;
+      }
+      if (discarded !== review) {
+        await ctx.db.patch(review._id, { toolId: survivor._id });
+        movedReviews++;
+      }
+    }
+
+    // Recompute the survivor's aggregates from the merged rows
+    const survivorReviews = await ctx.db
+      .query("reviews")
+      .withIndex("by_tool", (q) => q.eq("toolId", survivor._id))
+      .collect();
+    const survivorFavourites = await ctx.db
+      .query("favourites")
+      .withIndex("by_tool", (q) => q.eq("toolId", survivor._id))
+      .collect();
+    const ratingSum = survivorReviews.reduce((sum, review) => sum + review.rating, 0);
+    await ctx.db.patch(survivor._id, {
+      ratingSum,
+      totalReviews: survivorReviews.length,
+      averageRating: survivorReviews.length > 0 ? ratingSum / survivorReviews.length : 0,
+      totalFavourites: survivorFavourites.length,
+    });
+
+    // Gallery: the duplicate's media goes after the survivor's own
+    const survivorMedia = await ctx.db
+      .query("toolMedia")
+      .withIndex("by_tool_and_order", (q) => q.eq("toolId", survivor._id))
+      .collect();
+    const duplicateMedia = await ctx.db
+      .query("toolMedia")
+      .withIndex("by_tool_and_order", (q) => q.eq("toolId", duplicate._id))
+      .collect();
+    let nextOrder = survivorMedia.length > 0 ? survivorMedia[survivorMedia.length - 1].order + 1 : 0;
+    for (const media of duplicateMedia) {
+      await ctx.db.patch(media._id, { toolId: survivor._id, order: nextOrder++ });
+    }
+
+    // Relations: point the duplicate's relations at the survivor, dropping
+    // ones that would relate the survivor to itself or repeat a known relation
+    const duplicateRelations = [
+      ...(await ctx.db
+        .query("toolRelations")
+        .withIndex("by_from_and_type", (q) => q.eq("fromToolId", duplicate._id))
+        .collect()),
+      ...(await ctx.db
+        .query("toolRelations")
+        .withIndex("by_to_and_type", (q) => q.eq("toToolId", duplicate._id))
+        .collect()),
+    ];
+    for (const relation of duplicateRelations) {
+      const fromToolId = relation.fromToolId === duplicate._id ? survivor._id : relation.fromToolId;
+      const toToolId = relation.toToolId === duplicate._id ? survivor._id : relation.toToolId;
+      const isRepeat =
+        relation.status !== "rejected" &&
+        (await findExistingRelation(ctx, fromToolId, toToolId, relation.type)) !== null;
+      if (fromToolId === toToolId || isRepeat) {
+        await ctx.db.delete(relation._id);
+      } else {
+        await ctx.db.patch(relation._id, { fromToolId, toToolId });
+      }
+    }
+
+    // Close pending edit suggestions against the duplicate
+    const pendingEdits = await ctx.db
+      .query("toolEdits")
+      .withIndex("by_tool_and_status", (q) =>
+        q.eq("toolId", duplicate._id).eq("status", "pending")
+      )
+      .collect();
+    for (const edit of pendingEdits) {
+      await ctx.db.patch(edit._id, {
+        status: "rejected",
+        reviewedBy: admin._id,
+        reviewComment: `This tool was merged into "${survivor.name}"`,
+        reviewedAt: Date.now(),
+      });
+    }
+
+    // Point click analytics and cached search results at the survivor
+    const clicks = await ctx.db
+      .query("searchAnalytics")
+      .withIndex("by_clickedToolId", (q) => q.eq("clickedToolId", duplicate._id))
+      .collect();
+    for (const click of clicks) {
+      await ctx.db.patch(click._id, { clickedToolId: survivor._id });
+    }
+
+    // Cache entries expire hourly, so the table stays small enough to scan
+    const cacheEntries = await ctx.db.query("searchCache").collect();
+    for (const entry of cacheEntries) {
+      if (entry.results.includes(duplicate._id)) {
+        const results = [
+          ...new Set(entry.results.map((id) => (id === duplicate._id ? survivor._id : id))),
+        ];
+        await ctx.db.patch(entry._id, { results });
+      }
+    }
+
+    // Keep redirects one hop long when the duplicate was itself a merge target
+    const inboundRedirects = await ctx.db
+      .query("toolRedirects")
+      .withIndex("by_toToolId", (q) => q.eq("toToolId", duplicate._id))
+      .collect();
+    for (const redirect of inboundRedirects) {
+      await ctx.db.patch(redirect._id, { toToolId: survivor._id });
+    }
+    await ctx.db.insert("toolRedirects", {
+      fromToolId: duplicate._id,
+      toToolId: survivor._id,
+      mergedBy: admin._id,
+      createdAt: Date.now(),
+    });
+
+    // Old links to the duplicate's page open the survivor's page
+    const inboundSlugs = await ctx.db
+      .query("toolSlugHistory")
+      .withIndex("by_tool", (q) => q.eq("toolId", duplicate._id))
+      .collect();
+    for (const row of inboundSlugs) {
+      await ctx.db.patch(row._id, { toolId: survivor._id });
+    }
+    if (duplicate.slug) {
+      await recordSlugHistory(ctx, duplicate.slug, survivor._id);
+    }
+
+    // Lifecycle banners that named the duplicate as successor name the survivor
+    const successorOf = await ctx.db
+      .query("aiTools")
+      .withIndex("by_successorToolId", (q) => q.eq("successorToolId", duplicate._id))
+      .collect();
+    for (const tool of successorOf) {
+      await patchToolWithRevision(
+        ctx,
+        tool,
+        // The survivor cannot replace itself
+        { successorToolId: tool._id === survivor._id ? undefined : survivor._id },
+        admin._id,
+        "update"
+      );
+    }
+
+    // Tombstone the duplicate, drop it from vector search and from the
+    // category and tag join tables, since a merged tool is never restored
+    await patchToolWithRevision(
+      ctx,
+      duplicate,
+      {
+        slug: undefined,
+        isApproved: false,
+        deletedAt: Date.now(),
+        deletedBy: admin._id,
+        embedding: undefined,
+        embeddingVersion: undefined,
+        translationEmbeddings: undefined,
+        ratingSum: 0,
+        totalReviews: 0,
+        averageRating: 0,
+        totalFavourites: 0,
+      },
+      admin._id,
+      "merge"
+    );
+    await syncToolCategories(ctx, duplicate._id, []);
+    await syncToolTags(ctx, duplicate._id, [], { before: false, after: false });
+
+    // A listing in another language becomes the survivor's translation
+    // unless the survivor already has content in that language
+    const keepsTranslation =
+      duplicate.language !== survivor.language &&
+      !survivor.translations?.some((translation) => translation.language === duplicate.language);
+    if (keepsTranslation) {
+      await patchToolWithRevision(ctx, survivor, {
+        translations: [
+          ...(survivor.translations ?? []),
+          {
+            language: duplicate.language,
+            name: duplicate.name,
+            description: duplicate.description,
+            detail: duplicate.detail,
+          },
+        ],
+      }, admin._id, "update");
+      if (survivor.isApproved) {
+        await ctx.scheduler.runAfter(0, internal.actions.generateToolEmbedding, {
+          toolId: survivor._id,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      movedFavourites,
+      movedReviews,
+      droppedReviews,
+      keptTranslation: keepsTranslation ? duplicate.language : undefined,
+      message: `Merged "${duplicate.name}" into "${survivor.name}"`,
+    };
+  },
+});
+
+/**
+ * Resolve a possibly merged tool id to the tool that replaced it
+ *
+ * @returns The surviving tool id, or null if the tool was never merged
+ */
+export const resolveToolRedirect = query({
+  args: {
+    toolId: v.id("aiTools"),
+  },
+  handler: async (ctx, args) => {
+    return await getRedirectTarget(ctx, args.toolId);
+  },
+});
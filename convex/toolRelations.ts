@@ -0,0 +1,231 @@
+/**
+ * Typed relations between tools
+ * Signed-in users propose that one tool is an alternative to, integrates with
+ * or is built on another; moderators approve or reject the proposal. Only
+ * approved relations between listed tools are shown on tool pages.
+ */
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requirePermission } from "./users";
+import { localizeTool } from "./lib/localization";
+import { languageValidator } from "./lib/toolHelpers";
+import {
+  findExistingRelation,
+  getToolRelations,
+  toolRelationTypeValidator,
+} from "./lib/toolRelations";
+
+/**
+ * The tools at the other end of a set of relations
+ * Unlisted tools and repeats are left out
+ */
+const getRelatedTools = async (
+  ctx: QueryCtx,
+  toolId: Id<"aiTools">,
+  relations: Doc<"toolRelations">[],
+  language?: "en" | "vi"
+) => {
+  const otherIds = [
+    ...new Set(
+      relations.map((relation) => (relation.fromToolId === toolId ? relation.toToolId : relation.fromToolId))
+    ),
+  ];
+  const tools = await Promise.all(otherIds.map((id) => ctx.db.get(id)));
+  return tools
+    .filter((tool): tool is Doc<"aiTools"> => !!tool && tool.isApproved && tool.deletedAt === undefined)
+    .map((tool) => localizeTool(tool, language));
+};
+
+const getRelationTool = async (ctx: QueryCtx, toolId: Id<"aiTools">) => {
+  const tool = await ctx.db.get(toolId);
+  if (!tool || !tool.isApproved || tool.deletedAt !== undefined) {
+    throw new Error("Tool not found");
+  }
+  return tool;
+};
+
+/**
+ * Approved alternatives to a tool, in either direction
+ */
+export const getAlternatives = query({
+  args: {
+    toolId: v.id("aiTools"),
+    language: v.optional(languageValidator),
+  },
+  handler: async (ctx, args) => {
+    const relations = await getToolRelations(ctx, args.toolId, "alternative-to", "approved", "both");
+    return await getRelatedTools(ctx, args.toolId, relations, args.language);
+  },
+});
+
+/**
+ * Approved integrations of a tool, in either direction
+ */
+export const getIntegrations = query({
+  args: {
+    toolId: v.id("aiTools"),
+    language: v.optional(languageValidator),
+  },
+  handler: async (ctx, args) => {
+    const relations = await getToolRelations(ctx, args.toolId, "integrates-with", "approved", "both");
+    return await getRelatedTools(ctx, args.toolId, relations, args.language);
+  },
+});
+
+/**
+ * Approved built-on relations of a tool
+ *
+ * @returns builtOn - Tools this tool is built on
+ * @returns builtOnThis - Tools built on this tool
+ */
+export const getBuiltOn = query({
+  args: {
+    toolId: v.id("aiTools"),
+    language: v.optional(languageValidator),
+  },
+  handler: async (ctx, args) => {
+    const outgoing = await getToolRelations(ctx, args.toolId, "built-on", "approved", "outgoing");
+    const incoming = await getToolRelations(ctx, args.toolId, "built-on", "approved", "incoming");
+    return {
+      builtOn: await getRelatedTools(ctx, args.toolId, outgoing, args.language),
+      builtOnThis: await getRelatedTools(ctx, args.toolId, incoming, args.language),
+    };
+  },
+});
+
+/**
+ * Propose a relation between two listed tools
+ *
+ * @param fromToolId - Subject of the relation, e.g. Cursor
+ * @param toToolId - Object of the relation, e.g. VS Code
+ * @param type - How the first tool relates to the second
+ * @param note - Optional explanation for moderators
+ * @throws Error if the tools are the same, not listed, or the relation is already known
+ */
+export const proposeRelation = mutation({
+  args: {
+    fromToolId: v.id("aiTools"),
+    toToolId: v.id("aiTools"),
+    type: toolRelationTypeValidator,
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requirePermission(ctx, "tools:submit");
+
+    if (args.fromToolId === args.toToolId) {
+      throw new Error("A tool cannot be related to itself");
+    }
+    const fromTool = await getRelationTool(ctx, args.fromToolId);
+    const toTool = await getRelationTool(ctx, args.toToolId);
+
+    if (await findExistingRelation(ctx, args.fromToolId, args.toToolId, args.type)) {
+      throw new Error("This relation has already been suggested");
+    }
+    if (args.type === "built-on" && (await findExistingRelation(ctx, args.toToolId, args.fromToolId, "built-on"))) {
+      throw new Error(`"${toTool.name}" is already listed as built on "${fromTool.name}"`);
+    }
+
+    const relationId = await ctx.db.insert("toolRelations", {
+      fromToolId: args.fromToolId,
+      toToolId: args.toToolId,
+      type: args.type,
+      status: "pending",
+      proposedBy: user._id,
+      note: args.note?.trim() || undefined,
+      createdAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      relationId,
+      message: "Your suggested relation has been submitted for review",
+    };
+  },
+});
+
+/**
+ * List pending relations (moderator queue)
+ */
+export const listPendingRelations = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "tools:moderate");
+
+    const relations = await ctx.db
+      .query("toolRelations")
+      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .order("asc")
+      .take(args.limit ?? 50);
+
+    return await Promise.all(
+      relations.map(async (relation) => ({
+        ...relation,
+        fromToolName: (await ctx.db.get(relation.fromToolId))?.name,
+        toToolName: (await ctx.db.get(relation.toToolId))?.name,
+      }))
+    );
+  },
+});
+
+/**
+ * Approve or reject a pending relation
+ *
+ * @param comment - Reason shown to the proposer; required when rejecting
+ */
+export const reviewRelation = mutation({
+  args: {
+    relationId: v.id("toolRelations"),
+    decision: v.union(v.literal("approved"), v.literal("rejected")),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const moderator = await requirePermission(ctx, "tools:moderate");
+
+    const relation = await ctx.db.get(args.relationId);
+    if (!relation) {
+      throw new Error("Relation not found");
+    }
+    if (relation.status !== "pending") {
+      throw new Error("This relation has already been reviewed");
+    }
+    const comment = args.comment?.trim();
+    if (args.decision === "rejected" && !comment) {
+      throw new Error("A comment is required when rejecting a relation");
+    }
+
+    await ctx.db.patch(relation._id, {
+      status: args.decision,
+      reviewedBy: moderator._id,
+      reviewComment: comment || undefined,
+      reviewedAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      message: args.decision === "approved" ? "Relation approved" : "Relation rejected",
+    };
+  },
+});
+
+/**
+ * Take down an approved relation that turned out to be wrong
+ */
+export const removeRelation = mutation({
+  args: {
+    relationId: v.id("toolRelations"),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, "tools:moderate");
+
+    const relation = await ctx.db.get(args.relationId);
+    if (!relation) {
+      throw new Error("Relation not found");
+    }
+    await ctx.db.delete(relation._id);
+    return { success: true };
+  },
+});
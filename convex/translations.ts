@@ -0,0 +1,226 @@
+/**
+ * Machine-translation pipeline for tool content
+ * Translates the description and detail of a tool into the other language and
+ * stores the result as a machine-translated variant. People can correct it
+ * later through updateTool or a suggested edit, which clears the flag.
+ */
+
+import { v } from "convex/values";
+import {
+  action,
+  ActionCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { patchToolWithRevision } from "./lib/revisions";
+import { getTranslationProvider, translateToolContent } from "./lib/machineTranslation";
+import { toolTranslationValidator } from "./lib/localization";
+import { TRANSLATION_BATCH_SIZE, TRANSLATION_INTERVAL_MS } from "./lib/constants";
+
+const languageValidator = v.union(v.literal("en"), v.literal("vi"));
+
+type TranslationResult = {
+  success: boolean;
+  toolId: Id<"aiTools">;
+  status: "translated" | "skipped" | "failed";
+  message: string;
+};
+
+/**
+ * Approved tools that have no content in a language yet
+ */
+export const getToolsMissingTranslation = internalQuery({
+  args: {
+    language: languageValidator,
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const tools = await ctx.db
+      .query("aiTools")
+      .withIndex("by_isApproved", (q) => q.eq("isApproved", true))
+      .collect();
+
+    return tools
+      .filter(
+        (tool) =>
+          tool.language !== args.language &&
+          !tool.translations?.some((translation) => translation.language === args.language)
+      )
+      .slice(0, args.limit)
+      .map((tool) => tool._id);
+  },
+});
+
+/**
+ * Store a machine translation on a tool
+ * Skips tools whose source text changed while translating and never replaces
+ * a translation that a person wrote or corrected
+ *
+ * @param sourceDescription - Primary description the translation was made from
+ */
+export const saveMachineTranslation = internalMutation({
+  args: {
+    toolId: v.id("aiTools"),
+    translation: toolTranslationValidator,
+    sourceDescription: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ saved: boolean; reason?: string }> => {
+    const tool = await ctx.db.get(args.toolId);
+    if (!tool || tool.deletedAt !== undefined) {
+      return { saved: false, reason: "Tool not found" };
+    }
+    if (tool.description !== args.sourceDescription) {
+      return { saved: false, reason: "The description changed while translating" };
+    }
+    if (tool.language === args.translation.language) {
+      return { saved: false, reason: "The tool is already in this language" };
+    }
+
+    const existing = tool.translations?.find(
+      (translation) => translation.language === args.translation.language
+    );
+    if (existing && !existing.machineTranslated) {
+      return { saved: false, reason: "A reviewed translation already exists" };
+    }
+
+    const translations = [
+      ...(tool.translations ?? []).filter(
+        (translation) => translation.language !== args.translation.language
+      ),
+      { ...args.translation, machineTranslated: true },
+    ];
+    await patchToolWithRevision(ctx, tool, { translations }, undefined, "translation");
+
+    // Each translation has its own embedding for semantic search
+    if (tool.isApproved) {
+      await ctx.scheduler.runAfter(0, internal.actions.generateToolEmbedding, {
+        toolId: tool._id,
+      });
+    }
+
+    return { saved: true };
+  },
+});
+
+/**
+ * Translate one tool and store the result
+ * Shared by the public action and the scheduled batch jobs
+ */
+const translateAndSave = async (
+  ctx: ActionCtx,
+  toolId: Id<"aiTools">,
+  language: "en" | "vi"
+): Promise<TranslationResult> => {
+  try {
+    const tool = await ctx.runQuery(api.aiTools.getToolById, { toolId });
+    if (!tool) {
+      throw new Error(`Tool with ID ${toolId} not found or not approved`);
+    }
+    if (tool.language === language) {
+      return {
+        success: true,
+        toolId,
+        status: "skipped",
+        message: `"${tool.name}" is already in ${language}`,
+      };
+    }
+
+    const provider = getTranslationProvider();
+    const translation = await translateToolContent(provider, tool, language);
+
+    const result: { saved: boolean; reason?: string } = await ctx.runMutation(
+      internal.translations.saveMachineTranslation,
+      { toolId: tool._id, translation, sourceDescription: tool.description }
+    );
+
+    return {
+      success: true,
+      toolId,
+      status: result.saved ? "translated" : "skipped",
+      message: result.saved
+        ? `Translated "${tool.name}" to ${language} with ${provider.name}`
+        : `Skipped "${tool.name}": ${result.reason}`,
+    };
+  } catch (error: any) {
+    console.error(`Failed to translate tool ${toolId}:`, error);
+    return {
+      success: false,
+      toolId,
+      status: "failed",
+      message: `Failed to translate: ${error.message || "Unknown error"}`,
+    };
+  }
+};
+
+/**
+ * Translate a single tool into another language (moderators and admins)
+ *
+ * @param toolId - Tool to translate
+ * @param language - Target language
+ */
+export const translateTool = action({
+  args: {
+    toolId: v.id("aiTools"),
+    language: languageValidator,
+  },
+  handler: async (ctx, args): Promise<TranslationResult> => {
+    await ctx.runQuery(internal.users.assertPermission, { permission: "tools:editAny" });
+
+    return await translateAndSave(ctx, args.toolId, args.language);
+  },
+});
+
+/**
+ * Translate a single tool in the background
+ * Internal so it can only be scheduled by translateMissingTools
+ */
+export const runToolTranslation = internalAction({
+  args: {
+    toolId: v.id("aiTools"),
+    language: languageValidator,
+  },
+  handler: async (ctx, args): Promise<TranslationResult> => {
+    return await translateAndSave(ctx, args.toolId, args.language);
+  },
+});
+
+/**
+ * Queue machine translations for approved tools missing a language (admin only)
+ * Jobs are spaced to respect the Gemini rate limit; run again for the next batch
+ *
+ * @param language - Target language
+ * @param limit - Maximum number of tools to queue (default: TRANSLATION_BATCH_SIZE)
+ */
+export const translateMissingTools = action({
+  args: {
+    language: languageValidator,
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ queuedCount: number; message: string }> => {
+    await ctx.runQuery(internal.users.assertPermission, { permission: "system:admin" });
+
+    // Fail fast on a misconfigured provider instead of in every job
+    getTranslationProvider();
+
+    const toolIds: Id<"aiTools">[] = await ctx.runQuery(
+      internal.translations.getToolsMissingTranslation,
+      { language: args.language, limit: args.limit ?? TRANSLATION_BATCH_SIZE }
+    );
+
+    for (const [index, toolId] of toolIds.entries()) {
+      await ctx.scheduler.runAfter(
+        index * TRANSLATION_INTERVAL_MS,
+        internal.translations.runToolTranslation,
+        { toolId, language: args.language }
+      );
+    }
+
+    return {
+      queuedCount: toolIds.length,
+      message: `Queued ${toolIds.length} tool(s) for translation to ${args.language}`,
+    };
+  },
+});
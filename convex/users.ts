@@ -1,5 +1,15 @@
-import { query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+    DEFAULT_ROLE,
+    Permission,
+    permissionValidator,
+    Role,
+    ROLE_PERMISSIONS,
+    roleValidator,
+} from "./lib/roles";
 
 export const getUser = async (ctx: QueryCtx | MutationCtx) => {
     const userId = await getAuthUserId(ctx);
@@ -15,4 +25,129 @@ export const getUser = async (ctx: QueryCtx | MutationCtx) => {
         throw new Error("User not found");
     }
     return user;
-}
\ No newline at end of file
+}
+
+export const getUserRole = (user: Doc<"users">): Role => user.role ?? DEFAULT_ROLE;
+
+export const hasPermission = (user: Doc<"users">, permission: Permission) =>
+    ROLE_PERMISSIONS[getUserRole(user)].includes(permission);
+
+/**
+ * Load the signed-in user and check they hold a permission
+ * @throws Error if the user is not signed in or lacks the permission
+ */
+export const requirePermission = async (
+    ctx: QueryCtx | MutationCtx,
+    permission: Permission
+) => {
+    const user = await getUser(ctx);
+    if (!hasPermission(user, permission)) {
+        throw new Error(`You don't have permission to perform this action (${permission})`);
+    }
+    return user;
+}
+
+/**
+ * Owners may always act on their own records; everyone else needs the
+ * corresponding "any" permission (e.g. tools:editAny)
+ */
+export const isOwnerOrHasPermission = (
+    user: Doc<"users">,
+    ownerId: Id<"users"> | undefined,
+    permission: Permission
+) => ownerId === user._id || hasPermission(user, permission);
+
+/**
+ * Permission check for actions, which have no direct database access
+ * Runs with the caller's auth identity when invoked via ctx.runQuery
+ */
+export const assertPermission = internalQuery({
+    args: {
+        permission: permissionValidator,
+    },
+    handler: async (ctx, args) => {
+        const user = await requirePermission(ctx, args.permission);
+        return user._id;
+    },
+});
+
+export const getMyPermissions = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return { role: null, permissions: [] as Permission[] };
+        }
+        const user = await ctx.db.get(userId);
+        if (!user) {
+            return { role: null, permissions: [] as Permission[] };
+        }
+        const role = getUserRole(user);
+        return { role, permissions: ROLE_PERMISSIONS[role] };
+    },
+});
+
+export const listUsersByRole = query({
+    args: {
+        role: roleValidator,
+    },
+    handler: async (ctx, args) => {
+        await requirePermission(ctx, "users:manageRoles");
+        const users = await ctx.db
+            .query("users")
+            .withIndex("by_role", (q) => q.eq("role", args.role))
+            .collect();
+        if (args.role !== DEFAULT_ROLE) {
+            return users;
+        }
+        // Users who never had a role assigned hold the default role
+        const unassigned = await ctx.db
+            .query("users")
+            .withIndex("by_role", (q) => q.eq("role", undefined))
+            .collect();
+        return [...users, ...unassigned];
+    },
+});
+
+export const setUserRole = mutation({
+    args: {
+        userId: v.id("users"),
+        role: roleValidator,
+    },
+    handler: async (ctx, args) => {
+        const admin = await requirePermission(ctx, "users:manageRoles");
+        if (admin._id === args.userId && args.role !== "admin") {
+            throw new Error("Admins cannot remove their own admin role");
+        }
+
+        const user = await ctx.db.get(args.userId);
+        if (!user) {
+            throw new Error("User not found");
+        }
+
+        await ctx.db.patch(args.userId, { role: args.role });
+    },
+});
+
+/**
+ * Grant the admin role by email
+ * Used to bootstrap the first admin: `npx convex run users:bootstrapAdmin '{"email": "..."}'`
+ */
+export const bootstrapAdmin = internalMutation({
+    args: {
+        email: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await ctx.db
+            .query("users")
+            .withIndex("email", (q) => q.eq("email", args.email))
+            .first();
+
+        if (!user) {
+            throw new Error(`No user with email ${args.email}`);
+        }
+
+        await ctx.db.patch(user._id, { role: "admin" });
+        return user._id;
+    },
+});
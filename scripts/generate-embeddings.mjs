@@ -3,6 +3,7 @@
 /**
  * Script to generate embeddings for all AI tools
  * Calls the generateAllEmbeddings action in Convex
+ * Requires CONVEX_AUTH_TOKEN to hold the JWT of a user with the admin role
  */
 
 import { ConvexHttpClient } from "convex/browser";
@@ -32,6 +33,14 @@ console.log(`📡 Connecting to Convex: ${CONVEX_URL}\n`);
 
 const client = new ConvexHttpClient(CONVEX_URL);
 
+// generateAllEmbeddings is admin-only: authenticate as an admin user
+const CONVEX_AUTH_TOKEN = process.env.CONVEX_AUTH_TOKEN;
+if (CONVEX_AUTH_TOKEN) {
+  client.setAuth(CONVEX_AUTH_TOKEN);
+} else {
+  console.warn("⚠️  CONVEX_AUTH_TOKEN not set; the action requires an admin session and will be rejected");
+}
+
 try {
   // Call the generateAllEmbeddings action
   const result = await client.action("actions:generateAllEmbeddings", {});
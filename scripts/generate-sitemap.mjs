@@ -79,16 +79,19 @@ async function generateSitemap() {
     // Fetch all approved tools for dynamic pages
     console.log("Fetching tools from Convex...");
     
-    // Note: Uncomment this when you add tool detail pages
-    // const tools = await client.query(api.seo.getAllApprovedTools);
-    // tools.forEach((tool) => {
-    //   urls.push({
-    //     loc: `${DOMAIN}/tool/${tool._id}`,
-    //     lastmod: formatDate(tool._creationTime),
-    //     changefreq: "weekly",
-    //     priority: "0.8",
-    //   });
-    // });
+    const tools = await client.query(api.seo.getAllApprovedTools);
+    tools
+      .filter((tool) => tool.slug)
+      .forEach((tool) => {
+        for (const path of [`/tools/${tool.slug}`, `/vi/tools/${tool.slug}`]) {
+          urls.push({
+            loc: `${DOMAIN}${path}`,
+            lastmod: formatDate(tool._creationTime),
+            changefreq: "weekly",
+            priority: "0.8",
+          });
+        }
+      });
 
     console.log(`Generated ${urls.length} URLs`);
   } catch (error) {
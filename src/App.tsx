@@ -27,6 +27,12 @@ const AboutUsPage = lazy(() =>
   }))
 );
 
+const ToolDetailPage = lazy(() =>
+  import("./pages/ToolDetailPage").then((module) => ({
+    default: module.ToolDetailPage,
+  }))
+);
+
 type Language = "en" | "vi";
 
 function AppContent() {
@@ -79,6 +85,34 @@ function AppContent() {
                 </Suspense>
               }
             />
+            <Route
+              path="/tools/:slug"
+              element={
+                <Suspense
+                  fallback={<div className="py-10 text-center">Loading...</div>}
+                >
+                  <ToolDetailPage
+                    language={language}
+                    routeLanguage="en"
+                    setLanguage={setLanguage}
+                  />
+                </Suspense>
+              }
+            />
+            <Route
+              path="/vi/tools/:slug"
+              element={
+                <Suspense
+                  fallback={<div className="py-10 text-center">Loading...</div>}
+                >
+                  <ToolDetailPage
+                    language={language}
+                    routeLanguage="vi"
+                    setLanguage={setLanguage}
+                  />
+                </Suspense>
+              }
+            />
           </Routes>
         </Layout>
   );
@@ -1,8 +1,12 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { useCategories } from "@/hooks/useCategories";
 import { toast } from "sonner";
 import { useAddTool } from "../hooks/useToolMutations";
+import { useConvexMutation } from "@/hooks/useConvexMutation";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -11,7 +15,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Alert, AlertDescription } from "./ui/alert";
-import { X, AlertCircle, Loader2, Sparkles, Link2, FileText, Tag, DollarSign, Image as ImageIcon, CheckCircle2 } from "lucide-react";
+import { X, AlertCircle, Loader2, Sparkles, Link2, FileText, Tag, DollarSign, Image as ImageIcon, CheckCircle2, Wand2, Languages, Upload } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
 import useDebounce from "../hooks/use-debounce";
 
@@ -20,6 +24,24 @@ interface AddToolFormProps {
   onClose: () => void;
 }
 
+// Secondary categories a submitter can pick besides the primary one
+const MAX_ADDITIONAL_CATEGORIES = 2;
+
+type ContentLanguage = "en" | "vi";
+
+// Logo uploads accepted by the server (see convex/lib/logos.ts)
+const LOGO_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+const LOGO_MAX_BYTES = 1024 * 1024;
+
+// Description length before category and tag suggestions are looked up
+const MIN_DESCRIPTION_FOR_LABELS = 40;
+
+// Form fields a page lookup can suggest values for
+type PageSuggestion = {
+  field: "name" | "description" | "logoUrl" | "language";
+  value: string;
+};
+
 const translations = {
   en: {
     addTool: "Add New AI Tool",
@@ -27,7 +49,10 @@ const translations = {
     description: "Description",
     url: "Website URL",
     category: "Category",
+    selectCategory: "Select a category",
+    additionalCategories: "Also fits in (optional, up to 2)",
     tags: "Tags (comma separated)",
+    suggestedTags: "Suggestions:",
     pricing: "Pricing Model",
     logoUrl: "Logo URL (optional)",
     free: "Free",
@@ -36,7 +61,7 @@ const translations = {
     submit: "Add Tool",
     cancel: "Cancel",
     submitting: "Adding Tool...",
-    success: "Tool added successfully and is now live!",
+    success: "Tool submitted! It will go live once a moderator approves it.",
     error: "Error adding tool",
     checkingDuplicate: "Checking for duplicates...",
     duplicateFound: "This tool already exists in our database",
@@ -48,7 +73,33 @@ const translations = {
     invalidUrl: "Please enter a valid URL (must start with http:// or https://)",
     urlInUse: "This URL is already registered",
     saving: "Saving to database...",
-    saved: "Successfully saved to database!",
+    saved: "Submitted for review!",
+    contentLanguage: "Content language",
+    english: "English",
+    vietnamese: "Vietnamese",
+    fillFromPage: "Fill from website",
+    fetchingPage: "Reading the website...",
+    pageLookupFailed: "Could not read the website",
+    prefilled: "Filled in details from the website",
+    noPageDetails: "The website has no details to suggest",
+    pageSuggestions: "Suggestions from the website",
+    useSuggestion: "Use",
+    useAllSuggestions: "Use all",
+    dismiss: "Dismiss",
+    draftFromUrl: "Draft listing with AI",
+    drafting: "Drafting listing...",
+    draftFailed: "Could not draft the listing",
+    draftNotice: "AI drafted this listing from the website. Check every field before submitting.",
+    detail: "Detailed description (optional)",
+    uploadLogo: "Upload logo",
+    uploadingLogo: "Uploading...",
+    removeLogo: "Remove",
+    logoHint: "PNG, JPEG, WebP or GIF up to 1 MB, or paste a link to the logo",
+    logoWrongType: "Logos must be PNG, JPEG, WebP or GIF images",
+    logoTooLarge: "Logos must be at most 1 MB",
+    logoUploadFailed: "Could not upload the logo",
+    similarToolsUse: "Similar tools use:",
+    findingLabels: "Finding suggestions...",
   },
   vi: {
     addTool: "Thêm công cụ AI mới",
@@ -56,7 +107,10 @@ const translations = {
     description: "Mô tả",
     url: "URL trang web",
     category: "Danh mục",
+    selectCategory: "Chọn danh mục",
+    additionalCategories: "Cũng thuộc danh mục (tùy chọn, tối đa 2)",
     tags: "Thẻ (phân cách bằng dấu phẩy)",
+    suggestedTags: "Gợi ý:",
     pricing: "Mô hình giá",
     logoUrl: "URL logo (tùy chọn)",
     free: "Miễn phí",
@@ -65,7 +119,7 @@ const translations = {
     submit: "Thêm công cụ",
     cancel: "Hủy",
     submitting: "Đang thêm công cụ...",
-    success: "Công cụ đã được thêm thành công và hiện đã có sẵn!",
+    success: "Đã gửi công cụ! Công cụ sẽ hiển thị sau khi được kiểm duyệt.",
     error: "Lỗi khi thêm công cụ",
     checkingDuplicate: "Đang kiểm tra trùng lặp...",
     duplicateFound: "Công cụ này đã tồn tại trong cơ sở dữ liệu của chúng tôi",
@@ -77,7 +131,33 @@ const translations = {
     invalidUrl: "Vui lòng nhập URL hợp lệ (phải bắt đầu bằng http:// hoặc https://)",
     urlInUse: "URL này đã được đăng ký",
     saving: "Đang lưu vào cơ sở dữ liệu...",
-    saved: "Đã lưu thành công vào cơ sở dữ liệu!",
+    saved: "Đã gửi để kiểm duyệt!",
+    contentLanguage: "Ngôn ngữ nội dung",
+    english: "Tiếng Anh",
+    vietnamese: "Tiếng Việt",
+    fillFromPage: "Điền từ trang web",
+    fetchingPage: "Đang đọc trang web...",
+    pageLookupFailed: "Không đọc được trang web",
+    prefilled: "Đã điền thông tin từ trang web",
+    noPageDetails: "Trang web không có thông tin để gợi ý",
+    pageSuggestions: "Gợi ý từ trang web",
+    useSuggestion: "Dùng",
+    useAllSuggestions: "Dùng tất cả",
+    dismiss: "Bỏ qua",
+    draftFromUrl: "Soạn bằng AI",
+    drafting: "Đang soạn thông tin...",
+    draftFailed: "Không soạn được thông tin",
+    draftNotice: "AI đã soạn thông tin này từ trang web. Hãy kiểm tra từng mục trước khi gửi.",
+    detail: "Mô tả chi tiết (tùy chọn)",
+    uploadLogo: "Tải logo lên",
+    uploadingLogo: "Đang tải lên...",
+    removeLogo: "Xóa",
+    logoHint: "PNG, JPEG, WebP hoặc GIF tối đa 1 MB, hoặc dán liên kết đến logo",
+    logoWrongType: "Logo phải là ảnh PNG, JPEG, WebP hoặc GIF",
+    logoTooLarge: "Logo tối đa 1 MB",
+    logoUploadFailed: "Không tải logo lên được",
+    similarToolsUse: "Công cụ tương tự dùng:",
+    findingLabels: "Đang tìm gợi ý...",
   },
 };
 
@@ -90,10 +170,30 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
     tags: "",
     pricing: "free" as "free" | "freemium" | "paid",
     logoUrl: "",
+    detail: "",
+    language: language as ContentLanguage,
   });
   
+  const [additionalCategories, setAdditionalCategories] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [pageSuggestions, setPageSuggestions] = useState<PageSuggestion[]>([]);
+  const [isFetchingPage, setIsFetchingPage] = useState(false);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isDraft, setIsDraft] = useState(false);
+  const fetchPageMetadata = useAction(api.pageMetadata.fetchPageMetadata);
+  const draftToolFromUrl = useAction(api.toolDrafts.draftToolFromUrl);
+  const generateLogoUploadUrl = useConvexMutation(api.logos.generateLogoUploadUrl);
+  const copyLogoFromUrl = useAction(api.logos.copyLogoFromUrl);
+  const [logoUpload, setLogoUpload] = useState<{ storageId: Id<"_storage">; previewUrl: string } | null>(null);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  const suggestLabels = useAction(api.labelSuggestions.suggestLabels);
+  const [labelSuggestions, setLabelSuggestions] = useState<{
+    categories: Array<{ value: string; confidence: number }>;
+    tags: Array<{ value: string; confidence: number }>;
+  } | null>(null);
+  const [isSuggestingLabels, setIsSuggestingLabels] = useState(false);
+  const labelRequest = useRef(0);
 
   // Debounce name and URL for duplicate checking (wait 400ms after user stops typing)
   const debouncedName = useDebounce(formData.name.trim(), 400);
@@ -102,6 +202,22 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
   const trimmedName = debouncedName;
   const trimmedUrl = debouncedUrl;
 
+  // Suggest registered tags for the tag currently being typed
+  const enteredTags = formData.tags.split(",").map((tag) => tag.trim().toLowerCase());
+  const typedTag = useDebounce(enteredTags[enteredTags.length - 1], 200);
+  const { data: tagSuggestions } = useConvexQuery(
+    api.tags.searchTags,
+    typedTag ? { prefix: typedTag, limit: 6 } : "skip"
+  );
+  const visibleTagSuggestions = (tagSuggestions ?? []).filter(
+    (tag) => !enteredTags.includes(tag.name)
+  );
+
+  const applyTagSuggestion = (name: string) => {
+    const tags = formData.tags.split(",").slice(0, -1).map((tag) => tag.trim()).filter(Boolean);
+    handleInputChange("tags", [...tags, name].join(", ") + ", ");
+  };
+
   const duplicateArgs = useMemo(() => {
     // Only check if we have at least 2 characters for name or a URL
     if ((!trimmedName || trimmedName.length < 2) && !trimmedUrl) {
@@ -182,6 +298,65 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
   const isCheckingUrlDuplicate = isTypingUrl || (isCheckingDuplicate && Boolean(trimmedUrl));
   
   const t = translations[language];
+  const { categories } = useCategories(language);
+
+  // Look up categories and tags of similar tools once the description settles
+  // The name only sharpens the lookup; typing it does not trigger another one
+  const debouncedDescription = useDebounce(formData.description.trim(), 1000);
+  const latestName = useRef("");
+  latestName.current = formData.name.trim();
+  useEffect(() => {
+    if (debouncedDescription.length < MIN_DESCRIPTION_FOR_LABELS) {
+      labelRequest.current++;
+      setLabelSuggestions(null);
+      setIsSuggestingLabels(false);
+      return;
+    }
+    const request = ++labelRequest.current;
+    setIsSuggestingLabels(true);
+    suggestLabels({ name: latestName.current || undefined, description: debouncedDescription })
+      .then((result) => {
+        if (request === labelRequest.current) {
+          setLabelSuggestions(result);
+        }
+      })
+      .catch(() => {
+        // Suggestions are optional; the form works the same without them
+        if (request === labelRequest.current) {
+          setLabelSuggestions(null);
+        }
+      })
+      .finally(() => {
+        if (request === labelRequest.current) {
+          setIsSuggestingLabels(false);
+        }
+      });
+  }, [debouncedDescription, suggestLabels]);
+
+  const addSuggestedTag = (name: string) => {
+    const tags = formData.tags.split(",").map((tag) => tag.trim()).filter(Boolean);
+    handleInputChange("tags", [...tags, name].join(", ") + ", ");
+  };
+
+  // The first pick becomes the primary category, later ones secondary
+  const addSuggestedCategory = (slug: string) => {
+    if (!formData.category) {
+      handleInputChange("category", slug);
+    } else if (additionalCategories.length < MAX_ADDITIONAL_CATEGORIES) {
+      setAdditionalCategories((current) => [...current, slug]);
+    }
+  };
+
+  const visibleLabelCategories = (labelSuggestions?.categories ?? []).filter(
+    (category) =>
+      category.value !== formData.category &&
+      !additionalCategories.includes(category.value) &&
+      categories.some((known) => known.slug === category.value)
+  );
+
+  const visibleLabelTags = (labelSuggestions?.tags ?? []).filter(
+    (tag) => !enteredTags.includes(tag.value.toLowerCase())
+  );
 
   const validateForm = () => {
     const errors: Record<string, string> = {};
@@ -254,21 +429,26 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
     const savingToast = toast.loading(t.saving);
     
     try {
-      const result = await addToolMutation.mutateAsync({
-        ...formData,
+      // Linked logos are copied into storage; the tool never hotlinks them
+      const { logoUrl, ...fields } = formData;
+      const logoStorageId =
+        logoUpload?.storageId ?? (logoUrl.trim() ? await copyLogoFromUrl({ url: logoUrl }) : undefined);
+      await addToolMutation.mutateAsync({
+        ...fields,
         name: formData.name.trim(),
         description: formData.description.trim(),
         url: formData.url.trim(),
         category: formData.category.trim(),
+        categories: additionalCategories.filter((slug) => slug !== formData.category),
         tags: formData.tags.split(",").map(tag => tag.trim()).filter(Boolean),
-        language,
-        logoUrl: formData.logoUrl.trim() || undefined,
+        logoStorageId,
+        detail: formData.detail.trim() || undefined,
       });
       
       // Dismiss loading toast and show success
       toast.dismiss(savingToast);
       toast.success(t.saved, {
-        description: result.message,
+        description: t.success,
         duration: 4000,
       });
       
@@ -281,7 +461,13 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
         tags: "",
         pricing: "free",
         logoUrl: "",
+        detail: "",
+        language,
       });
+      setIsDraft(false);
+      setLogoUpload(null);
+      setAdditionalCategories([]);
+      setPageSuggestions([]);
       setValidationErrors({});
       
       onClose();
@@ -297,6 +483,155 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
     }
   };
 
+  /**
+   * Read the page behind the URL; empty fields are filled in right away and
+   * values that would replace what the submitter typed are offered as suggestions
+   */
+  const handleFillFromPage = async () => {
+    setIsFetchingPage(true);
+    try {
+      const metadata = await fetchPageMetadata({ url: formData.url.trim() });
+      const pageLanguage = metadata.language === "en" || metadata.language === "vi" ? metadata.language : undefined;
+      const found: PageSuggestion[] = [
+        metadata.name ? { field: "name" as const, value: metadata.name } : null,
+        metadata.description ? { field: "description" as const, value: metadata.description } : null,
+        metadata.logoUrl ? { field: "logoUrl" as const, value: metadata.logoUrl } : null,
+        pageLanguage ? { field: "language" as const, value: pageLanguage } : null,
+      ].filter((suggestion): suggestion is PageSuggestion => suggestion !== null);
+
+      if (found.length === 0) {
+        setPageSuggestions([]);
+        toast.info(t.noPageDetails);
+        return;
+      }
+
+      // The page language only fills in while the submitter has not touched the other fields
+      const isUntouched = !formData.name.trim() && !formData.description.trim();
+      const prefill = found.filter((suggestion) =>
+        suggestion.field === "language" ? isUntouched : !formData[suggestion.field].trim()
+      );
+      prefill.forEach((suggestion) => handleInputChange(suggestion.field, suggestion.value));
+      setPageSuggestions(
+        found.filter(
+          (suggestion) => !prefill.includes(suggestion) && formData[suggestion.field] !== suggestion.value
+        )
+      );
+      if (prefill.length > 0) {
+        toast.success(t.prefilled);
+      }
+    } catch (error) {
+      toast.error(t.pageLookupFailed, {
+        description: (error as Error).message,
+        duration: 5000,
+      });
+    } finally {
+      setIsFetchingPage(false);
+    }
+  };
+
+  /**
+   * Replace the form with a listing drafted from the website
+   * The submitter still reviews every field before submitting
+   */
+  const handleDraftFromUrl = async () => {
+    setIsDrafting(true);
+    try {
+      const draft = await draftToolFromUrl({ url: formData.url.trim() });
+      setFormData((current) => ({
+        ...current,
+        name: draft.name,
+        description: draft.description,
+        detail: draft.detail ?? "",
+        category: draft.category,
+        tags: draft.tags.join(", "),
+        pricing: draft.pricing,
+        logoUrl: draft.logoUrl ?? current.logoUrl,
+        language: draft.language,
+      }));
+      setAdditionalCategories([]);
+      setPageSuggestions([]);
+      setValidationErrors({});
+      setIsDraft(true);
+    } catch (error) {
+      toast.error(t.draftFailed, {
+        description: (error as Error).message,
+        duration: 5000,
+      });
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  /**
+   * Upload a logo file straight to storage; the server checks it again on submit
+   */
+  const handleLogoFile = async (file: File) => {
+    if (!LOGO_CONTENT_TYPES.includes(file.type)) {
+      toast.error(t.logoWrongType);
+      return;
+    }
+    if (file.size > LOGO_MAX_BYTES) {
+      toast.error(t.logoTooLarge);
+      return;
+    }
+
+    setIsUploadingLogo(true);
+    try {
+      const uploadUrl = await generateLogoUploadUrl.mutateAsync({});
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed with status ${response.status}`);
+      }
+      const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+      setLogoUpload({ storageId, previewUrl: URL.createObjectURL(file) });
+    } catch (error) {
+      toast.error(t.logoUploadFailed, {
+        description: (error as Error).message,
+        duration: 5000,
+      });
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  };
+
+  // Release the local preview when it is replaced or the form closes
+  useEffect(() => {
+    const previewUrl = logoUpload?.previewUrl;
+    return () => {
+      if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+      }
+    };
+  }, [logoUpload?.previewUrl]);
+
+  const applyPageSuggestions = (suggestions: PageSuggestion[]) => {
+    suggestions.forEach((suggestion) => handleInputChange(suggestion.field, suggestion.value));
+    setPageSuggestions((current) => current.filter((suggestion) => !suggestions.includes(suggestion)));
+  };
+
+  const suggestionLabels: Record<PageSuggestion["field"], string> = {
+    name: t.name,
+    description: t.description,
+    logoUrl: t.logoUrl,
+    language: t.contentLanguage,
+  };
+  const languageLabels: Record<ContentLanguage, string> = {
+    en: t.english,
+    vi: t.vietnamese,
+  };
+
+  const isUrlValid = (() => {
+    try {
+      return /^https?:$/.test(new URL(formData.url.trim()).protocol);
+    } catch {
+      return false;
+    }
+  })();
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
@@ -528,6 +863,105 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                 </AnimatePresence>
               </div>
             </div>
+
+            {/* Prefill from the tool's website */}
+            <div className="space-y-3">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={!isUrlValid || isFetchingPage}
+                onClick={() => { void handleFillFromPage(); }}
+              >
+                {isFetchingPage ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Wand2 className="w-4 h-4" />
+                )}
+                {isFetchingPage ? t.fetchingPage : t.fillFromPage}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2 ml-2"
+                disabled={!isUrlValid || isDrafting || hasUrlDuplicate}
+                onClick={() => { void handleDraftFromUrl(); }}
+              >
+                {isDrafting ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Sparkles className="w-4 h-4" />
+                )}
+                {isDrafting ? t.drafting : t.draftFromUrl}
+              </Button>
+              <AnimatePresence>
+                {isDraft && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                  >
+                    <Alert className="py-2">
+                      <Sparkles className="h-4 w-4" />
+                      <AlertDescription className="text-sm">{t.draftNotice}</AlertDescription>
+                    </Alert>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+              <AnimatePresence>
+                {pageSuggestions.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    className="rounded-lg border bg-muted/40 p-3 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">{t.pageSuggestions}</p>
+                      <div className="flex gap-1">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => applyPageSuggestions(pageSuggestions)}
+                        >
+                          {t.useAllSuggestions}
+                        </Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => setPageSuggestions([])}>
+                          {t.dismiss}
+                        </Button>
+                      </div>
+                    </div>
+                    {pageSuggestions.map((suggestion) => (
+                      <div key={suggestion.field} className="flex items-start gap-3 text-sm">
+                        <span className="w-28 shrink-0 text-muted-foreground">{suggestionLabels[suggestion.field]}</span>
+                        <div className="flex-1 min-w-0 flex items-start gap-2">
+                          {suggestion.field === "logoUrl" && (
+                            <img src={suggestion.value} alt="" className="w-6 h-6 rounded object-contain shrink-0" />
+                          )}
+                          <span className="break-words line-clamp-3">
+                            {suggestion.field === "language"
+                              ? languageLabels[suggestion.value as ContentLanguage]
+                              : suggestion.value}
+                          </span>
+                        </div>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-7 shrink-0"
+                          onClick={() => applyPageSuggestions([suggestion])}
+                        >
+                          {t.useSuggestion}
+                        </Button>
+                      </div>
+                    ))}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
           </motion.div>
 
           {/* Description */}
@@ -588,26 +1022,24 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                   <Tag className="w-4 h-4 text-primary" />
                   {t.category} <span className="text-destructive">*</span>
                 </Label>
-                <div className="relative">
-                  <Input
+                <Select value={formData.category} onValueChange={(value) => handleInputChange("category", value)}>
+                  <SelectTrigger
                     id="category"
-                    type="text"
-                    required
-                    value={formData.category}
-                    onChange={(e) => handleInputChange("category", e.target.value)}
-                    className={`transition-all ${validationErrors.category ? 'border-destructive focus-visible:ring-destructive' : 'focus-visible:ring-primary'}`}
-                    placeholder="e.g., Writing & Content, Image Generation"
-                  />
-                  {formData.category && !validationErrors.category && (
-                    <motion.div
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      className="absolute right-3 top-1/2 -translate-y-1/2"
-                    >
-                      <CheckCircle2 className="w-4 h-4 text-green-500" />
-                    </motion.div>
-                  )}
-                </div>
+                    className={`transition-all ${validationErrors.category ? 'border-destructive focus:ring-destructive' : 'focus:ring-primary'}`}
+                  >
+                    <SelectValue placeholder={t.selectCategory} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.slug} value={category.slug}>
+                        <div className="flex items-center gap-2">
+                          <span>{category.icon ?? "🔧"}</span>
+                          <span>{category.labels[language]}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <AnimatePresence>
                   {validationErrors.category && (
                     <motion.p
@@ -655,6 +1087,66 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                 </Select>
               </div>
             </div>
+
+            {(isSuggestingLabels || visibleLabelCategories.length > 0) && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {isSuggestingLabels ? t.findingLabels : t.similarToolsUse}
+                </span>
+                {isSuggestingLabels && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+                {!isSuggestingLabels &&
+                  visibleLabelCategories.map((suggestion) => {
+                    const category = categories.find((known) => known.slug === suggestion.value)!;
+                    return (
+                      <Badge
+                        key={suggestion.value}
+                        variant="outline"
+                        className="gap-1 cursor-pointer text-xs"
+                        onClick={() => addSuggestedCategory(suggestion.value)}
+                      >
+                        <span>{category.icon ?? "🔧"}</span>
+                        <span>{category.labels[language]}</span>
+                        <span className="text-muted-foreground">{Math.round(suggestion.confidence * 100)}%</span>
+                      </Badge>
+                    );
+                  })}
+              </div>
+            )}
+
+            {formData.category && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">{t.additionalCategories}</Label>
+                <div className="flex flex-wrap gap-2">
+                  {categories
+                    .filter((category) => category.slug !== formData.category)
+                    .map((category) => {
+                      const isSelected = additionalCategories.includes(category.slug);
+                      const isDisabled =
+                        !isSelected && additionalCategories.length >= MAX_ADDITIONAL_CATEGORIES;
+                      return (
+                        <Badge
+                          key={category.slug}
+                          variant={isSelected ? "default" : "outline"}
+                          className={`gap-1 ${isDisabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                          onClick={() => {
+                            if (isDisabled) {
+                              return;
+                            }
+                            setAdditionalCategories((current) =>
+                              isSelected
+                                ? current.filter((slug) => slug !== category.slug)
+                                : [...current, category.slug]
+                            );
+                          }}
+                        >
+                          <span>{category.icon ?? "🔧"}</span>
+                          <span>{category.labels[language]}</span>
+                        </Badge>
+                      );
+                    })}
+                </div>
+              </div>
+            )}
           </motion.div>
 
           {/* Section 3: Additional Details */}
@@ -670,6 +1162,20 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
             </div>
 
             <div className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="detail" className="flex items-center gap-2 text-sm font-medium">
+                  <FileText className="w-4 h-4 text-muted-foreground" />
+                  {t.detail}
+                </Label>
+                <Textarea
+                  id="detail"
+                  rows={5}
+                  value={formData.detail}
+                  onChange={(e) => handleInputChange("detail", e.target.value)}
+                  className="transition-all resize-y focus-visible:ring-primary"
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="tags" className="flex items-center gap-2 text-sm font-medium">
                   <Tag className="w-4 h-4 text-muted-foreground" />
@@ -683,6 +1189,38 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                   className="transition-all focus-visible:ring-primary"
                   placeholder="AI, Machine Learning, Automation, Creative"
                 />
+                {visibleTagSuggestions.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{t.suggestedTags}</span>
+                    {visibleTagSuggestions.map((tag) => (
+                      <Badge
+                        key={tag.name}
+                        variant="outline"
+                        className="cursor-pointer text-xs"
+                        onClick={() => applyTagSuggestion(tag.name)}
+                      >
+                        {tag.name}
+                        <span className="ml-1 text-muted-foreground">{tag.usageCount}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {!isSuggestingLabels && visibleLabelTags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{t.similarToolsUse}</span>
+                    {visibleLabelTags.map((tag) => (
+                      <Badge
+                        key={tag.value}
+                        variant="outline"
+                        className="cursor-pointer text-xs"
+                        onClick={() => addSuggestedTag(tag.value)}
+                      >
+                        {tag.value}
+                        <span className="ml-1 text-muted-foreground">{Math.round(tag.confidence * 100)}%</span>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <p className="text-xs text-muted-foreground">Separate tags with commas</p>
                   {formData.tags && (
@@ -698,6 +1236,44 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                   <ImageIcon className="w-4 h-4 text-muted-foreground" />
                   {t.logoUrl}
                 </Label>
+                <div className="flex items-center gap-3">
+                  {logoUpload ? (
+                    <>
+                      <img
+                        src={logoUpload.previewUrl}
+                        alt=""
+                        className="h-12 w-12 rounded-xl border-2 object-cover"
+                      />
+                      <Button type="button" variant="outline" size="sm" onClick={() => setLogoUpload(null)}>
+                        {t.removeLogo}
+                      </Button>
+                    </>
+                  ) : (
+                    <Button type="button" variant="outline" size="sm" className="gap-2" disabled={isUploadingLogo} asChild>
+                      <label className="cursor-pointer">
+                        {isUploadingLogo ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Upload className="w-4 h-4" />
+                        )}
+                        {isUploadingLogo ? t.uploadingLogo : t.uploadLogo}
+                        <input
+                          type="file"
+                          accept={LOGO_CONTENT_TYPES.join(",")}
+                          className="sr-only"
+                          disabled={isUploadingLogo}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = "";
+                            if (file) {
+                              void handleLogoFile(file);
+                            }
+                          }}
+                        />
+                      </label>
+                    </Button>
+                  )}
+                </div>
                 <div className="relative">
                   <Input
                     id="logoUrl"
@@ -706,6 +1282,7 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                     onChange={(e) => handleInputChange("logoUrl", e.target.value)}
                     className="transition-all focus-visible:ring-primary"
                     placeholder="https://example.com/logo.png"
+                    disabled={Boolean(logoUpload)}
                   />
                   {formData.logoUrl && (
                     <motion.div
@@ -717,7 +1294,23 @@ export function AddToolForm({ language, onClose }: AddToolFormProps) {
                     </motion.div>
                   )}
                 </div>
-                <p className="text-xs text-muted-foreground">Provide a direct link to the tool's logo image</p>
+                <p className="text-xs text-muted-foreground">{t.logoHint}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contentLanguage" className="flex items-center gap-2 text-sm font-medium">
+                  <Languages className="w-4 h-4 text-muted-foreground" />
+                  {t.contentLanguage}
+                </Label>
+                <Select value={formData.language} onValueChange={(value) => handleInputChange("language", value)}>
+                  <SelectTrigger id="contentLanguage" className="transition-all focus:ring-primary sm:w-60">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="en">{t.english}</SelectItem>
+                    <SelectItem value="vi">{t.vietnamese}</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
             </div>
           </motion.div>
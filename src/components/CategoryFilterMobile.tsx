@@ -1,6 +1,4 @@
-import { api } from "../../convex/_generated/api";
-import { useConvexQuery } from "@/hooks/useConvexQuery";
-import { queryKeys } from "@/lib/queryKeys";
+import { useCategories } from "@/hooks/useCategories";
 import { Badge } from "./ui/badge";
 import { ScrollArea, ScrollBar } from "./ui/scroll-area";
 import { motion } from "motion/react";
@@ -23,11 +21,7 @@ export function CategoryFilterMobile({
   language,
   translations: t,
 }: CategoryFilterMobileProps) {
-  const { data: categories = [] } = useConvexQuery(
-    api.aiTools.getCategories, 
-    { language },
-    { queryKey: queryKeys.tools.categories(language) }
-  );
+  const { categories } = useCategories(language);
 
   const pricingOptions = [
     { value: "", label: t.all, icon: "🌟" },
@@ -95,21 +89,21 @@ export function CategoryFilterMobile({
             </motion.div>
             {categories.map((category, index) => (
               <motion.div
-                key={category}
+                key={category.slug}
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: (index + 1) * 0.05 }}
               >
                 <Badge
-                  variant={selectedCategory === category ? "default" : "outline"}
+                  variant={selectedCategory === category.slug ? "default" : "outline"}
                   className={cn(
                     "cursor-pointer px-4 py-2 text-sm transition-all hover:scale-105 whitespace-nowrap",
-                    selectedCategory === category && "shadow-md"
+                    selectedCategory === category.slug && "shadow-md"
                   )}
-                  onClick={() => onCategoryChange(category)}
+                  onClick={() => onCategoryChange(category.slug)}
                 >
-                  <span className="mr-1.5">🔧</span>
-                  {category}
+                  <span className="mr-1.5">{category.icon ?? "🔧"}</span>
+                  {category.labels[language]}
                 </Badge>
               </motion.div>
             ))}
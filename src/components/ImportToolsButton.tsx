@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import { useAction } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { Loader2, Upload } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { Button } from "./ui/button";
+import { Badge, BadgeProps } from "./ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+
+type ImportReport = FunctionReturnType<typeof api.toolImport.importTools>;
+type ImportStatus = ImportReport["lines"][number]["status"];
+
+const statusVariants: Record<ImportStatus, BadgeProps["variant"]> = {
+  created: "success",
+  wouldCreate: "secondary",
+  duplicate: "warning",
+  rejected: "destructive",
+};
+
+interface ImportToolsButtonProps {
+  language: "en" | "vi";
+}
+
+const translations = {
+  en: {
+    importTools: "Import Tools",
+    importing: "Importing...",
+    dryRunTitle: (count: number) => `${count} tool(s) ready to import`,
+    summary: (duplicate: number, rejected: number) =>
+      `${duplicate} duplicate(s) and ${rejected} invalid record(s) will be skipped`,
+    confirm: "Import",
+    close: "Close",
+    nothingToImport: "Nothing to import",
+    imported: (count: number) => `Imported ${count} tool(s)`,
+    error: "Import failed",
+    line: "Line",
+    name: "Name",
+    status: "Status",
+    details: "Details",
+    statuses: {
+      created: "Created",
+      wouldCreate: "Will be created",
+      duplicate: "Duplicate",
+      rejected: "Rejected",
+    },
+    existing: (name: string) => `Matches "${name}"`,
+  },
+  vi: {
+    importTools: "Nhập công cụ",
+    importing: "Đang nhập...",
+    dryRunTitle: (count: number) => `${count} công cụ sẵn sàng để nhập`,
+    summary: (duplicate: number, rejected: number) =>
+      `${duplicate} bản trùng lặp và ${rejected} bản ghi không hợp lệ sẽ bị bỏ qua`,
+    confirm: "Nhập",
+    close: "Đóng",
+    nothingToImport: "Không có gì để nhập",
+    imported: (count: number) => `Đã nhập ${count} công cụ`,
+    error: "Nhập thất bại",
+    line: "Dòng",
+    name: "Tên",
+    status: "Trạng thái",
+    details: "Chi tiết",
+    statuses: {
+      created: "Đã tạo",
+      wouldCreate: "Sẽ được tạo",
+      duplicate: "Trùng lặp",
+      rejected: "Bị từ chối",
+    },
+    existing: (name: string) => `Trùng với "${name}"`,
+  },
+};
+
+/**
+ * Admin-only button that imports tools from a JSONL file
+ * Runs a dry run first and shows the per-line report, then asks for
+ * confirmation before writing
+ */
+export function ImportToolsButton({ language }: ImportToolsButtonProps) {
+  const t = translations[language];
+  const { data: permissions } = useConvexQuery(api.users.getMyPermissions, {});
+  const importTools = useAction(api.toolImport.importTools);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<{ jsonl: string; result: ImportReport } | null>(null);
+
+  if (!permissions?.permissions.includes("system:admin")) {
+    return null;
+  }
+
+  const runImport = async (jsonl: string) => {
+    setIsImporting(true);
+    try {
+      const result = await importTools({ jsonl, dryRun: false });
+      setReport({ jsonl, result });
+      toast.success(t.imported(result.totals.created), {
+        description: t.summary(result.totals.duplicate, result.totals.rejected),
+      });
+    } catch (error) {
+      toast.error(t.error, { description: (error as Error).message });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const jsonl = await file.text();
+      const result = await importTools({ jsonl, dryRun: true });
+      setReport({ jsonl, result });
+    } catch (error) {
+      toast.error(t.error, { description: (error as Error).message });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const totals = report?.result.totals;
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".jsonl,.json,.txt"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) {
+            void handleFile(file);
+          }
+        }}
+      />
+      <Button
+        onClick={() => inputRef.current?.click()}
+        variant="outline"
+        size="sm"
+        disabled={isImporting}
+      >
+        {isImporting ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="h-4 w-4" />
+        )}
+        <span className="hidden sm:inline">{isImporting ? t.importing : t.importTools}</span>
+      </Button>
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+          {report && totals && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {report.result.dryRun
+                    ? totals.wouldCreate > 0
+                      ? t.dryRunTitle(totals.wouldCreate)
+                      : t.nothingToImport
+                    : t.imported(totals.created)}
+                </DialogTitle>
+                <DialogDescription>{t.summary(totals.duplicate, totals.rejected)}</DialogDescription>
+              </DialogHeader>
+              <div className="overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">{t.line}</TableHead>
+                      <TableHead>{t.name}</TableHead>
+                      <TableHead>{t.status}</TableHead>
+                      <TableHead>{t.details}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.result.lines.map((line) => (
+                      <TableRow key={line.line}>
+                        <TableCell className="tabular-nums">{line.line}</TableCell>
+                        <TableCell>{line.name ?? "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[line.status]}>{t.statuses[line.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {[line.reason, line.existingTool && t.existing(line.existingTool)]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setReport(null)}>
+                  {t.close}
+                </Button>
+                {report.result.dryRun && totals.wouldCreate > 0 && (
+                  <Button onClick={() => void runImport(report.jsonl)} disabled={isImporting}>
+                    {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+                    {t.confirm}
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
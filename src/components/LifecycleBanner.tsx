@@ -0,0 +1,87 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle } from "lucide-react";
+import { Doc } from "../../convex/_generated/dataModel";
+import { api } from "../../convex/_generated/api";
+import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { cn, getToolPath } from "@/lib/utils";
+
+type Language = "en" | "vi";
+
+const translations = {
+  en: {
+    discontinued: "This tool has been discontinued",
+    acquired: "This tool has been acquired",
+    replacement: "Try instead:",
+    acquirer: "Now part of:",
+    since: "Since",
+  },
+  vi: {
+    discontinued: "Công cụ này đã ngừng hoạt động",
+    acquired: "Công cụ này đã được mua lại",
+    replacement: "Thay thế bằng:",
+    acquirer: "Hiện thuộc về:",
+    since: "Từ",
+  },
+};
+
+interface LifecycleBannerProps {
+  tool: Pick<Doc<"aiTools">, "lifecycleStatus" | "successorToolId" | "lifecycleChangedAt">;
+  language: Language;
+  compact?: boolean; // Single line for cards
+}
+
+/**
+ * Notice for discontinued and acquired tools, linking to the replacement or acquirer
+ * Renders nothing for active and beta tools
+ */
+export function LifecycleBanner({ tool, language, compact = false }: LifecycleBannerProps) {
+  const t = translations[language];
+  const status = tool.lifecycleStatus;
+  const isEnded = status === "discontinued" || status === "acquired";
+
+  const { data: successor } = useConvexQuery(
+    api.aiTools.getToolById,
+    isEnded && tool.successorToolId ? { toolId: tool.successorToolId, language } : "skip"
+  );
+
+  if (!isEnded) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-300",
+        compact ? "px-2 py-1 text-xs" : "px-3 py-2 text-sm"
+      )}
+    >
+      <AlertTriangle className={cn("shrink-0", compact ? "mt-0.5 h-3 w-3" : "mt-0.5 h-4 w-4")} />
+      <div className={cn(compact && "line-clamp-2")}>
+        <span className="font-medium">{t[status]}</span>
+        {!compact && tool.lifecycleChangedAt && (
+          <span className="text-amber-700/80 dark:text-amber-400/80">
+            {" "}
+            ({t.since} {new Date(tool.lifecycleChangedAt).toLocaleDateString(language)})
+          </span>
+        )}
+        {successor && (
+          <>
+            {". "}
+            {status === "acquired" ? t.acquirer : t.replacement}{" "}
+            {successor.slug ? (
+              <Link
+                to={getToolPath(successor.slug, language)}
+                className="font-medium underline underline-offset-2"
+                onClick={(event) => event.stopPropagation()}
+              >
+                {successor.name}
+              </Link>
+            ) : (
+              <span className="font-medium">{successor.name}</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,11 +7,9 @@ import { Sparkles } from "lucide-react";
 import BeamsBackground from "./kokonutui/beams-background";
 import { Authenticated, Unauthenticated } from "convex/react";
 import { useAuthActions } from "@convex-dev/auth/react";
-import { api } from "../../convex/_generated/api";
-import { useConvexMutation } from "@/hooks/useConvexMutation";
-import { toast } from "sonner";
 import { translations } from "../translations";
 import { SignInDialog } from "./SignInDialog";
+import { ImportToolsButton } from "./ImportToolsButton";
 
 type Language = "en" | "vi";
 
@@ -22,23 +20,9 @@ interface MainLayoutProps {
 
 export function MainLayout({ children, initialLanguage = "en" }: MainLayoutProps) {
   const [language, setLanguage] = useState<Language>(initialLanguage);
-  const seedData = useConvexMutation(api.sampleData.seedSampleData);
   const { signOut } = useAuthActions();
   const t = (key: keyof (typeof translations)["en"]) => (translations[language] as typeof translations["en"])[key] || translations["en"][key];
 
-  const handleSeedData = async () => {
-    try {
-      const result = await seedData.mutateAsync({});
-      if (result === "Sample data already exists") {
-        toast.info(t("dataExists"));
-      } else {
-        toast.success(t("dataLoaded"));
-      }
-    } catch {
-      toast.error("Failed to load sample data.");
-    }
-  };
-
   const handleSignOut = () => {
     void signOut();
   };
@@ -66,9 +50,9 @@ export function MainLayout({ children, initialLanguage = "en" }: MainLayoutProps
             <Button asChild variant="ghost" size="sm" className="px-2 text-xs sm:text-sm">
               <Link to="/about-us">{t("aboutUs")}</Link>
             </Button>
-            <Button onClick={() => void handleSeedData()} variant="outline" size="sm">
-              {t("loadSample")}
-            </Button>
+            <Authenticated>
+              <ImportToolsButton language={language} />
+            </Authenticated>
             <LanguageToggle language={language} onLanguageChange={setLanguage} />
             <Authenticated>
               <Button onClick={handleSignOut} variant="outline" size="sm">
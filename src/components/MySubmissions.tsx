@@ -0,0 +1,69 @@
+import { api } from "../../convex/_generated/api";
+import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { Badge } from "./ui/badge";
+import { formatDistanceToNow } from "date-fns";
+
+interface MySubmissionsProps {
+  language: "en" | "vi";
+}
+
+const translations = {
+  en: {
+    title: "Your submissions",
+    pending: "Pending review",
+    approved: "Approved",
+    rejected: "Rejected",
+    reason: "Reason",
+    submitted: "Submitted",
+  },
+  vi: {
+    title: "Công cụ bạn đã gửi",
+    pending: "Đang chờ duyệt",
+    approved: "Đã duyệt",
+    rejected: "Bị từ chối",
+    reason: "Lý do",
+    submitted: "Đã gửi",
+  },
+};
+
+const statusVariants = {
+  pending: "warning",
+  approved: "success",
+  rejected: "destructive",
+} as const;
+
+export function MySubmissions({ language }: MySubmissionsProps) {
+  const { data: submissions } = useConvexQuery(api.moderation.getMySubmissions, {});
+  const t = translations[language];
+
+  if (!submissions || submissions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold">{t.title}</h2>
+      <ul className="divide-y rounded-lg border">
+        {submissions.map((submission) => (
+          <li key={submission._id} className="flex flex-col gap-1 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium truncate">{submission.name}</span>
+              <Badge variant={statusVariants[submission.moderationStatus]}>
+                {t[submission.moderationStatus]}
+              </Badge>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {t.submitted}{" "}
+              {formatDistanceToNow(new Date(submission._creationTime), { addSuffix: true })}
+            </span>
+            {submission.moderationStatus === "rejected" && submission.rejectionReason && (
+              <p className="text-sm text-destructive">
+                {t.reason}: {submission.rejectionReason}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { Link2 } from "lucide-react";
+import { ToolCard } from "./ToolCard";
+import { Button } from "./ui/button";
+import { SuggestRelationDialog } from "./SuggestRelationDialog";
+
+const translations = {
+  en: {
+    integrations: "Integrates with",
+    alternatives: "Alternatives",
+    suggest: "Suggest a related tool",
+  },
+  vi: {
+    integrations: "Tích hợp với",
+    alternatives: "Lựa chọn thay thế",
+    suggest: "Đề xuất công cụ liên quan",
+  },
+};
+
+interface RelatedToolsProps {
+  toolId: Id<"aiTools">;
+  toolName: string;
+  language: "en" | "vi";
+}
+
+/**
+ * Integrations and alternatives that moderators approved for a tool
+ * Sections without approved relations are hidden
+ */
+export function RelatedTools({ toolId, toolName, language }: RelatedToolsProps) {
+  const t = translations[language];
+  const { data: user } = useConvexQuery(api.auth.loggedInUser, {});
+  const { data: integrations } = useConvexQuery(api.toolRelations.getIntegrations, { toolId, language });
+  const { data: alternatives } = useConvexQuery(api.toolRelations.getAlternatives, { toolId, language });
+
+  const sections = [
+    { title: t.integrations, tools: integrations ?? [] },
+    { title: t.alternatives, tools: alternatives ?? [] },
+  ].filter((section) => section.tools.length > 0);
+
+  return (
+    <>
+      {sections.map((section) => (
+        <section key={section.title} className="mt-12">
+          <h2 className="text-2xl font-bold mb-6">{section.title}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
+            {section.tools.map((tool) => (
+              <ToolCard key={tool._id} tool={tool} language={language} />
+            ))}
+          </div>
+        </section>
+      ))}
+      {user && (
+        <div className="mt-8">
+          <SuggestRelationDialog toolId={toolId} toolName={toolName} language={language}>
+            <Button variant="outline" className="gap-2">
+              <Link2 className="h-4 w-4" />
+              {t.suggest}
+            </Button>
+          </SuggestRelationDialog>
+        </div>
+      )}
+    </>
+  );
+}
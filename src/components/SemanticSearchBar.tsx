@@ -21,6 +21,7 @@ interface SemanticSearchBarProps {
   onResultsChange?: (results: ToolWithScore[]) => void;
   category?: string;
   pricing?: PricingFilter;
+  includeDiscontinued?: boolean;
 }
 
 interface ToolWithScore extends Doc<"aiTools"> {
@@ -88,6 +89,7 @@ export function SemanticSearchBar({
   onResultsChange,
   category,
   pricing,
+  includeDiscontinued,
 }: SemanticSearchBarProps) {
   const [query, setQuery] = useState("");
   const [searchType, setSearchType] = useState<SearchType>("hybrid");
@@ -134,6 +136,7 @@ export function SemanticSearchBar({
         language,
         category: category || undefined,
         pricing: pricing || undefined,
+        includeDiscontinued,
       });
 
       setResults(searchResults as ToolWithScore[]);
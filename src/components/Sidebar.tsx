@@ -1,9 +1,8 @@
-import { api } from "../../convex/_generated/api";
 import { Button } from "./ui/button";
 import { Separator } from "./ui/separator";
 import { cn } from "@/lib/utils";
 import { motion } from "motion/react";
-import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { useCategories } from "@/hooks/useCategories";
 
 interface SidebarProps {
   isOpen: boolean;
@@ -30,14 +29,7 @@ export function Sidebar({
   variant = "desktop",
   className,
 }: SidebarProps) {
-  const { data: categories = [] } = useConvexQuery(
-    api.aiTools.getCategories,
-    { language },
-    {
-      staleTime: 10 * 60 * 1000, // 10 minutes - categories don't change frequently
-      gcTime: 30 * 60 * 1000, // 30 minutes - keep in cache longer
-    }
-  );
+  const { categories } = useCategories(language);
 
   const pricingOptions = [
     { value: "free", label: t.free, icon: "🆓" },
@@ -105,13 +97,17 @@ export function Sidebar({
           </Button>
           {categories.map((category) => (
             <Button
-              key={category}
-              variant={selectedCategory === category ? "secondary" : "ghost"}
-              onClick={() => handleCategorySelect(category)}
-              className="h-9 w-full !justify-start text-left text-sm font-medium"
+              key={category.slug}
+              variant={selectedCategory === category.slug ? "secondary" : "ghost"}
+              onClick={() => handleCategorySelect(category.slug)}
+              className={cn(
+                "h-9 w-full !justify-start text-left text-sm font-medium",
+                category.parentId && "pl-8"
+              )}
+              title={category.description?.[language]}
             >
-              <span className="mr-2">🔧</span>
-              <span className="truncate">{category}</span>
+              <span className="mr-2">{category.icon ?? "🔧"}</span>
+              <span className="truncate">{category.labels[language]}</span>
             </Button>
           ))}
         </div>
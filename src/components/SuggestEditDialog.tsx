@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { useConvexMutation } from "@/hooks/useConvexMutation";
+import { useCategories } from "@/hooks/useCategories";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Loader2 } from "lucide-react";
+
+interface SuggestEditDialogProps {
+  tool: Doc<"aiTools">;
+  language: "en" | "vi";
+  children: React.ReactNode;
+}
+
+const translations = {
+  en: {
+    title: "Suggest an edit",
+    description: "Spotted outdated information? Propose a correction and a moderator or the tool owner will review it.",
+    name: "Tool Name",
+    toolDescription: "Description",
+    url: "Website URL",
+    category: "Category",
+    tags: "Tags (comma separated)",
+    note: "Note for reviewers (optional)",
+    submit: "Submit suggestion",
+    submitting: "Submitting...",
+    success: "Thanks! Your suggestion has been submitted for review.",
+    error: "Could not submit your suggestion",
+  },
+  vi: {
+    title: "Đề xuất chỉnh sửa",
+    description: "Phát hiện thông tin lỗi thời? Đề xuất sửa đổi và người kiểm duyệt hoặc chủ sở hữu công cụ sẽ xem xét.",
+    name: "Tên công cụ",
+    toolDescription: "Mô tả",
+    url: "URL trang web",
+    category: "Danh mục",
+    tags: "Thẻ (phân cách bằng dấu phẩy)",
+    note: "Ghi chú cho người duyệt (tùy chọn)",
+    submit: "Gửi đề xuất",
+    submitting: "Đang gửi...",
+    success: "Cảm ơn! Đề xuất của bạn đã được gửi để xem xét.",
+    error: "Không thể gửi đề xuất",
+  },
+};
+
+export function SuggestEditDialog({ tool, language, children }: SuggestEditDialogProps) {
+  const t = translations[language];
+  const proposeEdit = useConvexMutation(api.toolEdits.proposeEdit);
+  const { categories } = useCategories(language);
+  const [isOpen, setIsOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [formData, setFormData] = useState({
+    name: tool.name,
+    description: tool.description,
+    url: tool.url,
+    category: tool.category,
+    tags: tool.tags.join(", "),
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      // The server drops fields that did not change
+      await proposeEdit.mutateAsync({
+        toolId: tool._id,
+        changes: {
+          ...formData,
+          tags: formData.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+        },
+        note: note.trim() || undefined,
+      });
+      toast.success(t.success);
+      setNote("");
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(t.error, { description: (error as Error).message });
+    }
+  };
+
+  const fields = [
+    { key: "name", label: t.name },
+    { key: "url", label: t.url },
+    { key: "tags", label: t.tags },
+  ] as const;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t.title}</DialogTitle>
+          <DialogDescription>{t.description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {fields.map(({ key, label }) => (
+            <div key={key} className="space-y-1.5">
+              <Label htmlFor={`suggest-${key}`}>{label}</Label>
+              <Input
+                id={`suggest-${key}`}
+                value={formData[key]}
+                onChange={(e) => setFormData((prev) => ({ ...prev, [key]: e.target.value }))}
+              />
+            </div>
+          ))}
+          <div className="space-y-1.5">
+            <Label htmlFor="suggest-category">{t.category}</Label>
+            <Select
+              value={formData.category}
+              onValueChange={(value) => setFormData((prev) => ({ ...prev, category: value }))}
+            >
+              <SelectTrigger id="suggest-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((category) => (
+                  <SelectItem key={category.slug} value={category.slug}>
+                    {category.icon ?? "🔧"} {category.labels[language]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="suggest-description">{t.toolDescription}</Label>
+            <Textarea
+              id="suggest-description"
+              rows={4}
+              value={formData.description}
+              onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="suggest-note">{t.note}</Label>
+            <Textarea
+              id="suggest-note"
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={proposeEdit.isPending}>
+            {proposeEdit.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t.submitting}
+              </>
+            ) : (
+              t.submit
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { useConvexMutation } from "@/hooks/useConvexMutation";
+import useDebounce from "@/hooks/use-debounce";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Loader2 } from "lucide-react";
+
+type RelationType = "alternative-to" | "integrates-with" | "built-on";
+
+const translations = {
+  en: {
+    title: "Suggest a related tool",
+    description: "Tell us how this tool relates to another one. A moderator will review your suggestion.",
+    relation: "Relation",
+    types: {
+      "alternative-to": (name: string) => `${name} is an alternative to…`,
+      "integrates-with": (name: string) => `${name} integrates with…`,
+      "built-on": (name: string) => `${name} is built on…`,
+    },
+    otherTool: "Other tool",
+    searchPlaceholder: "Search tools by name...",
+    noMatches: "No matching tools",
+    note: "Note for reviewers (optional)",
+    submit: "Submit suggestion",
+    submitting: "Submitting...",
+    success: "Thanks! Your suggestion has been submitted for review.",
+    error: "Could not submit your suggestion",
+  },
+  vi: {
+    title: "Đề xuất công cụ liên quan",
+    description: "Cho chúng tôi biết công cụ này liên quan thế nào đến công cụ khác. Người kiểm duyệt sẽ xem xét đề xuất của bạn.",
+    relation: "Quan hệ",
+    types: {
+      "alternative-to": (name: string) => `${name} là lựa chọn thay thế cho…`,
+      "integrates-with": (name: string) => `${name} tích hợp với…`,
+      "built-on": (name: string) => `${name} được xây dựng trên…`,
+    },
+    otherTool: "Công cụ khác",
+    searchPlaceholder: "Tìm công cụ theo tên...",
+    noMatches: "Không có công cụ phù hợp",
+    note: "Ghi chú cho người duyệt (tùy chọn)",
+    submit: "Gửi đề xuất",
+    submitting: "Đang gửi...",
+    success: "Cảm ơn! Đề xuất của bạn đã được gửi để xem xét.",
+    error: "Không thể gửi đề xuất",
+  },
+};
+
+interface SuggestRelationDialogProps {
+  toolId: Id<"aiTools">;
+  toolName: string;
+  language: "en" | "vi";
+  children: React.ReactNode;
+}
+
+export function SuggestRelationDialog({ toolId, toolName, language, children }: SuggestRelationDialogProps) {
+  const t = translations[language];
+  const proposeRelation = useConvexMutation(api.toolRelations.proposeRelation);
+  const [isOpen, setIsOpen] = useState(false);
+  const [type, setType] = useState<RelationType>("alternative-to");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<{ _id: Id<"aiTools">; name: string } | null>(null);
+  const [note, setNote] = useState("");
+
+  const searchTerm = useDebounce(search.trim(), 300);
+  const { data: matches, isLoading } = useConvexQuery(
+    api.aiTools.searchTools,
+    searchTerm.length >= 2 && !selected ? { searchTerm, language } : "skip"
+  );
+  const candidates = (matches ?? []).filter((tool) => tool._id !== toolId).slice(0, 8);
+
+  const reset = () => {
+    setType("alternative-to");
+    setSearch("");
+    setSelected(null);
+    setNote("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) {
+      return;
+    }
+    try {
+      await proposeRelation.mutateAsync({
+        fromToolId: toolId,
+        toToolId: selected._id,
+        type,
+        note,
+      });
+      toast.success(t.success);
+      reset();
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(t.error, {
+        description: (error as Error).message,
+        duration: 5000,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t.title}</DialogTitle>
+          <DialogDescription>{t.description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t.relation}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as RelationType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(t.types) as RelationType[]).map((relationType) => (
+                  <SelectItem key={relationType} value={relationType}>
+                    {t.types[relationType](toolName)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="relation-tool-search">{t.otherTool}</Label>
+            <Input
+              id="relation-tool-search"
+              value={selected ? selected.name : search}
+              onChange={(e) => {
+                setSelected(null);
+                setSearch(e.target.value);
+              }}
+              placeholder={t.searchPlaceholder}
+              autoComplete="off"
+            />
+            {!selected && searchTerm.length >= 2 && (
+              <ul className="max-h-48 overflow-y-auto rounded-md border">
+                {isLoading ? (
+                  <li className="flex justify-center p-3">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </li>
+                ) : candidates.length === 0 ? (
+                  <li className="p-3 text-sm text-muted-foreground">{t.noMatches}</li>
+                ) : (
+                  candidates.map((tool) => (
+                    <li key={tool._id}>
+                      <button
+                        type="button"
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-muted"
+                        onClick={() => setSelected({ _id: tool._id, name: tool.name })}
+                      >
+                        {tool.name}
+                      </button>
+                    </li>
+                  ))
+                )}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="relation-note">{t.note}</Label>
+            <Textarea id="relation-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={!selected || proposeRelation.isPending}>
+            {proposeRelation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t.submitting}
+              </>
+            ) : (
+              t.submit
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
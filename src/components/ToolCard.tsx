@@ -19,11 +19,14 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { ToolDetailDrawer } from "./ToolDetailDrawer";
+import { LifecycleBanner } from "./LifecycleBanner";
+import { ToolLogo } from "./ToolLogo";
 import { useCallback, useRef, useEffect } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useConvex } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { queryKeys } from "@/lib/queryKeys";
+import { useCategories } from "@/hooks/useCategories";
 
 type ToolWithScore = Doc<"aiTools"> & { _score?: number };
 
@@ -76,6 +79,7 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
   const queryClient = useQueryClient();
   const convex = useConvex();
   const prefetchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const { getLabel } = useCategories(language);
 
   const pricingStyle = pricingVariants[tool.pricing];
   const description = tool.description;
@@ -99,7 +103,7 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
     // Set a new timeout for 200ms debounce
     prefetchTimeoutRef.current = setTimeout(() => {
       // Check if data is already cached to avoid unnecessary prefetch
-      const queryKey = queryKeys.tools.detail(tool._id);
+      const queryKey = queryKeys.tools.detail(tool._id, language);
       const cachedData = queryClient.getQueryData(queryKey);
       
       if (!cachedData) {
@@ -109,14 +113,14 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
         }
         queryClient.prefetchQuery({
           queryKey,
-          queryFn: () => convex.query(api.aiTools.getToolById, { toolId: tool._id }),
+          queryFn: () => convex.query(api.aiTools.getToolById, { toolId: tool._id, language }),
           staleTime: 5 * 60 * 1000, // 5 minutes
         });
       } else if (process.env.NODE_ENV === 'development') {
         console.log(`Tool details already cached for: ${tool.name} (${tool._id})`);
       }
     }, 200);
-  }, [tool._id, queryClient, convex]);
+  }, [tool._id, language, queryClient, convex]);
 
   const handleMouseLeave = useCallback(() => {
     // Clear timeout if user leaves before debounce completes
@@ -135,7 +139,7 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
     };
   }, []);
 
-  const smallMedia = tool.logoUrl ? (
+  const smallMedia = (
     <div className="relative group-hover:scale-105 transition-transform duration-300">
       <div
         className={cn(
@@ -143,25 +147,13 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
           pricingStyle.gradient
         )}
       />
-      <img
-        src={tool.logoUrl}
-        alt={tool.name}
-        className="relative h-12 w-12 sm:h-16 sm:w-16 flex-shrink-0 rounded-xl border-2 object-cover shadow-sm"
-        loading="lazy"
+      <ToolLogo
+        name={tool.name}
+        category={tool.category}
+        logoUrl={tool.logoUrl}
+        className="relative h-12 w-12 sm:h-16 sm:w-16 flex-shrink-0 rounded-xl border-2 shadow-sm"
       />
     </div>
-  ) : (
-    <div className="relative group-hover:scale-105 transition-transform duration-300">
-      <div
-        className={cn(
-          "absolute inset-0 rounded-xl bg-gradient-to-br blur-md opacity-0 group-hover:opacity-100 transition-opacity duration-300",
-          pricingStyle.gradient
-        )}
-      />
-      <div className="relative h-12 w-12 sm:h-16 sm:w-16 flex flex-shrink-0 items-center justify-center rounded-xl border-2 bg-gradient-to-br from-muted to-muted/50 text-xl sm:text-2xl shadow-sm">
-        🤖
-      </div>
-    </div>
   );
 
   return (
@@ -232,8 +224,13 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
               variant="secondary"
               className="text-xs font-medium w-fit transition-all duration-300 group-hover/card:scale-105 backdrop-blur-sm"
             >
-              {tool.category}
+              {getLabel(tool.category)}
             </Badge>
+            {tool.lifecycleStatus === "beta" && (
+              <Badge variant="outline" className="text-xs font-medium w-fit">
+                Beta
+              </Badge>
+            )}
             {similarityScore !== undefined && (
               <TooltipProvider delayDuration={200}>
                 <Tooltip>
@@ -257,6 +254,11 @@ export function ToolCard({ tool, language, showScore = false, isFavourited }: To
             )}
           </div>
 
+          {/* Discontinued or acquired notice */}
+          <div className="mb-2 empty:hidden">
+            <LifecycleBanner tool={tool} language={language} compact />
+          </div>
+
           {/* Description */}
           <div className="flex-1 mb-2 sm:mb-2.5">
             <CardDescription className="text-xs sm:text-sm leading-relaxed line-clamp-3 sm:line-clamp-3 transition-colors duration-300">
@@ -5,7 +5,7 @@ import { useConvexQuery } from "@/hooks/useConvexQuery";
 import { useConvexMutation } from "@/hooks/useConvexMutation";
 import { toast } from "sonner";
 import { motion } from "motion/react";
-import { ExternalLink } from "lucide-react";
+import { ExternalLink, PencilLine } from "lucide-react";
 import {
   Drawer,
   DrawerClose,
@@ -19,9 +19,20 @@ import {
 import { Button } from "@/components/ui/button";
 import { StarRating } from "@/components/ui/star-rating";
 import { Badge } from "@/components/ui/badge";
-import { cn } from "@/lib/utils";
+import { Link } from "react-router-dom";
+import { cn, getToolPath } from "@/lib/utils";
+import { useCategories } from "@/hooks/useCategories";
+import { SuggestEditDialog } from "./SuggestEditDialog";
+import { LifecycleBanner } from "./LifecycleBanner";
+import { ToolLogo } from "./ToolLogo";
+import { ToolMediaGallery } from "./ToolMediaGallery";
 
-type ToolWithScore = Doc<"aiTools"> & { _score?: number };
+// Localized queries tell which language the content is in and whether it is machine translated
+type ToolWithScore = Doc<"aiTools"> & {
+  _score?: number;
+  contentLanguage?: "en" | "vi";
+  machineTranslated?: boolean;
+};
 
 interface ToolDetailDrawerProps {
   tool: ToolWithScore;
@@ -105,11 +116,53 @@ const pricingLabels = {
   },
 };
 
+const planLabels = {
+  en: {
+    plans: "Pricing plans",
+    free: "Free",
+    contactSales: "Contact sales",
+    freeTrial: (days: number) => `${days}-day free trial`,
+    month: "/ month",
+    year: "/ year",
+    "one-time": "one-time",
+    usage: "usage-based",
+  },
+  vi: {
+    plans: "Gói giá",
+    free: "Miễn phí",
+    contactSales: "Liên hệ bộ phận bán hàng",
+    freeTrial: (days: number) => `Dùng thử miễn phí ${days} ngày`,
+    month: "/ tháng",
+    year: "/ năm",
+    "one-time": "một lần",
+    usage: "theo mức sử dụng",
+  },
+};
+
+type PricingPlan = NonNullable<Doc<"aiTools">["plans"]>[number];
+
+const formatPlanPrice = (plan: PricingPlan, language: "en" | "vi") => {
+  const labels = planLabels[language];
+  if (plan.price === undefined) {
+    return labels.contactSales;
+  }
+  if (plan.price === 0) {
+    return labels.free;
+  }
+  const price = new Intl.NumberFormat(language === "en" ? "en-US" : "vi-VN", {
+    style: "currency",
+    currency: plan.currency ?? "USD",
+    maximumFractionDigits: 2,
+  }).format(plan.price);
+  return plan.billingPeriod ? `${price} ${labels[plan.billingPeriod]}` : price;
+};
+
 export function ToolDetailDrawer({ tool, language, children }: ToolDetailDrawerProps) {
   const { data: user } = useConvexQuery(api.auth.loggedInUser, {});
   const createReview = useConvexMutation(api.reviews.createReview);
   const [userRating, setUserRating] = React.useState<number | null>(null);
   const [isOpen, setIsOpen] = React.useState(false);
+  const { getLabel } = useCategories(language);
 
   const pricingStyle = pricingVariants[tool.pricing];
   const averageRating = tool.averageRating ?? 0;
@@ -167,32 +220,28 @@ export function ToolDetailDrawer({ tool, language, children }: ToolDetailDrawerP
           <motion.div variants={itemVariants as any}>
             <DrawerHeader className="px-0 space-y-2.5">
               <div className="flex items-center gap-4">
-                {tool.logoUrl ? (
-                  <img
-                    src={tool.logoUrl}
-                    alt={tool.name}
-                    className="h-16 w-16 rounded-xl border-2 object-cover shadow-md"
-                    loading="lazy"
-                  />
-                ) : (
-                  <div className="h-16 w-16 flex items-center justify-center rounded-xl border-2 bg-gradient-to-br from-muted to-muted/50 text-3xl shadow-md">
-                    🤖
-                  </div>
-                )}
+                <ToolLogo
+                  name={tool.name}
+                  category={tool.category}
+                  logoUrl={tool.logoUrl}
+                  className="h-16 w-16 rounded-xl border-2 shadow-md"
+                />
                 <div className="flex-1">
                   <DrawerTitle className="text-2xl font-semibold tracking-tight">
                     {tool.name}
                   </DrawerTitle>
-                  <div className="flex items-center gap-2 mt-2">
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
                     <Badge
                       variant="outline"
                       className={cn("text-xs font-semibold", pricingStyle.badge)}
                     >
                       {pricingStyle.icon} {pricingLabels[language][tool.pricing]}
                     </Badge>
-                    <Badge variant="secondary" className="text-xs font-medium">
-                      {tool.category}
-                    </Badge>
+                    {(tool.categories ?? [tool.category]).map((category) => (
+                      <Badge key={category} variant="secondary" className="text-xs font-medium">
+                        {getLabel(category)}
+                      </Badge>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -200,6 +249,8 @@ export function ToolDetailDrawer({ tool, language, children }: ToolDetailDrawerP
           </motion.div>
 
           <motion.div variants={itemVariants as any} className="space-y-4">
+            <LifecycleBanner tool={tool} language={language} />
+
             {/* Description */}
             <div>
               <h3 className="text-sm font-semibold mb-2 text-muted-foreground">
@@ -208,6 +259,20 @@ export function ToolDetailDrawer({ tool, language, children }: ToolDetailDrawerP
               <DrawerDescription className="text-base leading-relaxed text-foreground">
                 {tool.description}
               </DrawerDescription>
+              {tool.contentLanguage && tool.contentLanguage !== language && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {language === "en"
+                    ? "Not yet available in English; showing the original text."
+                    : "Chưa có bản tiếng Việt; đang hiển thị nội dung gốc."}
+                </p>
+              )}
+              {tool.machineTranslated && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {language === "en"
+                    ? "Machine translated; suggest an edit to improve it."
+                    : "Bản dịch máy; hãy đề xuất chỉnh sửa để cải thiện."}
+                </p>
+              )}
             </div>
 
             {/* Detail */}
@@ -222,6 +287,38 @@ export function ToolDetailDrawer({ tool, language, children }: ToolDetailDrawerP
               </div>
             )}
 
+            {/* Screenshots and videos */}
+            <ToolMediaGallery toolId={tool._id} toolName={tool.name} language={language} />
+
+            {/* Pricing plans */}
+            {tool.plans && tool.plans.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold mb-2 text-muted-foreground">
+                  {planLabels[language].plans}
+                </h3>
+                <ul className="divide-y rounded-lg border">
+                  {tool.plans.map((plan) => (
+                    <li
+                      key={plan.name}
+                      className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm"
+                    >
+                      <span className="font-medium">{plan.name}</span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {plan.freeTrialDays && (
+                          <Badge variant="secondary" className="text-xs">
+                            {planLabels[language].freeTrial(plan.freeTrialDays)}
+                          </Badge>
+                        )}
+                        <span className="text-muted-foreground">
+                          {formatPlanPrice(plan, language)}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Tags */}
             {tool.tags.length > 0 && (
               <div>
@@ -291,6 +388,24 @@ export function ToolDetailDrawer({ tool, language, children }: ToolDetailDrawerP
                   <ExternalLink className="h-4 w-4" />
                 </a>
               </Button>
+              {tool.slug && (
+                <Button asChild variant="outline" className="w-full h-11 rounded-xl">
+                  <Link to={getToolPath(tool.slug, language)}>
+                    {language === "en" ? "Open tool page" : "Mở trang công cụ"}
+                  </Link>
+                </Button>
+              )}
+              {user && (
+                <SuggestEditDialog tool={tool} language={language}>
+                  <Button
+                    variant="ghost"
+                    className="w-full h-11 rounded-xl gap-2"
+                  >
+                    <PencilLine className="h-4 w-4" />
+                    {language === "en" ? "Suggest an edit" : "Đề xuất chỉnh sửa"}
+                  </Button>
+                </SuggestEditDialog>
+              )}
               <DrawerClose asChild>
                 <Button
                   variant="outline"
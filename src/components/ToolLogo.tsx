@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { getCategoryColor, getMonogramInitials } from "@/lib/monogram";
+
+interface ToolLogoProps {
+  name: string;
+  category: string;
+  logoUrl?: string;
+  className?: string;
+}
+
+/**
+ * Tool logo, or a monogram when the tool has none or the image fails to load
+ */
+export function ToolLogo({ name, category, logoUrl, className }: ToolLogoProps) {
+  const [failed, setFailed] = useState(false);
+
+  // A new URL gets a fresh chance to load
+  useEffect(() => {
+    setFailed(false);
+  }, [logoUrl]);
+
+  if (logoUrl && !failed) {
+    return (
+      <img
+        src={logoUrl}
+        alt={name}
+        className={cn("object-cover", className)}
+        loading="lazy"
+        referrerPolicy="no-referrer"
+        onError={() => setFailed(true)}
+      />
+    );
+  }
+
+  const initials = getMonogramInitials(name);
+  return (
+    <svg
+      viewBox="0 0 64 64"
+      role="img"
+      aria-label={name}
+      className={cn("overflow-hidden", className)}
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <rect width="64" height="64" fill={getCategoryColor(category)} />
+      <text
+        x="32"
+        y="32"
+        dy="0.35em"
+        textAnchor="middle"
+        fill="white"
+        fontFamily="system-ui, sans-serif"
+        fontSize={initials.length > 1 ? 26 : 32}
+        fontWeight="600"
+      >
+        {initials}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,112 @@
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useConvexQuery } from "@/hooks/useConvexQuery";
+import { ImagePlus } from "lucide-react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "./ui/carousel";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import { ToolMediaManager } from "./ToolMediaManager";
+
+const translations = {
+  en: {
+    title: "Screenshots & videos",
+    manage: "Manage gallery",
+    empty: "No screenshots or videos yet.",
+    video: "Demo video",
+  },
+  vi: {
+    title: "Ảnh chụp & video",
+    manage: "Quản lý thư viện",
+    empty: "Chưa có ảnh chụp hoặc video.",
+    video: "Video giới thiệu",
+  },
+};
+
+interface ToolMediaGalleryProps {
+  toolId: Id<"aiTools">;
+  toolName: string;
+  language: "en" | "vi";
+  className?: string;
+  titleClassName?: string;
+}
+
+/**
+ * Carousel of a tool's screenshots and demo videos
+ * Hidden when the gallery is empty, except for users who can add to it
+ */
+export function ToolMediaGallery({ toolId, toolName, language, className, titleClassName }: ToolMediaGalleryProps) {
+  const t = translations[language];
+  const { data } = useConvexQuery(api.toolMedia.listToolMedia, { toolId });
+
+  if (!data || (data.items.length === 0 && !data.canManage)) {
+    return null;
+  }
+
+  return (
+    <section className={className}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h3 className={cn("text-sm font-semibold text-muted-foreground", titleClassName)}>{t.title}</h3>
+        {data.canManage && (
+          <ToolMediaManager toolId={toolId} items={data.items} language={language}>
+            <Button variant="ghost" size="sm" className="gap-1">
+              <ImagePlus className="h-4 w-4" />
+              {t.manage}
+            </Button>
+          </ToolMediaManager>
+        )}
+      </div>
+
+      {data.items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t.empty}</p>
+      ) : (
+        <Carousel opts={{ loop: data.items.length > 1 }} className="relative">
+          <CarouselContent>
+            {data.items.map((item) => (
+              <CarouselItem key={item._id}>
+                <figure>
+                  <div className="aspect-video overflow-hidden rounded-lg border bg-muted">
+                    {item.kind === "image" ? (
+                      <img
+                        src={item.url}
+                        alt={item.caption ?? toolName}
+                        className="h-full w-full object-contain"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <iframe
+                        src={item.embedUrl}
+                        title={item.caption ?? `${toolName} – ${t.video}`}
+                        className="h-full w-full"
+                        allow="autoplay; fullscreen; picture-in-picture"
+                        allowFullScreen
+                        loading="lazy"
+                        referrerPolicy="strict-origin-when-cross-origin"
+                      />
+                    )}
+                  </div>
+                  {item.caption && (
+                    <figcaption className="mt-2 text-center text-xs text-muted-foreground">
+                      {item.caption}
+                    </figcaption>
+                  )}
+                </figure>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {data.items.length > 1 && (
+            <>
+              <CarouselPrevious className="left-2" />
+              <CarouselNext className="right-2" />
+            </>
+          )}
+        </Carousel>
+      )}
+    </section>
+  );
+}
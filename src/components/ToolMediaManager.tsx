@@ -0,0 +1,284 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getFunctionName } from "convex/server";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { useConvexMutation } from "@/hooks/useConvexMutation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ArrowDown, ArrowUp, Loader2, PlaySquare, Trash2, Upload } from "lucide-react";
+
+// Screenshots accepted by the server (see convex/lib/toolMedia.ts)
+const MEDIA_CONTENT_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+const MEDIA_MAX_BYTES = 5 * 1024 * 1024;
+
+const translations = {
+  en: {
+    title: "Manage gallery",
+    description: "Screenshots and demo videos are shown on the tool page in this order.",
+    uploadScreenshot: "Upload screenshot",
+    uploading: "Uploading...",
+    videoUrl: "Video link (YouTube, Vimeo or Loom)",
+    caption: "Caption (optional)",
+    addVideo: "Add video",
+    empty: "The gallery is empty.",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    remove: "Remove",
+    wrongType: "Screenshots must be PNG, JPEG, WebP or GIF images",
+    tooLarge: "Screenshots must be at most 5 MB",
+    uploadFailed: "Could not upload the screenshot",
+    failed: "Could not update the gallery",
+  },
+  vi: {
+    title: "Quản lý thư viện",
+    description: "Ảnh chụp và video giới thiệu được hiển thị trên trang công cụ theo thứ tự này.",
+    uploadScreenshot: "Tải ảnh chụp lên",
+    uploading: "Đang tải lên...",
+    videoUrl: "Liên kết video (YouTube, Vimeo hoặc Loom)",
+    caption: "Chú thích (tùy chọn)",
+    addVideo: "Thêm video",
+    empty: "Thư viện đang trống.",
+    moveUp: "Di chuyển lên",
+    moveDown: "Di chuyển xuống",
+    remove: "Xóa",
+    wrongType: "Ảnh chụp phải là ảnh PNG, JPEG, WebP hoặc GIF",
+    tooLarge: "Ảnh chụp tối đa 5 MB",
+    uploadFailed: "Không tải ảnh chụp lên được",
+    failed: "Không thể cập nhật thư viện",
+  },
+};
+
+type MediaItem = Omit<Doc<"toolMedia">, "storageId">;
+
+interface ToolMediaManagerProps {
+  toolId: Id<"aiTools">;
+  items: MediaItem[];
+  language: "en" | "vi";
+  children: React.ReactNode;
+}
+
+/**
+ * Dialog for tool owners and moderators to add, caption, reorder and remove
+ * gallery items
+ */
+export function ToolMediaManager({ toolId, items, language, children }: ToolMediaManagerProps) {
+  const t = translations[language];
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [video, setVideo] = useState({ url: "", caption: "" });
+  const [imageCaption, setImageCaption] = useState("");
+
+  const refreshGallery = {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [getFunctionName(api.toolMedia.listToolMedia)] });
+    },
+  };
+  const generateUploadUrl = useConvexMutation(api.toolMedia.generateMediaUploadUrl);
+  const addImage = useConvexMutation(api.toolMedia.addToolImage, refreshGallery);
+  const addVideo = useConvexMutation(api.toolMedia.addToolVideo, refreshGallery);
+  const updateCaption = useConvexMutation(api.toolMedia.updateMediaCaption, refreshGallery);
+  const moveMedia = useConvexMutation(api.toolMedia.moveToolMedia, refreshGallery);
+  const removeMedia = useConvexMutation(api.toolMedia.removeToolMedia, refreshGallery);
+
+  const showError = (error: unknown, title = t.failed) => {
+    toast.error(title, {
+      description: (error as Error).message,
+      duration: 5000,
+    });
+  };
+
+  const handleScreenshotUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    if (!MEDIA_CONTENT_TYPES.includes(file.type)) {
+      toast.error(t.wrongType);
+      return;
+    }
+    if (file.size > MEDIA_MAX_BYTES) {
+      toast.error(t.tooLarge);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploadUrl = await generateUploadUrl.mutateAsync({});
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed with status ${response.status}`);
+      }
+      const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+      await addImage.mutateAsync({ toolId, storageId, caption: imageCaption });
+      setImageCaption("");
+    } catch (error) {
+      showError(error, t.uploadFailed);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAddVideo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await addVideo.mutateAsync({ toolId, url: video.url, caption: video.caption });
+      setVideo({ url: "", caption: "" });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  // Captions are saved when the field loses focus
+  const handleCaptionBlur = async (item: MediaItem, caption: string) => {
+    if (caption.trim() === (item.caption ?? "")) {
+      return;
+    }
+    try {
+      await updateCaption.mutateAsync({ mediaId: item._id, caption });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const isBusy = moveMedia.isPending || removeMedia.isPending;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.title}</DialogTitle>
+          <DialogDescription>{t.description}</DialogDescription>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.empty}</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {items.map((item, index) => (
+              <li key={item._id} className="flex items-center gap-3 p-2">
+                <div className="flex h-12 w-20 shrink-0 items-center justify-center overflow-hidden rounded bg-muted">
+                  {item.kind === "image" ? (
+                    <img src={item.url} alt="" className="h-full w-full object-cover" />
+                  ) : (
+                    <PlaySquare className="h-6 w-6 text-muted-foreground" />
+                  )}
+                </div>
+                <Input
+                  key={item.caption ?? ""}
+                  defaultValue={item.caption ?? ""}
+                  placeholder={item.kind === "video" ? item.url : t.caption}
+                  onBlur={(e) => handleCaptionBlur(item, e.target.value)}
+                  className="h-8 text-sm"
+                />
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={t.moveUp}
+                    disabled={isBusy || index === 0}
+                    onClick={() => moveMedia.mutateAsync({ mediaId: item._id, direction: "up" }).catch(showError)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={t.moveDown}
+                    disabled={isBusy || index === items.length - 1}
+                    onClick={() => moveMedia.mutateAsync({ mediaId: item._id, direction: "down" }).catch(showError)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    title={t.remove}
+                    disabled={isBusy}
+                    onClick={() => removeMedia.mutateAsync({ mediaId: item._id }).catch(showError)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="media-image-caption">{t.caption}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="media-image-caption"
+              value={imageCaption}
+              onChange={(e) => setImageCaption(e.target.value)}
+            />
+            <input
+              ref={fileInput}
+              type="file"
+              accept={MEDIA_CONTENT_TYPES.join(",")}
+              className="hidden"
+              onChange={handleScreenshotUpload}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="shrink-0 gap-2"
+              disabled={isUploading}
+              onClick={() => fileInput.current?.click()}
+            >
+              {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {isUploading ? t.uploading : t.uploadScreenshot}
+            </Button>
+          </div>
+        </div>
+
+        <form onSubmit={handleAddVideo} className="space-y-2">
+          <Label htmlFor="media-video-url">{t.videoUrl}</Label>
+          <Input
+            id="media-video-url"
+            type="url"
+            value={video.url}
+            onChange={(e) => setVideo((current) => ({ ...current, url: e.target.value }))}
+            placeholder="https://www.youtube.com/watch?v=..."
+            required
+          />
+          <div className="flex gap-2">
+            <Input
+              value={video.caption}
+              onChange={(e) => setVideo((current) => ({ ...current, caption: e.target.value }))}
+              placeholder={t.caption}
+            />
+            <Button type="submit" className="shrink-0" disabled={addVideo.isPending}>
+              {addVideo.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t.addVideo}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useConvex } from "convex/react";
 
 import { queryKeys } from "@/lib/queryKeys";
+import { useCategories } from "@/hooks/useCategories";
 
 type ToolWithScore = Doc<"aiTools"> & { _score?: number };
 
@@ -21,6 +22,7 @@ interface ToolsListProps {
   searchTerm: string;
   selectedCategory: string;
   selectedPricing: string;
+  includeDiscontinued?: boolean;
   language: "en" | "vi";
   semanticResults?: ToolWithScore[];
   isSemanticSearch?: boolean;
@@ -30,6 +32,7 @@ export function ToolsList({
   searchTerm,
   selectedCategory,
   selectedPricing,
+  includeDiscontinued = false,
   language,
   semanticResults,
   isSemanticSearch = false,
@@ -39,11 +42,12 @@ export function ToolsList({
   
   const queryClient = useQueryClient();
   const convex = useConvex();
+  const { getLabel } = useCategories(language);
 
   // Reset to first page when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, selectedCategory, selectedPricing, isSemanticSearch]);
+  }, [searchTerm, selectedCategory, selectedPricing, includeDiscontinued, isSemanticSearch]);
 
   // Server-side pagination with offset-based queries
   // Calculate offset for current page
@@ -60,6 +64,7 @@ export function ToolsList({
           pricing: selectedPricing
             ? (selectedPricing as "free" | "freemium" | "paid")
             : undefined,
+          includeDiscontinued,
           offset,
           limit: ITEMS_PER_PAGE,
         }
@@ -72,6 +77,7 @@ export function ToolsList({
         pricing: selectedPricing
           ? (selectedPricing as "free" | "freemium" | "paid")
           : undefined,
+        includeDiscontinued,
         page: currentPage,
       }),
       enabled: Boolean(searchTerm && !isSemanticSearch),
@@ -92,6 +98,7 @@ export function ToolsList({
           pricing: selectedPricing
             ? (selectedPricing as "free" | "freemium" | "paid")
             : undefined,
+          includeDiscontinued,
           offset,
           limit: ITEMS_PER_PAGE,
         }
@@ -103,6 +110,7 @@ export function ToolsList({
         pricing: selectedPricing
           ? (selectedPricing as "free" | "freemium" | "paid")
           : undefined,
+        includeDiscontinued,
         page: currentPage,
       }),
       enabled: Boolean(!searchTerm && !isSemanticSearch),
@@ -158,6 +166,7 @@ export function ToolsList({
           language,
           category: selectedCategory || undefined,
           pricing: selectedPricing ? (selectedPricing as "free" | "freemium" | "paid") : undefined,
+          includeDiscontinued,
           offset: pageOffset,
           limit: ITEMS_PER_PAGE,
         };
@@ -170,6 +179,7 @@ export function ToolsList({
               language,
               category: selectedCategory,
               pricing: selectedPricing ? (selectedPricing as "free" | "freemium" | "paid") : undefined,
+              includeDiscontinued,
               page,
             }),
             queryFn: () => convex.query(api.aiTools.searchToolsWithOffset, {
@@ -185,6 +195,7 @@ export function ToolsList({
               language,
               category: selectedCategory,
               pricing: selectedPricing ? (selectedPricing as "free" | "freemium" | "paid") : undefined,
+              includeDiscontinued,
               page,
             }),
             queryFn: () => convex.query(api.aiTools.listToolsWithOffset, baseArgs),
@@ -197,7 +208,7 @@ export function ToolsList({
       prefetchPage(currentPage + 1); // Next page
       prefetchPage(currentPage - 1); // Previous page
     }
-  }, [currentPage, totalPages, searchTerm, selectedCategory, selectedPricing, language, isSemanticSearch, queryClient, convex]);
+  }, [currentPage, totalPages, searchTerm, selectedCategory, selectedPricing, includeDiscontinued, language, isSemanticSearch, queryClient, convex]);
 
   // Remove category-based layout - always show simple grid
 
@@ -381,7 +392,7 @@ export function ToolsList({
           transition={{ duration: 0.4 }}
         >
           <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-primary to-primary/60">
-            {selectedCategory}
+            {getLabel(selectedCategory)}
           </h2>
           <Badge variant="default" className="text-xs shadow-md">
             {totalCount}
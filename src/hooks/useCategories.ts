@@ -0,0 +1,41 @@
+import { useCallback } from 'react';
+import { api } from '../../convex/_generated/api';
+import { useConvexQuery } from './useConvexQuery';
+import { queryKeys } from '@/lib/queryKeys';
+
+/**
+ * Load the category taxonomy and resolve slugs to localized labels.
+ *
+ * Tools store a category slug; use `getLabel` wherever a category is shown.
+ * Unknown slugs (e.g. before the migration has run) are shown as-is.
+ *
+ * @example
+ * ```tsx
+ * const { categories, getLabel } = useCategories(language);
+ * <Badge>{getLabel(tool.category)}</Badge>
+ * ```
+ */
+export function useCategories(language: 'en' | 'vi') {
+  const { data: categories = [], isLoading } = useConvexQuery(
+    api.categories.listCategories,
+    {},
+    {
+      queryKey: queryKeys.tools.categories(),
+      staleTime: 10 * 60 * 1000, // 10 minutes - categories don't change frequently
+      gcTime: 30 * 60 * 1000, // 30 minutes - keep in cache longer
+    }
+  );
+
+  const getLabel = useCallback(
+    (slug: string) =>
+      categories.find((category) => category.slug === slug)?.labels[language] ?? slug,
+    [categories, language]
+  );
+
+  const getIcon = useCallback(
+    (slug: string) => categories.find((category) => category.slug === slug)?.icon ?? '🔧',
+    [categories]
+  );
+
+  return { categories, getLabel, getIcon, isLoading };
+}
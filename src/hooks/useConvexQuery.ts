@@ -28,9 +28,9 @@ import { getQueryConfig } from '../lib/queryClient';
  * 
  * // With custom query key for better cache management
  * const { data } = useConvexQuery(
- *   api.aiTools.getCategories,
- *   { language: 'en' },
- *   { queryKey: queryKeys.tools.categories('en') }
+ *   api.categories.listCategories,
+ *   {},
+ *   { queryKey: queryKeys.tools.categories() }
  * );
  * ```
  */
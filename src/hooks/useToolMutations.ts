@@ -12,20 +12,17 @@ import { useQueryClient } from '@tanstack/react-query';
 import { api } from '../../convex/_generated/api';
 import { useConvexMutation } from './useConvexMutation';
 import { invalidateQueries } from '../lib/cacheInvalidation';
-import { Id } from '../../convex/_generated/dataModel';
+import { getFunctionName } from 'convex/server';
 
 /**
  * Hook for adding a new tool
  * 
- * Implements optimistic updates by immediately adding the tool to relevant caches
- * before the server confirms, then invalidates queries to ensure consistency.
+ * New submissions are held for moderator review, so the tool is not added
+ * to any public list; only the submitter's own views are refreshed.
  * 
  * Automatically invalidates:
- * - Tools lists (browse page)
- * - Search results
  * - User's submitted tools
- * - Statistics
- * - Categories list
+ * - User's submission statuses (moderation queue)
  * 
  * @example
  * ```tsx
@@ -45,116 +42,11 @@ export function useAddTool() {
   const queryClient = useQueryClient();
   
   return useConvexMutation(api.aiTools.addTool, {
-    onMutate: async (variables) => {
-      // Cancel any outgoing refetches to prevent race conditions
-      await queryClient.cancelQueries({ queryKey: ['aiTools.listToolsPaginated', 'infinite'] });
-      await queryClient.cancelQueries({ queryKey: ['aiTools.searchToolsPaginated', 'infinite'] });
-      
-      // Snapshot the previous values for rollback
-      const previousToolsLists = queryClient.getQueriesData({ 
-        queryKey: ['aiTools.listToolsPaginated', 'infinite'] 
-      });
-      const previousSearchResults = queryClient.getQueriesData({ 
-        queryKey: ['aiTools.searchToolsPaginated', 'infinite'] 
-      });
-      
-      // Create optimistic tool object
-      const optimisticTool = {
-        _id: `temp-${Date.now()}` as Id<'aiTools'>, // Temporary ID
-        _creationTime: Date.now(),
-        name: variables.name,
-        description: variables.description,
-        url: variables.url,
-        category: variables.category,
-        tags: variables.tags || [],
-        pricing: variables.pricing,
-        logoUrl: variables.logoUrl,
-        language: variables.language,
-        isApproved: true,
-        submittedBy: 'current-user', // Will be replaced by server
-        submittedAt: Date.now(),
-        averageRating: 0,
-        reviewCount: 0,
-        favouriteCount: 0,
-        viewCount: 0,
-        clickCount: 0,
-        // Embedding will be generated by server
-      };
-      
-      // Optimistically update tools lists (infinite queries)
-      queryClient.setQueriesData(
-        { queryKey: ['aiTools.listToolsPaginated', 'infinite'] },
-        (oldData: any) => {
-          if (!oldData?.pages) return oldData;
-          
-          // Add the new tool to the first page
-          const newPages = [...oldData.pages];
-          if (newPages[0]?.page) {
-            newPages[0] = {
-              ...newPages[0],
-              page: [optimisticTool, ...newPages[0].page],
-            };
-          }
-          
-          return {
-            ...oldData,
-            pages: newPages,
-          };
-        }
-      );
-      
-      return { previousToolsLists, previousSearchResults, optimisticTool };
-    },
-    
-    onError: (error, variables, context) => {
-      // Rollback optimistic updates on error
-      if (context?.previousToolsLists) {
-        context.previousToolsLists.forEach(([queryKey, data]) => {
-          queryClient.setQueryData(queryKey, data);
-        });
-      }
-      if (context?.previousSearchResults) {
-        context.previousSearchResults.forEach(([queryKey, data]) => {
-          queryClient.setQueryData(queryKey, data);
-        });
-      }
-    },
-    
-    onSuccess: (data, variables, context) => {
-      // Replace optimistic tool with real data from server
-      if (context?.optimisticTool && data.toolId) {
-        queryClient.setQueriesData(
-          { queryKey: ['aiTools.listToolsPaginated', 'infinite'] },
-          (oldData: any) => {
-            if (!oldData?.pages) return oldData;
-            
-            const newPages = oldData.pages.map((page: any) => {
-              if (!page?.page) return page;
-              
-              return {
-                ...page,
-                page: page.page.map((tool: any) => 
-                  tool._id === context.optimisticTool._id 
-                    ? { ...tool, _id: data.toolId } // Update with real ID
-                    : tool
-                ),
-              };
-            });
-            
-            return {
-              ...oldData,
-              pages: newPages,
-            };
-          }
-        );
-      }
-      
-      // Invalidate all tools-related queries to ensure consistency
-      invalidateQueries.toolsLists(queryClient);
-      invalidateQueries.toolsSearches(queryClient);
+    onSuccess: () => {
       invalidateQueries.userTools(queryClient);
-      invalidateQueries.stats(queryClient);
-      invalidateQueries.categories(queryClient);
+      queryClient.invalidateQueries({
+        queryKey: [getFunctionName(api.moderation.getMySubmissions)],
+      });
     },
   });
 }
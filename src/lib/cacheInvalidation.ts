@@ -108,20 +108,11 @@ export const invalidateQueries = {
    * Invalidate categories
    * Use when new categories are added or category data changes
    */
-  categories: (queryClient: QueryClient, language?: 'en' | 'vi') => {
-    if (language) {
-      queryClient.invalidateQueries({ 
-        queryKey: queryKeys.tools.categories(language) 
-      });
-    } else {
-      // Invalidate all language variants
-      queryClient.invalidateQueries({ 
-        queryKey: queryKeys.tools.categories('en') 
-      });
-      queryClient.invalidateQueries({ 
-        queryKey: queryKeys.tools.categories('vi') 
-      });
-    }
+  categories: (queryClient: QueryClient) => {
+    // Labels are bilingual, so one entry covers both languages
+    queryClient.invalidateQueries({ 
+      queryKey: queryKeys.tools.categories() 
+    });
   },
 
   /**
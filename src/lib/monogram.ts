@@ -0,0 +1,37 @@
+/**
+ * Monogram logos for tools without a usable logo
+ * The letters come from the tool name and the colour from the category, so a
+ * tool always gets the same monogram and tools in one category share a colour.
+ */
+
+// Hues spread around the colour wheel, skipping muddy yellows
+const CATEGORY_HUES = [4, 24, 142, 168, 188, 204, 220, 240, 262, 284, 310, 334];
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Up to two letters: the initials of the first two words, or the first letter
+ */
+export function getMonogramInitials(name: string) {
+  const words = name.match(/[\p{L}\p{N}]+/gu) ?? [];
+  const initials = words
+    .slice(0, 2)
+    .map((word) => Array.from(word)[0])
+    .join("");
+  return (initials || "?").toLocaleUpperCase();
+}
+
+/**
+ * Background colour shared by every tool in a category
+ */
+export function getCategoryColor(category: string) {
+  const hue = CATEGORY_HUES[hashString(category) % CATEGORY_HUES.length];
+  return `hsl(${hue} 62% 46%)`;
+}
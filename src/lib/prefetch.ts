@@ -46,16 +46,17 @@ export const prefetchTools = {
   onHover: async (
     queryClient: QueryClient,
     convex: ConvexReactClient,
-    toolId: Id<"aiTools">
+    toolId: Id<"aiTools">,
+    language?: 'en' | 'vi'
   ) => {
     // Check if already cached to avoid unnecessary prefetch
-    const queryKey = queryKeys.tools.detail(toolId);
+    const queryKey = queryKeys.tools.detail(toolId, language);
     const cachedData = queryClient.getQueryData(queryKey);
 
     if (!cachedData) {
       await queryClient.prefetchQuery({
         queryKey,
-        queryFn: () => convex.query(api.aiTools.getToolById, { toolId }),
+        queryFn: () => convex.query(api.aiTools.getToolById, { toolId, language }),
         staleTime: 5 * 60 * 1000, // 5 minutes
       });
     }
@@ -127,7 +128,7 @@ export const prefetchTools = {
         // Prefetch categories for the form
         await queryClient.prefetchQuery({
           queryKey: queryKeys.tools.categories(),
-          queryFn: () => convex.query(api.aiTools.getCategories, {}),
+          queryFn: () => convex.query(api.categories.listCategories, {}),
           staleTime: 30 * 60 * 1000,
         });
         break;
@@ -86,10 +86,10 @@ export const prefetchTools = {
   /**
    * Prefetch categories (static data with long cache)
    */
-  categories: async (convex: ConvexClient, language?: 'en' | 'vi') => {
+  categories: async (convex: ConvexClient) => {
     await queryClient.prefetchQuery({
-      queryKey: queryKeys.tools.categories(language),
-      queryFn: () => convex.query('aiTools:getCategories' as any, language ? { language } : {}),
+      queryKey: queryKeys.tools.categories(),
+      queryFn: () => convex.query('categories:listCategories' as any, {}),
       ...queryConfigs.staticData, // Use static data config for categories
     });
   },
@@ -195,7 +195,7 @@ export const batchPrefetch = {
   ) => {
     await Promise.all([
       prefetchTools.paginatedList(convex, filters),
-      prefetchTools.categories(convex, filters.language),
+      prefetchTools.categories(convex),
       prefetchFavourites.ids(convex), // Prefetch in parallel for authenticated users
     ]);
   },
@@ -42,6 +42,7 @@ export const queryKeys = {
       language?: 'en' | 'vi';
       category?: string;
       pricing?: 'free' | 'freemium' | 'paid';
+      includeDiscontinued?: boolean;
       page?: number;
     }) => [...queryKeys.tools.paginatedLists(), filters] as const,
     
@@ -61,6 +62,7 @@ export const queryKeys = {
       language?: 'en' | 'vi';
       category?: string;
       pricing?: 'free' | 'freemium' | 'paid';
+      includeDiscontinued?: boolean;
       page?: number;
     }) => [...queryKeys.tools.paginatedSearches(), params] as const,
     
@@ -76,7 +78,10 @@ export const queryKeys = {
     
     // Individual tool details
     details: () => [...queryKeys.tools.all, 'detail'] as const,
-    detail: (toolId: string) => [...queryKeys.tools.details(), toolId] as const,
+    detail: (toolId: string, language?: 'en' | 'vi') =>
+      language
+        ? ([...queryKeys.tools.details(), toolId, { language }] as const)
+        : ([...queryKeys.tools.details(), toolId] as const),
     
     // Similar tools (based on embeddings)
     similarTools: (toolId: string, limit?: number) => 
@@ -86,8 +91,8 @@ export const queryKeys = {
     userTools: () => [...queryKeys.tools.all, 'userTools'] as const,
     
     // Categories
-    categories: (language?: 'en' | 'vi') => 
-      [...queryKeys.tools.all, 'categories', { language }] as const,
+    categories: () => 
+      [...queryKeys.tools.all, 'categories'] as const,
     
     // Statistics
     stats: () => [...queryKeys.tools.all, 'stats'] as const,
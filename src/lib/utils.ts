@@ -3,3 +3,10 @@ import { clsx, type ClassValue } from "clsx";
 export function cn(...inputs: ClassValue[]) {
     return clsx(inputs);
 }
+
+/**
+ * Path of a tool's detail page; Vietnamese pages live under /vi
+ */
+export function getToolPath(slug: string, language: "en" | "vi") {
+    return language === "vi" ? `/vi/tools/${slug}` : `/tools/${slug}`;
+}
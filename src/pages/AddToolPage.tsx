@@ -2,6 +2,7 @@ import { Suspense, lazy } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
 import { SEO } from "../components/SEO";
+import { MySubmissions } from "../components/MySubmissions";
 import { generateBreadcrumbStructuredData } from "../lib/structuredData";
 
 type Language = "en" | "vi";
@@ -55,6 +56,9 @@ export function AddToolPage({ language }: { language: Language }) {
           </Suspense>
         </CardContent>
       </Card>
+      <div className="mx-auto mt-6 max-w-4xl">
+        <MySubmissions language={language} />
+      </div>
     </div>
     </>
   );
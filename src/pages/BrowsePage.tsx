@@ -11,6 +11,8 @@ const SemanticSearchBar = lazy(() =>
   }))
 );
 import { Button } from "../components/ui/button";
+import { Switch } from "../components/ui/switch";
+import { Label } from "../components/ui/label";
 // Import motion - will be code-split via Vite config
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -40,6 +42,7 @@ const translations = {
     semanticSearch: "Semantic",
     keywordDesc: "Traditional search",
     semanticDesc: "Natural language",
+    showDiscontinued: "Show discontinued tools",
   },
   vi: {
     title: "Cơ sở dữ liệu công cụ AI",
@@ -56,6 +59,7 @@ const translations = {
     semanticSearch: "Ngữ nghĩa",
     keywordDesc: "Tìm kiếm truyền thống",
     semanticDesc: "Ngôn ngữ tự nhiên",
+    showDiscontinued: "Hiện công cụ đã ngừng hoạt động",
   },
 };
 
@@ -64,6 +68,7 @@ export function BrowsePage({ language }: { language: Language }) {
   const [selectedCategory, setSelectedCategory] = useState("");
   const [selectedPricing, setSelectedPricing] = useState("");
   const [searchMode, setSearchMode] = useState<SearchMode>("keyword");
+  const [includeDiscontinued, setIncludeDiscontinued] = useState(false);
 
   const t = translations[language];
 
@@ -359,6 +364,18 @@ export function BrowsePage({ language }: { language: Language }) {
           </div>
         </div>
 
+        {/* Discontinued tools are hidden unless asked for */}
+        <div className="flex items-center justify-center gap-2">
+          <Switch
+            id="include-discontinued"
+            checked={includeDiscontinued}
+            onCheckedChange={setIncludeDiscontinued}
+          />
+          <Label htmlFor="include-discontinued" className="text-sm text-muted-foreground">
+            {t.showDiscontinued}
+          </Label>
+        </div>
+
         {/* Search Bar - Conditional Rendering with Animation */}
         <AnimatePresence mode="wait">
           {searchMode === "keyword" ? (
@@ -393,6 +410,7 @@ export function BrowsePage({ language }: { language: Language }) {
                   language={language}
                   category={selectedCategory}
                   pricing={selectedPricing as "free" | "freemium" | "paid" | undefined}
+                  includeDiscontinued={includeDiscontinued}
                 />
               </Suspense>
             </motion.div>
@@ -432,6 +450,7 @@ export function BrowsePage({ language }: { language: Language }) {
               searchTerm={searchTerm}
               selectedCategory={selectedCategory}
               selectedPricing={selectedPricing}
+              includeDiscontinued={includeDiscontinued}
               language={language}
             />
           </div>
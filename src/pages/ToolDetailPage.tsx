@@ -1,36 +1,145 @@
-import { useParams } from "react-router-dom";
+import { useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { api } from "../../convex/_generated/api";
 import { useConvexQuery } from "@/hooks/useConvexQuery";
-import { Id } from "../../convex/_generated/dataModel";
+import { useCategories } from "@/hooks/useCategories";
 import { ToolCard } from "../components/ToolCard";
 import { Skeleton } from "../components/ui/skeleton";
 import { ReviewsSection } from "../components/ReviewsSection";
-import { MainLayout } from "@/components/MainLayout";
 import { SimilarTools } from "@/components/SimilarTools";
+import { RelatedTools } from "@/components/RelatedTools";
+import { SEO } from "../components/SEO";
+import { LifecycleBanner } from "../components/LifecycleBanner";
+import { ToolMediaGallery } from "../components/ToolMediaGallery";
+import {
+  generateBreadcrumbStructuredData,
+  generateToolStructuredData,
+} from "../lib/structuredData";
+import { getToolPath } from "@/lib/utils";
 
-export function ToolDetailPage() {
-  const { toolId } = useParams<{ toolId: Id<"aiTools"> }>();
-  const { data: tool } = useConvexQuery(api.aiTools.getToolById, { toolId: toolId! });
+type Language = "en" | "vi";
+
+const translations = {
+  en: {
+    home: "Home",
+    notFound: "Tool not found",
+    notFoundDescription: "This tool does not exist or is no longer listed.",
+  },
+  vi: {
+    home: "Trang chủ",
+    notFound: "Không tìm thấy công cụ",
+    notFoundDescription: "Công cụ này không tồn tại hoặc không còn được liệt kê.",
+  },
+};
+
+interface ToolDetailPageProps {
+  language: Language; // Language selected in the header
+  routeLanguage: Language; // Language of the URL: /tools/:slug or /vi/tools/:slug
+  setLanguage: (language: Language) => void;
+}
+
+export function ToolDetailPage({ language, routeLanguage, setLanguage }: ToolDetailPageProps) {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const t = translations[routeLanguage];
+  const { getLabel } = useCategories(routeLanguage);
+  const { data: tool } = useConvexQuery(api.aiTools.getToolBySlug, {
+    slug: slug!,
+    language: routeLanguage,
+  });
+
+  // The URL decides the language when the page opens
+  useEffect(() => {
+    setLanguage(routeLanguage);
+  }, [routeLanguage, setLanguage]);
+
+  // Switching language in the header moves to the other language's URL
+  const previousLanguage = useRef(language);
+  useEffect(() => {
+    if (previousLanguage.current === language) {
+      return;
+    }
+    previousLanguage.current = language;
+    if (language !== routeLanguage && slug) {
+      navigate(getToolPath(slug, language), { replace: true });
+    }
+  }, [language, routeLanguage, slug, navigate]);
+
+  // Old slugs of renamed or merged tools redirect to the current one
+  useEffect(() => {
+    if (tool?.slug && tool.slug !== slug) {
+      navigate(getToolPath(tool.slug, routeLanguage), { replace: true });
+    }
+  }, [tool?.slug, slug, routeLanguage, navigate]);
+
+  if (tool === undefined) {
+    return (
+      <div className="container max-w-7xl px-3 py-6 sm:px-6 sm:py-8">
+        <Skeleton className="w-full h-64" />
+      </div>
+    );
+  }
+
+  if (tool === null) {
+    return (
+      <>
+        <SEO title={t.notFound} description={t.notFoundDescription} language={routeLanguage} />
+        <div className="container max-w-7xl px-3 py-16 text-center sm:px-6">
+          <h1 className="text-2xl font-bold mb-2">{t.notFound}</h1>
+          <p className="text-muted-foreground">{t.notFoundDescription}</p>
+        </div>
+      </>
+    );
+  }
+
+  const path = getToolPath(tool.slug ?? slug!, routeLanguage);
+  const structuredData = [
+    generateToolStructuredData({ ...tool, category: getLabel(tool.category) }),
+    generateBreadcrumbStructuredData([
+      { name: t.home, url: "/" },
+      { name: tool.name, url: path },
+    ]),
+  ];
 
   return (
-    <MainLayout>
-      {tool === undefined && <Skeleton className="w-full h-64" />}
-      {tool === null && <div>Tool not found</div>}
-      {tool && (
-        <>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            <div className="md:col-span-1">
-              <ToolCard tool={tool} language="en" />
-            </div>
-            <div className="md:col-span-2">
-              <h1 className="text-3xl font-bold mb-4">{tool.name}</h1>
-              <p className="text-muted-foreground mb-6">{tool.description}</p>
-              <ReviewsSection toolId={tool._id} />
+    <>
+      <SEO
+        title={tool.name}
+        description={tool.description}
+        keywords={[tool.name, getLabel(tool.category), ...tool.tags]}
+        image={tool.logoUrl}
+        url={typeof window !== "undefined" ? `${window.location.origin}${path}` : undefined}
+        type="article"
+        language={routeLanguage}
+        structuredData={structuredData}
+      />
+      <div className="container max-w-7xl px-3 py-6 sm:px-6 sm:py-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="md:col-span-1">
+            <ToolCard tool={tool} language={routeLanguage} />
+          </div>
+          <div className="md:col-span-2">
+            <h1 className="text-3xl font-bold mb-4">{tool.name}</h1>
+            <div className="mb-4 empty:hidden">
+              <LifecycleBanner tool={tool} language={routeLanguage} />
             </div>
+            <p className="text-muted-foreground mb-6">{tool.description}</p>
+            {tool.detail && (
+              <p className="text-sm leading-relaxed mb-6 whitespace-pre-wrap">{tool.detail}</p>
+            )}
+            <ToolMediaGallery
+              toolId={tool._id}
+              toolName={tool.name}
+              language={routeLanguage}
+              className="mb-8"
+              titleClassName="text-lg text-foreground"
+            />
+            <ReviewsSection toolId={tool._id} />
           </div>
-          <SimilarTools toolId={tool._id} language="en" />
-        </>
-      )}
-    </MainLayout>
+        </div>
+        <RelatedTools toolId={tool._id} toolName={tool.name} language={routeLanguage} />
+        <SimilarTools toolId={tool._id} language={routeLanguage} />
+      </div>
+    </>
   );
-}
\ No newline at end of file
+}
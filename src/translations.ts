@@ -14,11 +14,8 @@ export const translations = {
     signInPrompt: "Sign in to add tools",
     signInDescription: "Sign in to add and manage AI tools",
     welcome: "Welcome back",
-    loadSample: "Load Sample Data",
     myTools: "My Tools",
     stats: "Statistics",
-    dataLoaded: "Sample data loaded successfully!",
-    dataExists: "Sample data already exists",
     aboutUs: "About Us",
     // Semantic Search
     searchPlaceholder: "Search with natural language... (e.g., 'tools for writing blog posts')",
@@ -50,11 +47,8 @@ export const translations = {
     paid: "Trả phí",
     signInPrompt: "Đăng nhập để thêm công cụ",
     welcome: "Chào mừng trở lại",
-    loadSample: "Tải dữ liệu mẫu",
     myTools: "Công cụ của tôi",
     stats: "Thống kê",
-    dataLoaded: "Đã tải dữ liệu mẫu thành công!",
-    dataExists: "Dữ liệu mẫu đã tồn tại",
     aboutUs: "Giới thiệu",
     // Semantic Search
     searchPlaceholder: "Tìm kiếm bằng ngôn ngữ tự nhiên... (vd: 'công cụ viết bài blog')",
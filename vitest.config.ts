@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the pure helpers under convex/lib; kept apart from
+// vite.config.ts so the app's build plugins do not run for tests
+export default defineConfig({
+  test: {
+    include: ["convex/**/*.test.ts"],
+    environment: "node",
+  },
+});